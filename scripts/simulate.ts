@@ -0,0 +1,116 @@
+/**
+ * Headless balance runs: the autopilot plays many seeded games per difficulty
+ * and the averages are printed as a table.
+ *
+ *   npm run simulate -- --games 500 --difficulty hard --aim-error 20
+ *
+ * The same flags always produce the same numbers, so runs before and after a
+ * tuning change can be compared directly.
+ */
+import { parseArgs } from 'node:util';
+import { autopilotShop, createAutopilot, DEFAULT_AUTOPILOT, type AutopilotOptions } from '../src/game/autopilot';
+import { FIXED_DT } from '../src/game/constants';
+import { DIFFICULTY_PRESETS, difficultyOptions, type DifficultyPreset } from '../src/game/difficulty';
+import { createGame, startNextWave, step } from '../src/game/engine';
+import type { GameState, GuidanceMode } from '../src/game/types';
+
+// A bot game that hasn't ended after an hour of game time is stuck.
+const MAX_TICKS = 60 * 60 * 60;
+
+interface GameResult {
+  won: boolean;
+  score: number;
+  wave: number;
+  citiesLost: number;
+}
+
+interface RunConfig {
+  difficulty: DifficultyPreset;
+  guidance: GuidanceMode;
+  shop: boolean;
+  pilot: Omit<AutopilotOptions, 'seed'>;
+}
+
+function playGame(seed: number, config: RunConfig): GameResult {
+  const autopilot = createAutopilot({ ...config.pilot, seed });
+  let state: GameState = createGame(seed, {
+    guidance: config.guidance,
+    ...difficultyOptions(config.difficulty, DIFFICULTY_PRESETS[config.difficulty], false),
+  });
+  let citiesLost = 0;
+
+  for (let tick = 0; tick < MAX_TICKS; tick++) {
+    if (state.status === 'waveComplete') {
+      state = startNextWave(config.shop ? autopilotShop(state) : state);
+    }
+    state = step(state, { fires: autopilot.decide(state) }, FIXED_DT);
+    citiesLost += state.events.filter(e => e.type === 'cityDestroyed').length;
+    if (state.status === 'won' || state.status === 'lost') break;
+  }
+  return { won: state.status === 'won', score: state.score, wave: state.wave, citiesLost };
+}
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '200' },
+    difficulty: { type: 'string' },
+    seed: { type: 'string', default: '1' },
+    guidance: { type: 'string', default: 'heatSeeking' },
+    'aim-error': { type: 'string', default: String(DEFAULT_AUTOPILOT.aimError) },
+    'fire-interval': { type: 'string', default: String(DEFAULT_AUTOPILOT.fireInterval) },
+    'reaction-time': { type: 'string', default: String(DEFAULT_AUTOPILOT.reactionTime) },
+    'no-shop': { type: 'boolean', default: false },
+  },
+});
+
+const games = Number(values.games);
+const firstSeed = Number(values.seed);
+const pilot = {
+  aimError: Number(values['aim-error']),
+  fireInterval: Number(values['fire-interval']),
+  reactionTime: Number(values['reaction-time']),
+};
+const guidance = values.guidance as GuidanceMode;
+const difficulties = (values.difficulty ? [values.difficulty] : Object.keys(DIFFICULTY_PRESETS)) as DifficultyPreset[];
+if (!Number.isInteger(games) || games < 1 || !Number.isInteger(firstSeed)) {
+  console.error('--games and --seed must be whole numbers');
+  process.exit(1);
+}
+if (!(pilot.aimError >= 0) || !(pilot.fireInterval >= 0) || !(pilot.reactionTime >= 0)) {
+  console.error('--aim-error, --fire-interval and --reaction-time must be non-negative numbers');
+  process.exit(1);
+}
+if (!['ballistic', 'lockOn', 'heatSeeking'].includes(guidance)) {
+  console.error(`Unknown guidance "${guidance}"; expected ballistic, lockOn or heatSeeking`);
+  process.exit(1);
+}
+const unknown = difficulties.find(d => !(d in DIFFICULTY_PRESETS));
+if (unknown) {
+  console.error(`Unknown difficulty "${unknown}"; expected one of ${Object.keys(DIFFICULTY_PRESETS).join(', ')}`);
+  process.exit(1);
+}
+
+const average = (results: GameResult[], pick: (r: GameResult) => number) =>
+  results.reduce((sum, r) => sum + pick(r), 0) / results.length;
+
+const rows = difficulties.map(difficulty => {
+  const started = performance.now();
+  const config = { difficulty, guidance, shop: !values['no-shop'], pilot };
+  const results = Array.from({ length: games }, (_, i) => playGame(firstSeed + i, config));
+  return {
+    difficulty,
+    games,
+    'win rate': `${(average(results, r => (r.won ? 1 : 0)) * 100).toFixed(1)}%`,
+    'avg score': Math.round(average(results, r => r.score)),
+    'avg wave': average(results, r => r.wave).toFixed(2),
+    'avg cities lost': average(results, r => r.citiesLost).toFixed(2),
+    seconds: ((performance.now() - started) / 1000).toFixed(1),
+  };
+});
+
+// Bot settings shape the results as much as the rules do, so they're printed alongside.
+console.log(
+  `Bot: aim error ±${pilot.aimError} px, reaction ${pilot.reactionTime} s, at most one shot per ${pilot.fireInterval} s; `
+  + `guidance ${guidance}; shop ${values['no-shop'] ? 'off' : 'on'}; seeds ${firstSeed}-${firstSeed + games - 1}`,
+);
+console.table(rows);
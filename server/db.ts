@@ -0,0 +1,65 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export interface ScoreRow {
+  id: number;
+  name: string;
+  score: number;
+  wave: number;
+  citiesSaved: number;
+  language: string;
+  difficulty: string;
+  createdAt: string;
+}
+
+export type NewScore = Omit<ScoreRow, 'id' | 'createdAt'>;
+
+export interface LeaderboardStore {
+  insert(score: NewScore): ScoreRow;
+  top(difficulty: string, limit: number): ScoreRow[];
+  close(): void;
+}
+
+export function openLeaderboard(file: string): LeaderboardStore {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scores (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      wave INTEGER NOT NULL,
+      cities_saved INTEGER NOT NULL,
+      language TEXT NOT NULL,
+      difficulty TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+    CREATE INDEX IF NOT EXISTS scores_by_difficulty ON scores (difficulty, score DESC);
+  `);
+
+  const columns = `id, name, score, wave, cities_saved AS citiesSaved, language, difficulty, created_at AS createdAt`;
+  const insertStmt = db.prepare(
+    `INSERT INTO scores (name, score, wave, cities_saved, language, difficulty)
+     VALUES (@name, @score, @wave, @citiesSaved, @language, @difficulty)`,
+  );
+  const byIdStmt = db.prepare(`SELECT ${columns} FROM scores WHERE id = ?`);
+  const topStmt = db.prepare(
+    `SELECT ${columns} FROM scores WHERE difficulty = ? ORDER BY score DESC, created_at ASC LIMIT ?`,
+  );
+
+  return {
+    insert(score) {
+      const { lastInsertRowid } = insertStmt.run(score);
+      return byIdStmt.get(lastInsertRowid) as ScoreRow;
+    },
+    top(difficulty, limit) {
+      return topStmt.all(difficulty, limit) as ScoreRow[];
+    },
+    close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { openLeaderboard, type NewScore } from './db';
+import { attachLobby } from './lobby';
+
+const PORT = Number(process.env.LEADERBOARD_PORT ?? 3001);
+const DB_FILE = process.env.LEADERBOARD_DB ?? path.resolve('data', 'leaderboard.db');
+const MAX_LIMIT = 100;
+
+const store = openLeaderboard(DB_FILE);
+const app = express();
+app.use(express.json({ limit: '8kb' }));
+
+function isInt(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTag(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z][a-z0-9-]{0,15}$/.test(value);
+}
+
+/** Returns the validated submission, or an error message describing the first bad field. */
+function parseScore(body: unknown): NewScore | string {
+  if (!isRecord(body)) return 'body must be a JSON object';
+  const { score, wave, citiesSaved, language, difficulty } = body;
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (name.length < 1 || name.length > 24) return 'name must be 1-24 characters';
+  if (!isInt(score, 0, 10_000_000)) return 'score must be a non-negative integer';
+  if (!isInt(wave, 1, 10_000)) return 'wave must be a positive integer';
+  if (!isInt(citiesSaved, 0, 100)) return 'citiesSaved must be a non-negative integer';
+  if (!isTag(language)) return 'language is invalid';
+  if (!isTag(difficulty)) return 'difficulty is invalid';
+
+  return { name, score, wave, citiesSaved, language, difficulty };
+}
+
+app.get('/api/health', (_req, res) => {
+  res.json({ ok: true });
+});
+
+app.get('/api/scores', (req, res) => {
+  const difficulty = typeof req.query.difficulty === 'string' ? req.query.difficulty : 'normal';
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.query.limit) || 10));
+  if (!isTag(difficulty)) {
+    res.status(400).json({ error: 'difficulty is invalid' });
+    return;
+  }
+  res.json({ scores: store.top(difficulty, limit) });
+});
+
+app.post('/api/scores', (req, res) => {
+  const parsed = parseScore(req.body);
+  if (typeof parsed === 'string') {
+    res.status(400).json({ error: parsed });
+    return;
+  }
+  res.status(201).json({ score: store.insert(parsed) });
+});
+
+const server = app.listen(PORT, () => {
+  console.log(`Leaderboard server listening on http://localhost:${PORT} (db: ${DB_FILE})`);
+});
+const lobby = attachLobby(server);
+
+function shutdown() {
+  lobby.clients.forEach(client => client.terminate());
+  server.close(() => {
+    store.close();
+    process.exit(0);
+  });
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,62 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import type { ClientMessage, ServerMessage } from '../src/net/protocol';
+import { attachLobby } from './lobby';
+
+let server: Server;
+let url: string;
+const sockets: WebSocket[] = [];
+
+beforeEach(async () => {
+  server = createServer();
+  attachLobby(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+});
+
+afterEach(async () => {
+  sockets.splice(0).forEach(socket => socket.close());
+  await new Promise(resolve => server.close(resolve));
+});
+
+/** A connected client whose `next()` resolves with the next message the server sends it. */
+async function connect() {
+  const socket = new WebSocket(url);
+  sockets.push(socket);
+  const inbox: ServerMessage[] = [];
+  const waiting: ((message: ServerMessage) => void)[] = [];
+  socket.on('message', raw => {
+    const message = JSON.parse(raw.toString());
+    const resolve = waiting.shift();
+    if (resolve) resolve(message);
+    else inbox.push(message);
+  });
+  await new Promise(resolve => socket.once('open', resolve));
+  return {
+    send: (message: ClientMessage) => socket.send(JSON.stringify(message)),
+    next: () => new Promise<ServerMessage>(resolve => {
+      const message = inbox.shift();
+      if (message) resolve(message);
+      else waiting.push(resolve);
+    }),
+  };
+}
+
+describe('lobby', () => {
+  it('turns down a host joining its own room and keeps the room open', async () => {
+    const host = await connect();
+    host.send({ type: 'host', mode: 'coop' });
+    const hosted = await host.next();
+    if (hosted.type !== 'hosted') throw new Error(`Expected hosted, got ${hosted.type}`);
+
+    host.send({ type: 'join', room: hosted.room });
+    expect(await host.next()).toEqual({ type: 'error', reason: 'ownRoom' });
+
+    const guest = await connect();
+    guest.send({ type: 'join', room: hosted.room.toLowerCase() });
+    expect(await guest.next()).toEqual({ type: 'joined', room: hosted.room, mode: 'coop' });
+    expect(await host.next()).toEqual({ type: 'peerJoined' });
+  });
+});
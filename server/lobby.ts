@@ -0,0 +1,106 @@
+import type { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  ROOM_CODE_LENGTH,
+  ROOM_CODE_LETTERS,
+  type ClientMessage,
+  type LanMode,
+  type ServerMessage,
+} from '../src/net/protocol';
+
+/** Snapshots of a busy wave stay well under this; anything bigger is not from the game. */
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+interface Room {
+  mode: LanMode;
+  host: WebSocket;
+  guest: WebSocket | null;
+}
+
+function send(socket: WebSocket | null, message: ServerMessage) {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function roomCode(rooms: Map<string, Room>) {
+  let code: string;
+  do {
+    code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_LETTERS[Math.floor(Math.random() * ROOM_CODE_LETTERS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+/**
+ * Relays LAN games on `/ws`: one browser hosts a room and runs the simulation,
+ * one more joins with the room code, and messages between them pass through untouched.
+ */
+export function attachLobby(server: Server) {
+  const wss = new WebSocketServer({ server, path: '/ws', maxPayload: MAX_MESSAGE_BYTES });
+  const rooms = new Map<string, Room>();
+
+  wss.on('connection', socket => {
+    let room: Room | null = null;
+    let code = '';
+
+    const leave = () => {
+      if (!room) return;
+      if (room.host === socket) {
+        // The host owns the game; without it the room is gone.
+        send(room.guest, { type: 'peerLeft' });
+        room.guest?.close();
+        rooms.delete(code);
+      } else {
+        room.guest = null;
+        send(room.host, { type: 'peerLeft' });
+      }
+      room = null;
+    };
+
+    socket.on('message', raw => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        send(socket, { type: 'error', reason: 'badMessage' });
+        return;
+      }
+
+      switch (message?.type) {
+        case 'host':
+          leave();
+          code = roomCode(rooms);
+          room = { mode: message.mode === 'versus' ? 'versus' : 'coop', host: socket, guest: null };
+          rooms.set(code, room);
+          send(socket, { type: 'hosted', room: code });
+          break;
+        case 'join': {
+          const target = rooms.get(String(message.room).toUpperCase());
+          if (!target) {
+            send(socket, { type: 'error', reason: 'roomNotFound' });
+          } else if (target.host === socket) {
+            // Leaving to join would close the very room being joined.
+            send(socket, { type: 'error', reason: 'ownRoom' });
+          } else if (target.guest) {
+            send(socket, { type: 'error', reason: 'roomFull' });
+          } else {
+            leave();
+            code = String(message.room).toUpperCase();
+            room = target;
+            room.guest = socket;
+            send(socket, { type: 'joined', room: code, mode: room.mode });
+            send(room.host, { type: 'peerJoined' });
+          }
+          break;
+        }
+        case 'relay':
+          if (room) send(room.host === socket ? room.guest : room.host, { type: 'relay', data: message.data });
+          break;
+        default:
+          send(socket, { type: 'error', reason: 'badMessage' });
+      }
+    });
+
+    socket.on('close', leave);
+  });
+
+  return wss;
+}
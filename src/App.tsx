@@ -3,400 +3,526 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-import { Shield, Target, Trophy, AlertTriangle, RefreshCw, Languages } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
+import { Shield, Target, Trophy, AlertTriangle, RefreshCw, Languages, ChevronRight, Pause, Play, Home, Settings as SettingsIcon, Film, Download, Upload, Maximize, Minimize, BarChart3, Pencil, CalendarDays, Users, LogOut, Radio } from 'lucide-react';
 import confetti from 'canvas-confetti';
+import { autopilotShop, createAutopilot, type Autopilot } from './game/autopilot';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, FIXED_DT, MAX_FRAME_TIME } from './game/constants';
+import { difficultyOptions, difficultyTag } from './game/difficulty';
+import { moveHandle, pickHandle, type EditorHandle } from './game/editor';
+import { createGame, ownsBattery, purchaseUpgrade, selectBattery, startNextWave, step } from './game/engine';
+import { nearestEnemy, predictIntercept } from './game/guidance';
+import { interpolate } from './game/interpolate';
+import { resolvePalette } from './game/palettes';
+import { createParticleSystem } from './game/particles';
+import { createRecorder, createReplayPlayer, parseReplay, quantizeFire, ReplayError, resumeRecorder, serializeReplay, type Replay, type ReplayPlayer, type ReplayProblem, type ReplayRecorder } from './game/replay';
+import { randomSeed } from './game/rng';
+import { drawDebug, drawEditor, drawGame } from './game/renderer';
+import { groundY, scenarioError, scenarioOptions, terrainOf } from './game/scenario';
+import type { FireCommand, GameEvent, GameOptions, GameState, GameStatus, LaunchCommand, Point, Scenario, UpgradeId, WaveBonus } from './game/types';
+import { interceptorSpeed, shopItems } from './game/upgrades';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import ReplayControls, { replayProblemMessage } from './components/ReplayControls';
+import AchievementToasts, { type AchievementToast } from './components/AchievementToasts';
+import DailyPanel, { DailyShare } from './components/DailyPanel';
+import DebugPanel from './components/DebugPanel';
+import DifficultyPicker, { difficultyLabel } from './components/DifficultyPicker';
+import MultiplayerPanel from './components/MultiplayerPanel';
+import ScenarioEditor from './components/ScenarioEditor';
+import SettingsPanel from './components/SettingsPanel';
+import StatsPanel from './components/StatsPanel';
+import UpgradeShop from './components/UpgradeShop';
+import { newlyUnlocked } from './achievements';
+import { createAudioEngine } from './audio';
+import { ARROW_KEYS, BATTERY_KEY_ROW, BATTERY_KEYS, CROSSHAIR_SPEED, createGamepadReader, readKeyboardAim } from './controls';
+import { dailyDate, dailyOptions, dailyResult, dailySeed, finishDailyAttempt, loadDailyAttempt, startDailyAttempt, type DailyAttempt } from './daily';
+import { readDebugSnapshot, runDebugCommand, type DebugControls } from './debug';
+import { briefingContext, createNarrator, debriefContext } from './narrator';
+import { fitCanvas, fullscreenSupported, toggleFullscreen, watchCanvasSize } from './display';
+import { connectLan, type LanConnection, type LanProblem, type LanStatus } from './net/lan';
+import type { LanMode, PeerMessage, ServerMessage } from './net/protocol';
+import { clientToCanvas } from './pointer';
+import { clearSave, createSave, loadSave, storeSave, type SavedGame } from './save';
+import { loadDraft, storeDraft } from './scenarioDraft';
+import { loadSettings, saveSettings, type Settings } from './settings';
+import { accuracy, addRun, createRunTracker, loadStats, saveStats, type RunStats, type RunTracker, type StatsRecord } from './stats';
+import { batteryLabel, format, languageInfo, LANGUAGES, loadTranslation, plural, saveLanguage, type Language, type Translation } from './i18n';
 
-// --- Constants ---
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
-const ROCKET_SPEED_MIN = 0.25;
-const ROCKET_SPEED_MAX = 0.75;
-const MISSILE_SPEED = 7;
-const EXPLOSION_RADIUS_MAX = 40;
-const EXPLOSION_GROWTH_RATE = 1.5;
-const SCORE_PER_ROCKET = 20;
-const WIN_SCORE = 1000;
-
-// --- Types ---
-type Language = 'en' | 'zh';
-
-interface Point {
-  x: number;
-  y: number;
-}
+// --- Input ---
 
-interface Entity extends Point {
-  id: string;
+// The playfield grows past the old fixed width when the window is tall enough to fit it.
+const PLAYFIELD_WIDTH = 'max-w-[max(56rem,calc((100dvh-9rem)*4/3))]';
+/** Explicit fire mode starts out on the middle battery, the center one in the classic layout. */
+function middleBattery(state: GameState) {
+  return Math.floor(state.batteries.length / 2);
 }
 
-interface Rocket extends Entity {
-  targetX: number;
-  targetY: number;
-  speed: number;
-  color: string;
-}
+// `remote` is a LAN guest's view of a game simulated by the host.
+type Screen = 'menu' | 'playing' | 'paused' | 'waveComplete' | 'won' | 'lost' | 'replay' | 'editor' | 'remote';
 
-interface Missile extends Entity {
-  destX: number;
-  destY: number;
-  startX: number;
-  startY: number;
-}
+// Aim assist only considers enemies this close to the cursor.
+const AIM_ASSIST_RANGE = 150;
 
-interface Explosion extends Entity {
-  radius: number;
-  growing: boolean;
-}
+// Replay scrubber position is pushed to React at most this often (in ticks).
+const REPLAY_UI_INTERVAL = 6;
 
-interface Battery {
-  x: number;
-  y: number;
-  ammo: number;
-  maxAmmo: number;
-  destroyed: boolean;
-}
+// How often an unfinished game is saved so it survives a reload.
+const AUTOSAVE_MS = 5000;
+
+// How long an achievement toast stays on screen.
+const TOAST_MS = 4000;
 
-interface City {
-  x: number;
-  y: number;
-  destroyed: boolean;
+// Weight of the newest frame in the debug overlay's moving averages.
+const DEBUG_SMOOTHING = 0.1;
+
+// How long a wave briefing stays on screen once it arrives.
+const BRIEFING_MS = 8000;
+
+// How often a LAN host sends the game to its guest; the guest interpolates in between.
+const SNAPSHOT_MS = 50;
+
+interface AppProps {
+  /** Locale resolved before the first render, so the page doesn't flash another language. */
+  initialTranslation: Translation;
 }
 
-const TRANSLATIONS = {
-  en: {
-    title: "Max Nova Defense",
-    start: "Start Game",
-    gameOver: "Game Over",
-    victory: "Victory!",
-    score: "Score",
-    ammo: "Ammo",
-    playAgain: "Play Again",
-    instructions: "Click anywhere to intercept rockets. Protect your cities!",
-    winCondition: "Reach 1000 points to win.",
-    lossCondition: "All batteries destroyed = Game Over.",
-    left: "Left",
-    center: "Center",
-    right: "Right",
-  },
-  zh: {
-    title: "Max新星防御",
-    start: "开始游戏",
-    gameOver: "游戏结束",
-    victory: "胜利！",
-    score: "得分",
-    ammo: "弹药",
-    playAgain: "再玩一次",
-    instructions: "点击屏幕发射拦截导弹。保护你的城市！",
-    winCondition: "达到 1000 分即可获胜。",
-    lossCondition: "所有炮台被毁 = 游戏结束。",
-    left: "左侧",
-    center: "中间",
-    right: "右侧",
-  }
-};
-
-export default function App() {
-  const [lang, setLang] = useState<Language>('zh');
-  const [gameState, setGameState] = useState<'menu' | 'playing' | 'won' | 'lost'>('menu');
+export default function App({ initialTranslation }: AppProps) {
+  const [t, setT] = useState(initialTranslation);
+  const [gameState, setGameState] = useState<Screen>('menu');
   const [score, setScore] = useState(0);
-  const [ammo, setAmmo] = useState({ left: 20, center: 40, right: 20 });
+  const [credits, setCredits] = useState(0);
+  const [wave, setWave] = useState(1);
+  const [bonus, setBonus] = useState<WaveBonus | null>(null);
+  const [citiesSaved, setCitiesSaved] = useState(0);
+  const [ammo, setAmmo] = useState([20, 40, 20]);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [nextBattery, setNextBattery] = useState(1);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<ReplayProblem | null>(null);
+  const [replayPlaying, setReplayPlaying] = useState(true);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayTick, setReplayTick] = useState(0);
+  const [stats, setStats] = useState<StatsRecord>(loadStats);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [toasts, setToasts] = useState<AchievementToast[]>([]);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const [saveDiscarded, setSaveDiscarded] = useState(false);
+  const [dailyOpen, setDailyOpen] = useState(false);
+  const [dailyAttempt, setDailyAttempt] = useState<DailyAttempt | null>(() => loadDailyAttempt(dailyDate()));
+  const [draft, setDraft] = useState<Scenario>(loadDraft);
+  // The running game was started from the editor, so its end and quit screens lead back there.
+  const [playtesting, setPlaytesting] = useState(false);
+  const [playerScores, setPlayerScores] = useState([0]);
+  const [multiplayerOpen, setMultiplayerOpen] = useState(false);
+  const [lan, setLan] = useState<LanStatus | null>(null);
+  const [lanProblem, setLanProblem] = useState<LanProblem | null>(null);
+  // Status of the host's game as last seen by a LAN guest.
+  const [remoteStatus, setRemoteStatus] = useState<GameStatus>('playing');
+  const [remotePaused, setRemotePaused] = useState(false);
+  const [briefing, setBriefing] = useState<string | null>(null);
+  const [debrief, setDebrief] = useState<string | null>(null);
+  const [debriefPending, setDebriefPending] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gameAreaRef = useRef<HTMLDivElement>(null);
+  // Logical-to-backing-store scale, refreshed whenever the canvas is resized.
+  const canvasScaleRef = useRef(1);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [debugOpen, setDebugOpen] = useState(false);
   const requestRef = useRef<number>(null);
-  
-  // Game Entities
-  const rocketsRef = useRef<Rocket[]>([]);
-  const missilesRef = useRef<Missile[]>([]);
-  const explosionsRef = useRef<Explosion[]>([]);
-  const batteriesRef = useRef<Battery[]>([
-    { x: 50, y: CANVAS_HEIGHT - 20, ammo: 20, maxAmmo: 20, destroyed: false },
-    { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 20, ammo: 40, maxAmmo: 40, destroyed: false },
-    { x: CANVAS_WIDTH - 50, y: CANVAS_HEIGHT - 20, ammo: 20, maxAmmo: 20, destroyed: false },
-  ]);
-  const citiesRef = useRef<City[]>([
-    { x: 150, y: CANVAS_HEIGHT - 15, destroyed: false },
-    { x: 250, y: CANVAS_HEIGHT - 15, destroyed: false },
-    { x: 350, y: CANVAS_HEIGHT - 15, destroyed: false },
-    { x: 450, y: CANVAS_HEIGHT - 15, destroyed: false },
-    { x: 550, y: CANVAS_HEIGHT - 15, destroyed: false },
-    { x: 650, y: CANVAS_HEIGHT - 15, destroyed: false },
-  ]);
-
-  const t = TRANSLATIONS[lang];
 
-  // --- Game Logic ---
+  // Game Engine
+  const engineRef = useRef<GameState>(createGame(randomSeed()));
+  const prevStateRef = useRef<GameState>(engineRef.current);
+  const firesRef = useRef<FireCommand[]>([]);
 
-  const spawnRocket = useCallback(() => {
-    const targets = [
-      ...batteriesRef.current.filter(b => !b.destroyed),
-      ...citiesRef.current.filter(c => !c.destroyed)
-    ];
-    
-    if (targets.length === 0) return;
-
-    const target = targets[Math.floor(Math.random() * targets.length)];
-    const startX = Math.random() * CANVAS_WIDTH;
-    
-    rocketsRef.current.push({
-      id: Math.random().toString(36).substr(2, 9),
-      x: startX,
-      y: 0,
-      targetX: target.x,
-      targetY: target.y,
-      speed: ROCKET_SPEED_MIN + Math.random() * (ROCKET_SPEED_MAX - ROCKET_SPEED_MIN),
-      color: `hsl(${Math.random() * 60 + 0}, 100%, 50%)`, // Reddish
-    });
-  }, []);
+  // Replays
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
 
-  const update = useCallback(() => {
-    if (gameState !== 'playing') return;
+  // Bot driving the demo game behind the menu; null until the menu next shows one.
+  const attractRef = useRef<Autopilot | null>(null);
 
-    // 1. Update Rockets
-    rocketsRef.current.forEach((rocket, index) => {
-      const dx = rocket.targetX - rocket.x;
-      const dy = rocket.targetY - rocket.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < 2) {
-        // Hit target!
-        explosionsRef.current.push({
-          id: Math.random().toString(36).substr(2, 9),
-          x: rocket.x,
-          y: rocket.y,
-          radius: 2,
-          growing: true
-        });
-        
-        // Check what was hit
-        batteriesRef.current.forEach(b => {
-          if (Math.abs(b.x - rocket.targetX) < 5 && Math.abs(b.y - rocket.targetY) < 5) {
-            b.destroyed = true;
-            b.ammo = 0;
-          }
-        });
-        citiesRef.current.forEach(c => {
-          if (Math.abs(c.x - rocket.targetX) < 5 && Math.abs(c.y - rocket.targetY) < 5) {
-            c.destroyed = true;
-          }
-        });
+  // Level editor: the handle being dragged, and the one under the pointer.
+  const dragRef = useRef<EditorHandle | null>(null);
+  const hoverRef = useRef<EditorHandle | null>(null);
 
-        rocketsRef.current.splice(index, 1);
-      } else {
-        rocket.x += (dx / distance) * rocket.speed;
-        rocket.y += (dy / distance) * rocket.speed;
-      }
-    });
+  // Statistics for the live run; replays and the menu don't count.
+  const trackerRef = useRef<RunTracker | null>(null);
+  const statsRef = useRef(stats);
+  const toastKeyRef = useRef(0);
 
-    // 2. Update Missiles
-    missilesRef.current.forEach((missile, index) => {
-      // Heat-seeking logic: find nearest rocket
-      let nearestRocket: Rocket | null = null;
-      let minDist = 300; // Detection range for heat-seeking
-
-      rocketsRef.current.forEach(r => {
-        const d = Math.sqrt(Math.pow(r.x - missile.x, 2) + Math.pow(r.y - missile.y, 2));
-        if (d < minDist) {
-          minDist = d;
-          nearestRocket = r;
-        }
-      });
+  // Aiming
+  const cursorRef = useRef({ x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 });
+  // Local co-op: player 2's crosshair, steered by keyboard or gamepad.
+  const cursor2Ref = useRef({ x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 });
+  // Player index whose batteries the pointer fires from: 1 for a LAN co-op guest, otherwise 0.
+  const seatRef = useRef(0);
+  const selectedBatteryRef = useRef(1);
+  const heldKeysRef = useRef(new Set<string>());
+  const readGamepadRef = useRef(createGamepadReader());
 
-      if (nearestRocket) {
-        missile.destX = (nearestRocket as Rocket).x;
-        missile.destY = (nearestRocket as Rocket).y;
-      }
+  const audioRef = useRef(createAudioEngine());
+  const narratorRef = useRef(createNarrator());
+  // Bumped for every narration request so a slow reply for an earlier wave or game is dropped.
+  const narrationRef = useRef(0);
+  const particlesRef = useRef(createParticleSystem());
 
-      const dx = missile.destX - missile.x;
-      const dy = missile.destY - missile.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      if (distance < MISSILE_SPEED) {
-        explosionsRef.current.push({
-          id: Math.random().toString(36).substr(2, 9),
-          x: missile.destX,
-          y: missile.destY,
-          radius: 2,
-          growing: true
-        });
-        missilesRef.current.splice(index, 1);
-      } else {
-        missile.x += (dx / distance) * MISSILE_SPEED;
-        missile.y += (dy / distance) * MISSILE_SPEED;
-      }
-    });
+  // LAN play: the lobby connection, remote commands waiting for the next step, and snapshot bookkeeping.
+  const lanRef = useRef<LanConnection | null>(null);
+  const lanHandlerRef = useRef<(message: ServerMessage) => void>(() => {});
+  const lanClosedRef = useRef<() => void>(() => {});
+  const launchesRef = useRef<LaunchCommand[]>([]);
+  const pendingEventsRef = useRef<GameEvent[]>([]);
+  const sentStateRef = useRef<GameState | null>(null);
+  const snapshotAtRef = useRef(0);
+  // A versus guest's rocket entry point while they drag towards a target.
+  const launchFromRef = useRef<Point | null>(null);
 
-    // 3. Update Explosions
-    explosionsRef.current.forEach((exp, index) => {
-      if (exp.growing) {
-        exp.radius += EXPLOSION_GROWTH_RATE;
-        if (exp.radius >= EXPLOSION_RADIUS_MAX) {
-          exp.growing = false;
-        }
-      } else {
-        exp.radius -= EXPLOSION_GROWTH_RATE;
-        if (exp.radius <= 0) {
-          explosionsRef.current.splice(index, 1);
-        }
-      }
+  // Developer console state; stays at its defaults in production builds.
+  const debugRef = useRef<DebugControls>({ timeScale: 1, frozen: false, fps: 0, updateMs: 0, drawMs: 0 });
 
-      // Check collision with rockets
-      rocketsRef.current.forEach((rocket, rIdx) => {
-        const dx = rocket.x - exp.x;
-        const dy = rocket.y - exp.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist < exp.radius) {
-          rocketsRef.current.splice(rIdx, 1);
-          setScore(prev => prev + SCORE_PER_ROCKET);
-        }
-      });
-    });
+  // Fixed-timestep loop
+  const lastFrameRef = useRef<number | null>(null);
+  const accumulatorRef = useRef(0);
 
-    // 4. Spawn Rockets
-    if (Math.random() < 0.015 + (score / 10000)) {
-      spawnRocket();
-    }
+  const lang = t.locale;
+  const palette = resolvePalette(settings.palette, settings.highContrast);
+  const gameOptions = engineRef.current.options;
+  // Player 2 shares this screen and aims with the keyboard or gamepad.
+  const localCoop = gameOptions.batteryOwners !== null && lan === null;
+  const multiplayer = gameOptions.batteryOwners !== null || gameOptions.versus;
+  const draftError = useMemo(() => scenarioError(draft), [draft]);
+  const winCondition = playtesting
+    ? draft.win.type === 'score' ? format(t.scoreCondition, { score: draft.win.score }) : plural(t, 'winCondition', draft.waves.length)
+    : settings.endless
+      ? t.endlessCondition
+      : plural(t, 'winCondition', difficultyOptions(settings.difficulty, settings.customDifficulty, false).waves);
 
-    // 5. Check Win/Loss
-    if (score >= WIN_SCORE) {
-      setGameState('won');
-      confetti({
-        particleCount: 150,
-        spread: 70,
-        origin: { y: 0.6 }
-      });
-    }
+  // --- Game Logic ---
 
-    const allBatteriesDestroyed = batteriesRef.current.every(b => b.destroyed);
-    if (allBatteriesDestroyed) {
-      setGameState('lost');
+  const queueFire = useCallback((point: Point, battery?: number, player = 0) => {
+    const { batteries, options } = engineRef.current;
+    if (batteries.every((b, i) => b.ammo === 0 || !ownsBattery(options.batteryOwners, player, i))) {
+      audioRef.current.play('lowAmmo', point.x);
+    }
+    // Co-op players always fire from their own nearest battery.
+    if (options.batteryOwners) {
+      firesRef.current.push({ x: point.x, y: point.y, player });
+      return;
     }
+    if (settings.fireMode !== 'explicit') {
+      firesRef.current.push({ x: point.x, y: point.y });
+      return;
+    }
+    if (battery !== undefined) selectedBatteryRef.current = battery;
+    firesRef.current.push({ x: point.x, y: point.y, battery: selectedBatteryRef.current });
+  }, [settings.fireMode]);
+
+  const syncHud = useCallback((state: GameState) => {
+    setScore(state.score);
+    setCredits(state.credits);
+    setWave(state.wave);
+    setCitiesSaved(state.cities.filter(c => !c.destroyed).length);
+    setPlayerScores(prev => prev.length === state.playerScores.length && prev.every((p, i) => p === state.playerScores[i]) ? prev : state.playerScores);
 
     // Update UI state for ammo
-    setAmmo({
-      left: batteriesRef.current[0].ammo,
-      center: batteriesRef.current[1].ammo,
-      right: batteriesRef.current[2].ammo
-    });
+    const ammoLeft = state.batteries.map(b => b.ammo);
+    setAmmo(prev => prev.length === ammoLeft.length && prev.every((a, i) => a === ammoLeft[i]) ? prev : ammoLeft);
+    setNextBattery(settings.fireMode === 'explicit' && !state.options.batteryOwners
+      ? selectedBatteryRef.current
+      : selectBattery(state.batteries, cursorRef.current.x, state.options.batteryOwners, seatRef.current));
+  }, [settings.fireMode]);
 
-  }, [gameState, score, spawnRocket]);
+  const steerCrosshair = useCallback((frameTime: number) => {
+    const keys = readKeyboardAim(heldKeysRef.current);
+    const pad = readGamepadRef.current();
+    const dx = Math.max(-1, Math.min(1, keys.dx + (pad?.dx ?? 0)));
+    const dy = Math.max(-1, Math.min(1, keys.dy + (pad?.dy ?? 0)));
 
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    const crosshair = localCoop ? cursor2Ref : cursorRef;
+    if (gameState === 'playing' && (dx !== 0 || dy !== 0)) {
+      const cursor = crosshair.current;
+      crosshair.current = {
+        x: Math.max(0, Math.min(CANVAS_WIDTH, cursor.x + dx * CROSSHAIR_SPEED * frameTime)),
+        y: Math.max(0, Math.min(CANVAS_HEIGHT, cursor.y + dy * CROSSHAIR_SPEED * frameTime)),
+      };
+    }
 
-    // Background
-    ctx.fillStyle = '#050505';
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    if (!pad) return;
+    if (pad.pause) setGameState(s => s === 'playing' ? 'paused' : s === 'paused' ? 'playing' : s);
+    if (gameState !== 'playing') return;
+    if (pad.fire) queueFire(crosshair.current, undefined, localCoop ? 1 : 0);
+    if (pad.battery !== null && settings.fireMode === 'explicit') queueFire(crosshair.current, pad.battery, localCoop ? 1 : 0);
+  }, [gameState, queueFire, settings.fireMode, localCoop]);
 
-    // Ground
-    ctx.fillStyle = '#222';
-    ctx.fillRect(0, CANVAS_HEIGHT - 20, CANVAS_WIDTH, 20);
+  // --- Statistics ---
 
-    // Draw Rockets
-    rocketsRef.current.forEach(r => {
-      ctx.beginPath();
-      ctx.moveTo(r.x, r.y);
-      ctx.lineTo(r.x - (r.targetX - r.x) * 0.05, r.y - (r.targetY - r.y) * 0.05);
-      ctx.strokeStyle = r.color;
-      ctx.lineWidth = 2;
-      ctx.stroke();
+  const updateStats = useCallback((next: StatsRecord) => {
+    statsRef.current = next;
+    saveStats(next);
+    setStats(next);
+  }, []);
 
-      ctx.fillStyle = r.color;
-      ctx.beginPath();
-      ctx.arc(r.x, r.y, 3, 0, Math.PI * 2);
-      ctx.fill();
-    });
+  const trackRun = useCallback((state: GameState) => {
+    const tracker = trackerRef.current;
+    if (!tracker) return;
+    tracker.record(state.events, state);
+    if (state.events.length === 0) return;
 
-    // Draw Missiles
-    missilesRef.current.forEach(m => {
-      ctx.beginPath();
-      ctx.moveTo(m.startX, m.startY);
-      ctx.lineTo(m.x, m.y);
-      ctx.strokeStyle = '#fff';
-      ctx.lineWidth = 1;
-      ctx.stroke();
-
-      ctx.fillStyle = '#fff';
-      ctx.beginPath();
-      ctx.arc(m.x, m.y, 2, 0, Math.PI * 2);
-      ctx.fill();
-
-      // Draw Target X
-      ctx.strokeStyle = '#f00';
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(m.destX - 5, m.destY - 5);
-      ctx.lineTo(m.destX + 5, m.destY + 5);
-      ctx.moveTo(m.destX + 5, m.destY - 5);
-      ctx.lineTo(m.destX - 5, m.destY + 5);
-      ctx.stroke();
+    const record = statsRef.current;
+    const unlocked = newlyUnlocked(record.achievements, tracker.stats, record.lifetime);
+    const finished = state.status === 'won' || state.status === 'lost';
+    if (unlocked.length === 0 && !finished) return;
+
+    const now = Date.now();
+    const achievements = { ...record.achievements };
+    unlocked.forEach(id => {
+      achievements[id] = now;
     });
+    if (finished) {
+      const run = { ...tracker.stats };
+      updateStats({ lifetime: addRun(record.lifetime, run), achievements, lastRun: run });
+      trackerRef.current = null;
+    } else {
+      updateStats({ ...record, achievements });
+    }
+
+    if (unlocked.length === 0) return;
+    const added = unlocked.map(id => ({ key: toastKeyRef.current++, id }));
+    setToasts(current => [...current, ...added]);
+    setTimeout(() => {
+      setToasts(current => current.filter(toast => !added.includes(toast)));
+    }, TOAST_MS);
+  }, [updateStats]);
+
+  const updateReplay = useCallback((frameTime: number) => {
+    const player = replayPlayerRef.current;
+    if (!player || !replayPlaying) return;
+
+    accumulatorRef.current += frameTime * replaySpeed;
+    while (accumulatorRef.current >= FIXED_DT && player.advance()) {
+      accumulatorRef.current -= FIXED_DT;
+      audioRef.current.playEvents(player.state.events, player.state);
+      particlesRef.current.handleEvents(player.state.events, player.state);
+      if (player.tick % REPLAY_UI_INTERVAL === 0) setReplayTick(player.tick);
+    }
+    if (player.done) {
+      accumulatorRef.current = 0;
+      setReplayTick(player.tick);
+      setReplayPlaying(false);
+    }
+
+    prevStateRef.current = player.prev;
+    engineRef.current = player.state;
+    syncHud(player.state);
+  }, [replayPlaying, replaySpeed, syncHud]);
+
+  const updateAttract = useCallback((frameTime: number) => {
+    let state = engineRef.current;
+    if (!attractRef.current || state.status === 'won' || state.status === 'lost') {
+      // The autopilot's defaults play like a person, misses and all.
+      attractRef.current = createAutopilot({ seed: randomSeed() });
+      state = createGame(randomSeed());
+      prevStateRef.current = state;
+      particlesRef.current.reset();
+      accumulatorRef.current = 0;
+    }
+
+    accumulatorRef.current += frameTime;
+    while (accumulatorRef.current >= FIXED_DT && (state.status === 'playing' || state.status === 'waveComplete')) {
+      accumulatorRef.current -= FIXED_DT;
+      if (state.status === 'waveComplete') state = startNextWave(autopilotShop(state));
+      prevStateRef.current = state;
+      state = step(state, { fires: attractRef.current.decide(state) }, FIXED_DT);
+      particlesRef.current.handleEvents(state.events, state);
+    }
+    engineRef.current = state;
+    particlesRef.current.update(frameTime, state);
+  }, []);
+
+  // --- Narrator ---
 
-    // Draw Explosions
-    explosionsRef.current.forEach(e => {
-      const gradient = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
-      gradient.addColorStop(0, 'rgba(255, 255, 255, 0.9)');
-      gradient.addColorStop(0.4, 'rgba(255, 200, 0, 0.7)');
-      gradient.addColorStop(1, 'rgba(255, 0, 0, 0)');
-      
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
-      ctx.fill();
+  const requestBriefing = useCallback((state: GameState) => {
+    const request = ++narrationRef.current;
+    setBriefing(null);
+    if (!settings.narrator) return;
+    narratorRef.current.briefing(briefingContext(state, lang)).then(text => {
+      if (narrationRef.current === request) setBriefing(text);
     });
+  }, [settings.narrator, lang]);
 
-    // Draw Batteries
-    batteriesRef.current.forEach(b => {
-      if (!b.destroyed) {
-        ctx.fillStyle = '#4ade80';
-        ctx.beginPath();
-        ctx.moveTo(b.x - 20, b.y + 20);
-        ctx.lineTo(b.x, b.y - 10);
-        ctx.lineTo(b.x + 20, b.y + 20);
-        ctx.fill();
-        
-        // Ammo bar
-        const ammoPct = b.ammo / b.maxAmmo;
-        ctx.fillStyle = '#333';
-        ctx.fillRect(b.x - 15, b.y + 10, 30, 4);
-        ctx.fillStyle = ammoPct > 0.3 ? '#4ade80' : '#ef4444';
-        ctx.fillRect(b.x - 15, b.y + 10, 30 * ammoPct, 4);
-      } else {
-        ctx.fillStyle = '#333';
-        ctx.beginPath();
-        ctx.arc(b.x, b.y + 10, 15, 0, Math.PI, true);
-        ctx.fill();
-      }
+  const requestDebrief = useCallback((state: GameState, run: RunStats | null) => {
+    const request = ++narrationRef.current;
+    setBriefing(null);
+    setDebrief(null);
+    setDebriefPending(settings.narrator);
+    if (!settings.narrator) return;
+    narratorRef.current.debrief(debriefContext(state, lang, run)).then(text => {
+      if (narrationRef.current !== request) return;
+      setDebrief(text);
+      setDebriefPending(false);
     });
+  }, [settings.narrator, lang]);
+
+  useEffect(() => {
+    if (!briefing) return;
+    const timer = setTimeout(() => setBriefing(null), BRIEFING_MS);
+    return () => clearTimeout(timer);
+  }, [briefing]);
+
+  const update = useCallback(() => {
+    if (gameState !== 'playing') return;
+
+    const fires = firesRef.current.map(quantizeFire);
+    const launches = launchesRef.current;
+    const state = step(engineRef.current, { fires, launches }, FIXED_DT);
+    // Read before `trackRun` lets go of a finished run's tracker.
+    const tracker = trackerRef.current;
+    prevStateRef.current = engineRef.current;
+    engineRef.current = state;
+    firesRef.current = [];
+    launchesRef.current = [];
+    recorderRef.current?.recordStep(fires, state, launches);
+    if (lanRef.current) pendingEventsRef.current.push(...state.events);
+    trackRun(state);
+    audioRef.current.playEvents(state.events, state);
+    particlesRef.current.handleEvents(state.events, state);
+    syncHud(state);
+
+    if (state.status === 'won' || state.status === 'lost') {
+      setLastReplay(recorderRef.current?.finish() ?? null);
+      recorderRef.current = null;
+      clearSave();
+      setSavedGame(null);
+      if (state.options.daily && !state.options.practice) setDailyAttempt(finishDailyAttempt(dailyResult(state, tracker ? accuracy(tracker.stats) : 0)));
+      requestDebrief(state, tracker?.stats ?? null);
+    }
 
-    // Draw Cities
-    citiesRef.current.forEach(c => {
-      if (!c.destroyed) {
-        ctx.fillStyle = '#60a5fa';
-        ctx.fillRect(c.x - 15, c.y - 15, 30, 15);
-        ctx.fillStyle = '#1e40af';
-        ctx.fillRect(c.x - 10, c.y - 10, 5, 5);
-        ctx.fillRect(c.x + 5, c.y - 10, 5, 5);
-      } else {
-        ctx.fillStyle = '#444';
-        ctx.fillRect(c.x - 15, c.y - 5, 30, 5);
+    if (state.status === 'waveComplete') {
+      setBonus(state.bonus);
+      setGameState('waveComplete');
+    } else if (state.status === 'won') {
+      setBonus(state.bonus);
+      setGameState('won');
+      if (!settings.reducedMotion) {
+        confetti({
+          particleCount: 150,
+          spread: 70,
+          origin: { y: 0.6 }
+        });
       }
+    } else if (state.status === 'lost') {
+      setGameState('lost');
+    }
+  }, [gameState, syncHud, trackRun, requestDebrief, settings.reducedMotion]);
+
+  const predictAim = useCallback((state: GameState) => {
+    const enemy = nearestEnemy(state.enemies, cursorRef.current, AIM_ASSIST_RANGE);
+    const battery = state.batteries[settings.fireMode === 'explicit' && !state.options.batteryOwners
+      ? selectedBatteryRef.current
+      : selectBattery(state.batteries, cursorRef.current.x, state.options.batteryOwners, seatRef.current)];
+    if (!enemy || !battery || battery.destroyed) return null;
+
+    const at = predictIntercept(enemy, battery, interceptorSpeed(state.upgrades));
+    return at && { from: enemy, at };
+  }, [settings.fireMode]);
+
+  const draw = useCallback((ctx: CanvasRenderingContext2D, alpha: number) => {
+    const state = interpolate(prevStateRef.current, engineRef.current, alpha);
+    const scale = canvasScaleRef.current;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    const aiming = gameState === 'playing' || gameState === 'paused' || (gameState === 'remote' && state.status === 'playing');
+    const launchFrom = launchFromRef.current;
+    const defending = aiming && !(gameState === 'remote' && state.options.versus);
+    drawGame(ctx, state, {
+      palette,
+      reducedMotion: settings.reducedMotion,
+      crosshair: aiming ? cursorRef.current : null,
+      partnerCrosshair: aiming && localCoop ? cursor2Ref.current : null,
+      intercept: defending && settings.aimAssist ? predictAim(state) : null,
+      launchAim: launchFrom && {
+        from: launchFrom,
+        at: { x: cursorRef.current.x, y: groundY(terrainOf(state.options), cursorRef.current.x) },
+      },
+      particles: particlesRef.current,
     });
+    if (gameState === 'editor') drawEditor(ctx, draft, dragRef.current ?? hoverRef.current, palette);
+    if (import.meta.env.DEV && debugOpen) drawDebug(ctx, state);
+  }, [palette, settings.reducedMotion, settings.aimAssist, gameState, predictAim, debugOpen, draft, localCoop]);
 
+  const shareSnapshot = useCallback((time: number, peer: boolean) => {
+    const state = engineRef.current;
+    if (state === sentStateRef.current || time - snapshotAtRef.current < SNAPSHOT_MS) return;
+    // Events travel alongside: several steps pass between snapshots, and the state only holds the last one's.
+    if (peer) lanRef.current?.send({ type: 'snapshot', state: { ...state, events: [] }, events: pendingEventsRef.current });
+    sentStateRef.current = state;
+    snapshotAtRef.current = time;
+    pendingEventsRef.current = [];
   }, []);
 
   const loop = useCallback((time: number) => {
+    const frameTime = lastFrameRef.current === null ? 0 : Math.min((time - lastFrameRef.current) / 1000, MAX_FRAME_TIME);
+    lastFrameRef.current = time;
+
     const canvas = canvasRef.current;
     if (canvas) {
       const ctx = canvas.getContext('2d');
       if (ctx) {
-        update();
-        draw(ctx);
+        const debug = debugRef.current;
+        const updateStart = performance.now();
+        steerCrosshair(frameTime);
+        if (gameState === 'playing') {
+          const gameTime = debug.frozen ? 0 : frameTime * debug.timeScale;
+          accumulatorRef.current += gameTime;
+          while (accumulatorRef.current >= FIXED_DT && engineRef.current.status === 'playing') {
+            update();
+            accumulatorRef.current -= FIXED_DT;
+          }
+          particlesRef.current.update(gameTime, engineRef.current);
+        } else if (gameState === 'replay') {
+          updateReplay(frameTime);
+          if (replayPlaying) particlesRef.current.update(frameTime * replaySpeed, engineRef.current);
+        } else if (gameState === 'remote') {
+          particlesRef.current.update(frameTime, engineRef.current);
+        } else if (gameState === 'menu' && !settings.reducedMotion) {
+          updateAttract(frameTime);
+        }
+        if (lan?.role === 'host' && multiplayer && gameState !== 'menu' && gameState !== 'replay' && gameState !== 'editor') {
+          shareSnapshot(time, lan.peer);
+        }
+        const drawStart = performance.now();
+        draw(ctx, gameState === 'remote' ? Math.min(1, (time - snapshotAtRef.current) / SNAPSHOT_MS) : accumulatorRef.current / FIXED_DT);
+
+        if (import.meta.env.DEV && frameTime > 0) {
+          // Exponential moving averages keep the readout steady.
+          debug.fps += (1 / frameTime - debug.fps) * DEBUG_SMOOTHING;
+          debug.updateMs += (drawStart - updateStart - debug.updateMs) * DEBUG_SMOOTHING;
+          debug.drawMs += (performance.now() - drawStart - debug.drawMs) * DEBUG_SMOOTHING;
+        }
       }
     }
     requestRef.current = requestAnimationFrame(loop);
-  }, [update, draw]);
+  }, [gameState, update, updateReplay, updateAttract, draw, steerCrosshair, shareSnapshot, replayPlaying, replaySpeed, settings.reducedMotion, lan, multiplayer]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      canvasScaleRef.current = fitCanvas(canvas);
+    };
+    resize();
+    return watchCanvasSize(canvas, resize);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(document.fullscreenElement === gameAreaRef.current);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(loop);
@@ -405,220 +531,1178 @@ export default function App() {
     };
   }, [loop]);
 
+  // --- Saved game ---
+
+  const saveGame = useCallback(() => {
+    const state = engineRef.current;
+    if (state.status !== 'playing' && state.status !== 'waveComplete') return;
+    // A shared game can't be carried on alone, so it isn't kept.
+    if (state.options.batteryOwners || state.options.versus) return;
+    const save = createSave(state, recorderRef.current?.finish() ?? null, trackerRef.current?.stats ?? null);
+    storeSave(save);
+    setSavedGame(save);
+  }, []);
+
+  useEffect(() => {
+    try {
+      setSavedGame(loadSave());
+    } catch {
+      setSaveDiscarded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (gameState !== 'playing' && gameState !== 'paused' && gameState !== 'waveComplete') return;
+    // Playtests are throwaway runs and must not replace the player's real save.
+    if (playtesting) return;
+    saveGame();
+    const timer = setInterval(saveGame, AUTOSAVE_MS);
+    const handleVisibilityChange = () => {
+      if (document.hidden) saveGame();
+    };
+    window.addEventListener('beforeunload', saveGame);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', saveGame);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [gameState, saveGame, playtesting]);
+
+  // --- Pause ---
+
+  const togglePause = useCallback(() => {
+    setGameState(s => s === 'playing' ? 'paused' : s === 'paused' ? 'playing' : s);
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    setSettings(s => {
+      const next = { ...s, audio: { ...s.audio, muted: !s.audio.muted } };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (import.meta.env.DEV && e.key === '`') {
+        setDebugOpen(open => !open);
+        return;
+      }
+      if (settingsOpen || statsOpen || dailyOpen || multiplayerOpen) {
+        if (e.key === 'Escape') {
+          setSettingsOpen(false);
+          setStatsOpen(false);
+          setDailyOpen(false);
+          setMultiplayerOpen(false);
+        }
+        return;
+      }
+      if (!(e.target instanceof HTMLInputElement)) {
+        if (e.key === 'm' || e.key === 'M') {
+          toggleMute();
+          return;
+        }
+        if ((e.key === 'f' || e.key === 'F') && gameAreaRef.current && fullscreenSupported()) {
+          toggleFullscreen(gameAreaRef.current);
+          return;
+        }
+      }
+      // The guest can't pause the host's game; the leave button ends their part in it.
+      if (gameState === 'remote') return;
+      if (gameState === 'replay') {
+        if (e.key === 'Escape') exitReplay();
+        if (e.key === ' ') {
+          e.preventDefault();
+          toggleReplayPlaying();
+        }
+        return;
+      }
+      if (e.key === 'Escape' || e.key === 'p' || e.key === 'P') {
+        togglePause();
+        return;
+      }
+      if (gameState !== 'playing') return;
+
+      if (ARROW_KEYS[e.key]) {
+        e.preventDefault();
+        heldKeysRef.current.add(e.key);
+        return;
+      }
+      if (e.repeat) return;
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        if (localCoop) queueFire(cursor2Ref.current, undefined, 1);
+        else queueFire(cursorRef.current);
+        return;
+      }
+
+      const battery = BATTERY_KEYS[e.key.toLowerCase()];
+      if (battery === undefined || settings.fireMode !== 'explicit' || localCoop) return;
+      queueFire(cursorRef.current, battery);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      heldKeysRef.current.delete(e.key);
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) setGameState(s => s === 'playing' ? 'paused' : s);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [togglePause, toggleMute, queueFire, settingsOpen, statsOpen, dailyOpen, multiplayerOpen, gameState, settings.fireMode, localCoop]);
+
+  // --- Audio ---
+
+  useEffect(() => {
+    audioRef.current.setVolumes(settings.audio);
+  }, [settings.audio]);
+
+  useEffect(() => {
+    particlesRef.current.configure({ quality: settings.effects, shake: !settings.reducedMotion });
+  }, [settings.effects, settings.reducedMotion]);
+
+  useEffect(() => {
+    audioRef.current.setMusic(gameState === 'playing' || (gameState === 'replay' && replayPlaying) || (gameState === 'remote' && remoteStatus === 'playing' && !remotePaused));
+  }, [gameState, replayPlaying, remoteStatus, remotePaused]);
+
+  useEffect(() => {
+    // Browsers keep audio suspended until the page receives a user gesture.
+    const unlock = () => audioRef.current.unlock();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  // --- Language ---
+
+  const changeLanguage = async (next: Language) => {
+    saveLanguage(next);
+    setT(await loadTranslation(next));
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = lang;
+    document.documentElement.dir = languageInfo(lang).dir;
+  }, [lang]);
+
+  // --- Settings ---
+
+  const openSettings = () => {
+    setGameState(s => s === 'playing' ? 'paused' : s);
+    setSettingsOpen(true);
+  };
+
+  const updateSettings = (next: Settings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
   // --- Interaction ---
 
-  const handleCanvasClick = (e: React.MouseEvent | React.TouchEvent) => {
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (gameState === 'editor') {
+      const point = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+      if (!point) return;
+      const handle = dragRef.current;
+      if (handle) setDraft(current => moveHandle(current, handle, point));
+      else hoverRef.current = pickHandle(draft, point);
+      return;
+    }
+    // Touch contacts aim where they land; only hovering pointers steer the crosshair.
+    if (e.pointerType === 'touch' && !launchFromRef.current) return;
+    const point = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+    if (point) cursorRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (gameState === 'editor') {
+      const point = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+      dragRef.current = point && pickHandle(draft, point);
+      // Keep receiving moves while dragging past the canvas edge.
+      if (dragRef.current) e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+    if (gameState === 'remote') {
+      handleRemotePointerDown(e);
+      return;
+    }
     if (gameState !== 'playing') return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
 
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    // Every simultaneous pointer gets its own interceptor.
+    e.preventDefault();
+    const point = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+    if (!point) return;
 
-    const rect = canvas.getBoundingClientRect();
-    let clientX, clientY;
+    cursorRef.current = point;
+    queueFire(point);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    const from = launchFromRef.current;
+    launchFromRef.current = null;
+    if (from && gameState === 'remote') lanRef.current?.send({ type: 'launch', x: from.x, targetX: cursorRef.current.x });
+  };
 
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
+  // A LAN guest's input is sent to the host, which applies it on its next step.
+  const handleRemotePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (engineRef.current.status !== 'playing') return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.preventDefault();
+    const point = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+    if (!point) return;
+
+    cursorRef.current = point;
+    if (engineRef.current.options.versus) {
+      // Pressing picks where the rocket enters; releasing picks its target.
+      launchFromRef.current = { x: point.x, y: 0 };
+      e.currentTarget.setPointerCapture(e.pointerId);
     } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
+      lanRef.current?.send({ type: 'fire', x: point.x, y: point.y });
     }
+  };
 
-    const scaleX = CANVAS_WIDTH / rect.width;
-    const scaleY = CANVAS_HEIGHT / rect.height;
-    const x = (clientX - rect.left) * scaleX;
-    const y = (clientY - rect.top) * scaleY;
-
-    // Find nearest battery with ammo
-    let nearestBattery: Battery | null = null;
-    let minDist = Infinity;
-
-    batteriesRef.current.forEach(b => {
-      if (!b.destroyed && b.ammo > 0) {
-        const d = Math.abs(b.x - x);
-        if (d < minDist) {
-          minDist = d;
-          nearestBattery = b;
-        }
+  const beginGame = (seed: number, options: Partial<GameOptions>, playtest: boolean) => {
+    setPlaytesting(playtest);
+    setScore(0);
+    setWave(1);
+    setBonus(null);
+    setGameState('playing');
+    engineRef.current = createGame(seed, options);
+    selectedBatteryRef.current = middleBattery(engineRef.current);
+    attractRef.current = null;
+    particlesRef.current.reset();
+    recorderRef.current = createRecorder(seed, options);
+    // Hand-made levels can be made trivially easy, shared games aren't one player's doing,
+    // and practice runs replay a seed already played, so none of them count toward stats.
+    trackerRef.current = playtest || options.batteryOwners || options.versus || options.practice ? null : createRunTracker();
+    prevStateRef.current = engineRef.current;
+    accumulatorRef.current = 0;
+    firesRef.current = [];
+    launchesRef.current = [];
+    pendingEventsRef.current = [];
+    sentStateRef.current = null;
+    seatRef.current = 0;
+    cursor2Ref.current = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 };
+    requestBriefing(engineRef.current);
+  };
+
+  const discardSave = () => {
+    clearSave();
+    setSavedGame(null);
+    setSaveDiscarded(false);
+  };
+
+  const campaignOptions = (): Partial<GameOptions> => ({
+    guidance: settings.guidance,
+    ...difficultyOptions(settings.difficulty, settings.customDifficulty, settings.endless),
+  });
+
+  const startGame = () => {
+    discardSave();
+    beginGame(randomSeed(), campaignOptions(), false);
+  };
+
+  const playtest = () => {
+    if (draftError) return;
+    beginGame(randomSeed(), { guidance: settings.guidance, ...scenarioOptions(draft) }, true);
+  };
+
+  // --- Daily challenge ---
+
+  const openDaily = () => {
+    // Re-read so a panel opened after midnight shows the new day.
+    setDailyAttempt(loadDailyAttempt(dailyDate()));
+    setDailyOpen(true);
+  };
+
+  const playDaily = () => {
+    const date = dailyDate();
+    if (loadDailyAttempt(date)) return;
+    setDailyAttempt(startDailyAttempt(date));
+    setDailyOpen(false);
+    discardSave();
+    beginGame(dailySeed(date), dailyOptions(date), false);
+  };
+
+  const practiceDaily = (date: string) => {
+    setDailyOpen(false);
+    discardSave();
+    beginGame(dailySeed(date), { ...dailyOptions(date), practice: true }, false);
+  };
+
+  const continueGame = () => {
+    if (!savedGame) return;
+    setPlaytesting(false);
+    const { state, replay, stats } = savedGame;
+    engineRef.current = state;
+    prevStateRef.current = state;
+    attractRef.current = null;
+    recorderRef.current = replay && resumeRecorder(replay);
+    trackerRef.current = stats && createRunTracker(stats);
+    particlesRef.current.reset();
+    accumulatorRef.current = 0;
+    firesRef.current = [];
+    selectedBatteryRef.current = middleBattery(state);
+    syncHud(state);
+    setBonus(state.bonus);
+    // Resume paused so the player isn't dropped straight into incoming fire.
+    setGameState(state.status === 'waveComplete' ? 'waveComplete' : 'paused');
+  };
+
+  const quitToMenu = () => {
+    if (playtesting) {
+      openEditor();
+      return;
+    }
+    if (lan?.role === 'host' && multiplayer) lanRef.current?.send({ type: 'quit' });
+    saveGame();
+    setGameState('menu');
+  };
+
+  const restartGame = () => {
+    if (playtesting) playtest();
+    else if (lan?.role === 'host' && lan.peer && multiplayer) startLan();
+    else if (gameOptions.batteryOwners) startCoop();
+    else startGame();
+  };
+
+  // --- Multiplayer ---
+
+  const startCoop = () => {
+    setMultiplayerOpen(false);
+    beginGame(randomSeed(), { ...campaignOptions(), batteryOwners: settings.coopOwners }, false);
+  };
+
+  const startLan = () => {
+    if (lan?.role !== 'host' || !lan.peer) return;
+    const options: Partial<GameOptions> = {
+      ...campaignOptions(),
+      ...(lan.mode === 'versus' ? { versus: true } : { batteryOwners: settings.coopOwners }),
+    };
+    setMultiplayerOpen(false);
+    beginGame(randomSeed(), options, false);
+    lanRef.current?.send({ type: 'start', options });
+  };
+
+  const openLan = (status: LanStatus) => {
+    lanRef.current?.close();
+    setLanProblem(null);
+    setLan(status);
+    const connection = connectLan(message => lanHandlerRef.current(message), () => lanClosedRef.current());
+    lanRef.current = connection;
+    return connection;
+  };
+
+  const hostLan = (mode: LanMode) => openLan({ role: 'host', mode, room: null, peer: false }).host(mode);
+
+  // The room's mode is only known once the server confirms the join.
+  const joinLan = (room: string) => openLan({ role: 'guest', mode: 'coop', room: null, peer: false }).join(room);
+
+  const leaveLan = () => {
+    lanRef.current?.close();
+    lanRef.current = null;
+    setLan(null);
+    setLanProblem(null);
+    launchFromRef.current = null;
+    if (gameState === 'remote') setGameState('menu');
+  };
+
+  /** `data` has already been checked by `readPeerMessage`; this only decides whether it applies right now. */
+  const handlePeerMessage = (data: PeerMessage) => {
+    switch (data.type) {
+      case 'fire':
+        if (lan?.role !== 'host' || gameState !== 'playing' || !gameOptions.batteryOwners) return;
+        firesRef.current.push({ x: data.x, y: data.y, player: 1 });
+        return;
+      case 'launch':
+        if (lan?.role !== 'host' || gameState !== 'playing' || !gameOptions.versus) return;
+        launchesRef.current.push({ x: data.x, targetX: data.targetX });
+        return;
+      case 'start':
+        if (lan?.role !== 'guest') return;
+        // A stand-in until the first snapshot arrives.
+        engineRef.current = createGame(1, data.options);
+        prevStateRef.current = engineRef.current;
+        seatRef.current = data.options.batteryOwners ? 1 : 0;
+        attractRef.current = null;
+        recorderRef.current = null;
+        trackerRef.current = null;
+        replayPlayerRef.current = null;
+        launchFromRef.current = null;
+        particlesRef.current.reset();
+        setPlaytesting(false);
+        setMultiplayerOpen(false);
+        setRemoteStatus('playing');
+        setRemotePaused(false);
+        syncHud(engineRef.current);
+        setGameState('remote');
+        return;
+      case 'snapshot': {
+        if (gameState !== 'remote') return;
+        const { state, events } = data;
+        prevStateRef.current = engineRef.current;
+        engineRef.current = state;
+        snapshotAtRef.current = performance.now();
+        audioRef.current.playEvents(events, state);
+        particlesRef.current.handleEvents(events, state);
+        syncHud(state);
+        setBonus(state.bonus);
+        setRemoteStatus(state.status);
+        return;
       }
-    });
+      case 'paused':
+        if (gameState !== 'remote') return;
+        setRemotePaused(data.paused);
+        return;
+      case 'quit':
+        if (gameState !== 'remote') return;
+        setGameState('menu');
+        setMultiplayerOpen(true);
+    }
+  };
 
-    if (nearestBattery) {
-      (nearestBattery as Battery).ammo -= 1;
-      missilesRef.current.push({
-        id: Math.random().toString(36).substr(2, 9),
-        startX: (nearestBattery as Battery).x,
-        startY: (nearestBattery as Battery).y,
-        x: (nearestBattery as Battery).x,
-        y: (nearestBattery as Battery).y,
-        destX: x,
-        destY: y
-      });
+  const handleLanMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'hosted':
+        setLan(current => current && { ...current, room: message.room });
+        return;
+      case 'joined':
+        setLan(current => current && { ...current, room: message.room, mode: message.mode, peer: true });
+        return;
+      case 'peerJoined':
+        setLan(current => current && { ...current, peer: true });
+        return;
+      case 'peerLeft':
+        setLan(current => current && { ...current, peer: false });
+        return;
+      case 'error':
+        // A guest whose join failed has nothing left to stay connected for.
+        if (lan?.role === 'guest' && !lan.room) leaveLan();
+        setLanProblem(message.reason);
+        return;
+      case 'relay':
+        handlePeerMessage(message.data);
     }
   };
 
-  const startGame = () => {
-    setScore(0);
+  const handleLanClosed = () => {
+    lanRef.current = null;
+    setLan(null);
+    setLanProblem('disconnected');
+    launchFromRef.current = null;
+    if (gameState === 'remote') {
+      setGameState('menu');
+      setMultiplayerOpen(true);
+    }
+  };
+
+  useEffect(() => {
+    // Socket callbacks outlive renders, so they reach the latest handlers through refs.
+    lanHandlerRef.current = handleLanMessage;
+    lanClosedRef.current = handleLanClosed;
+  });
+
+  useEffect(() => () => lanRef.current?.close(), []);
+
+  // Snapshots stop while the host is paused, so the guest is told why the game froze.
+  useEffect(() => {
+    if (lan?.role !== 'host' || !lan.peer || !multiplayer) return;
+    if (gameState === 'playing' || gameState === 'paused') lanRef.current?.send({ type: 'paused', paused: gameState === 'paused' });
+  }, [gameState, lan, multiplayer]);
+
+  // --- Level editor ---
+
+  const openEditor = () => {
+    setPlaytesting(false);
+    attractRef.current = null;
+    recorderRef.current = null;
+    trackerRef.current = null;
+    particlesRef.current.reset();
+    dragRef.current = null;
+    setGameState('editor');
+  };
+
+  useEffect(() => {
+    if (gameState !== 'editor') return;
+    // A still preview of the draft, redrawn as it is edited; enemies only appear in a playtest.
+    engineRef.current = createGame(1, scenarioOptions(draft));
+    prevStateRef.current = engineRef.current;
+    syncHud(engineRef.current);
+    if (!draftError) storeDraft(draft);
+  }, [gameState, draft, draftError, syncHud]);
+
+
+  const buyUpgrade = (id: UpgradeId) => {
+    const next = purchaseUpgrade(engineRef.current, id);
+    if (next === engineRef.current) return;
+    engineRef.current = next;
+    prevStateRef.current = next;
+    recorderRef.current?.recordPurchase(id);
+    syncHud(next);
+  };
+
+  const continueToNextWave = () => {
+    engineRef.current = startNextWave(engineRef.current);
+    recorderRef.current?.recordNextWave();
+    requestBriefing(engineRef.current);
+    prevStateRef.current = engineRef.current;
+    accumulatorRef.current = 0;
+    firesRef.current = [];
     setGameState('playing');
-    rocketsRef.current = [];
-    missilesRef.current = [];
-    explosionsRef.current = [];
-    batteriesRef.current = [
-      { x: 50, y: CANVAS_HEIGHT - 20, ammo: 20, maxAmmo: 20, destroyed: false },
-      { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 20, ammo: 40, maxAmmo: 40, destroyed: false },
-      { x: CANVAS_WIDTH - 50, y: CANVAS_HEIGHT - 20, ammo: 20, maxAmmo: 20, destroyed: false },
-    ];
-    citiesRef.current = [
-      { x: 150, y: CANVAS_HEIGHT - 15, destroyed: false },
-      { x: 250, y: CANVAS_HEIGHT - 15, destroyed: false },
-      { x: 350, y: CANVAS_HEIGHT - 15, destroyed: false },
-      { x: 450, y: CANVAS_HEIGHT - 15, destroyed: false },
-      { x: 550, y: CANVAS_HEIGHT - 15, destroyed: false },
-      { x: 650, y: CANVAS_HEIGHT - 15, destroyed: false },
-    ];
   };
 
+  // --- Replays ---
+
+  const watchReplay = (player: ReplayPlayer) => {
+    replayPlayerRef.current = player;
+    engineRef.current = player.state;
+    prevStateRef.current = engineRef.current;
+    attractRef.current = null;
+    particlesRef.current.reset();
+    accumulatorRef.current = 0;
+    setReplayTick(0);
+    setReplayPlaying(true);
+    setReplayError(null);
+    setGameState('replay');
+  };
+
+  const seekReplay = (tick: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) return;
+    player.seek(tick);
+    particlesRef.current.reset();
+    engineRef.current = player.state;
+    prevStateRef.current = player.state;
+    accumulatorRef.current = 0;
+    setReplayTick(player.tick);
+    syncHud(player.state);
+  };
+
+  const toggleReplayPlaying = () => {
+    const player = replayPlayerRef.current;
+    if (player?.done) seekReplay(0);
+    setReplayPlaying(p => !p);
+  };
+
+  const exitReplay = () => {
+    replayPlayerRef.current = null;
+    setGameState('menu');
+  };
+
+  const exportReplay = () => {
+    if (!lastReplay) return;
+    const blob = new Blob([serializeReplay(lastReplay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `max-nova-replay-${lastReplay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const replay = parseReplay(await file.text());
+      // Built first so a file that parses but can't be played never becomes the last replay.
+      const player = createReplayPlayer(replay);
+      setLastReplay(replay);
+      watchReplay(player);
+    } catch (err) {
+      setReplayError(err instanceof ReplayError ? err.problem : 'corrupt');
+    }
+  };
+
+  const replayActions = lastReplay && (
+    <div className="flex justify-center gap-4 mt-4 text-sm">
+      <button 
+        onClick={() => watchReplay(createReplayPlayer(lastReplay))}
+        className="text-neutral-400 hover:text-white transition-colors flex items-center gap-2"
+      >
+        <Film className="w-4 h-4" />
+        {t.watchReplay}
+      </button>
+      <button 
+        onClick={exportReplay}
+        className="text-neutral-400 hover:text-white transition-colors flex items-center gap-2"
+      >
+        <Download className="w-4 h-4" />
+        {t.exportReplay}
+      </button>
+    </div>
+  );
+
+  // Hand-made levels aren't comparable with each other, shared games aren't one player's score,
+  // and practice runs have seen their rockets before, so only solo campaign runs are ranked.
+  const leaderboard = !engineRef.current.options.scenario && !engineRef.current.options.practice && !multiplayer && (
+    <LeaderboardPanel t={t} run={{ score, wave, citiesSaved, language: lang, difficulty: difficultyTag(engineRef.current.options) }} />
+  );
+
+  const finishedDaily = engineRef.current.options.daily && !engineRef.current.options.practice && dailyAttempt?.result?.date === engineRef.current.options.daily
+    ? dailyAttempt.result
+    : null;
+  const dailyShare = finishedDaily && (
+    <div className="mb-6">
+      <DailyShare t={t} result={finishedDaily} />
+    </div>
+  );
+
+  const playerScoreList = playerScores.length > 1 && (
+    <div className="flex justify-center gap-6 mb-6 font-mono text-sm">
+      {playerScores.map((points, i) => (
+        <span key={i}>
+          <span className="text-neutral-400 font-sans me-2">{format(t.playerScore, { player: i + 1 })}</span>
+          {points}
+        </span>
+      ))}
+    </div>
+  );
+
+  const backToLobby = multiplayer && (
+    <button 
+      onClick={() => {
+        quitToMenu();
+        setMultiplayerOpen(true);
+      }}
+      className="mt-4 text-sm text-neutral-400 hover:text-white transition-colors flex items-center gap-2 mx-auto"
+    >
+      <Users className="w-4 h-4" />
+      {t.multiplayer}
+    </button>
+  );
+
+  // While the host's game is running the overlay only shows for a pause.
+  const remoteTitle = remoteStatus === 'playing'
+    ? t.paused
+    : remoteStatus === 'waveComplete'
+      ? t.waveComplete
+      : remoteStatus === 'won'
+        ? gameOptions.versus ? t.defenseHeld : t.victory
+        : gameOptions.versus ? t.defenseBroken : t.gameOver;
+
+  const debriefPanel = (debrief || debriefPending) && (
+    <div className="mb-6 p-4 rounded-xl bg-white/5 border border-white/10 text-start">
+      <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest flex items-center gap-1.5">
+        <Radio className="w-3 h-3" />
+        {t.debriefTitle}
+      </h3>
+      <p className={`text-sm ${debrief ? 'text-neutral-200' : 'text-neutral-500 italic'}`}>{debrief ?? t.debriefPending}</p>
+    </div>
+  );
+
+  const backToEditor = playtesting && (
+    <button 
+      onClick={openEditor}
+      className="mt-4 text-sm text-neutral-400 hover:text-white transition-colors flex items-center gap-2 mx-auto"
+    >
+      <Pencil className="w-4 h-4" />
+      {t.backToEditor}
+    </button>
+  );
+
   return (
-    <div className="min-h-screen bg-neutral-950 text-white font-sans selection:bg-emerald-500/30 flex flex-col items-center justify-center p-4">
-      {/* Header */}
-      <div className="w-full max-w-4xl flex justify-between items-center mb-4 px-2">
-        <div className="flex items-center gap-3">
-          <div className="p-2 bg-emerald-500 rounded-lg shadow-lg shadow-emerald-500/20">
-            <Shield className="w-6 h-6 text-white" />
+    <MotionConfig reducedMotion={settings.reducedMotion ? 'always' : 'never'}>
+      <div className="min-h-screen bg-neutral-950 text-white font-sans selection:bg-emerald-500/30 flex flex-col items-center justify-center p-4">
+        {/* Header */}
+        <div className={`w-full ${PLAYFIELD_WIDTH} flex justify-between items-center mb-4 px-2`}>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-500 rounded-lg shadow-lg shadow-emerald-500/20">
+              <Shield className="w-6 h-6 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold tracking-tight">{t.title}</h1>
           </div>
-          <h1 className="text-2xl font-bold tracking-tight">{t.title}</h1>
-        </div>
         
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2 bg-neutral-900 px-4 py-2 rounded-full border border-white/5">
-            <Trophy className="w-4 h-4 text-yellow-500" />
-            <span className="font-mono text-lg font-bold">{score}</span>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 bg-neutral-900 px-4 py-2 rounded-full border border-white/5">
+              <Trophy className="w-4 h-4 text-yellow-500" />
+              <span className="font-mono text-lg font-bold">{score}</span>
+            </div>
+            <label
+              title={t.language}
+              className="flex items-center gap-1 p-2 hover:bg-white/5 rounded-full transition-colors cursor-pointer"
+            >
+              <Languages className="w-5 h-5 opacity-70" />
+              <select
+                value={lang}
+                onChange={e => changeLanguage(e.target.value as Language)}
+                aria-label={t.language}
+                className="bg-transparent text-sm outline-none cursor-pointer"
+              >
+                {LANGUAGES.map(({ code, name }) => (
+                  <option key={code} value={code} className="bg-neutral-900">{name}</option>
+                ))}
+              </select>
+            </label>
+            {fullscreenSupported() && (
+              <button
+                onClick={() => gameAreaRef.current && toggleFullscreen(gameAreaRef.current)}
+                title={fullscreen ? t.exitFullscreen : t.fullscreen}
+                className="p-2 hover:bg-white/5 rounded-full transition-colors"
+              >
+                {fullscreen ? <Minimize className="w-5 h-5 opacity-70" /> : <Maximize className="w-5 h-5 opacity-70" />}
+              </button>
+            )}
+            <button 
+              onClick={openSettings}
+              title={t.settings}
+              className="p-2 hover:bg-white/5 rounded-full transition-colors"
+            >
+              <SettingsIcon className="w-5 h-5 opacity-70" />
+            </button>
           </div>
-          <button 
-            onClick={() => setLang(l => l === 'en' ? 'zh' : 'en')}
-            className="p-2 hover:bg-white/5 rounded-full transition-colors"
-          >
-            <Languages className="w-5 h-5 opacity-70" />
-          </button>
         </div>
-      </div>
 
-      {/* Game Area */}
-      <div className="relative w-full max-w-4xl aspect-[4/3] bg-black rounded-2xl overflow-hidden shadow-2xl border border-white/10 group">
-        <canvas
-          ref={canvasRef}
-          width={CANVAS_WIDTH}
-          height={CANVAS_HEIGHT}
-          onMouseDown={handleCanvasClick}
-          onTouchStart={handleCanvasClick}
-          className="w-full h-full cursor-crosshair"
-        />
-
-        {/* HUD - Ammo Display */}
-        {gameState === 'playing' && (
-          <div className="absolute bottom-6 left-0 right-0 px-8 flex justify-between pointer-events-none">
-            <div className="flex flex-col items-center gap-1">
-              <span className="text-[10px] uppercase tracking-widest opacity-50">{t.left}</span>
-              <span className={`font-mono text-xl font-bold ${ammo.left === 0 ? 'text-red-500' : 'text-emerald-400'}`}>{ammo.left}</span>
-            </div>
-            <div className="flex flex-col items-center gap-1">
-              <span className="text-[10px] uppercase tracking-widest opacity-50">{t.center}</span>
-              <span className={`font-mono text-2xl font-bold ${ammo.center === 0 ? 'text-red-500' : 'text-emerald-400'}`}>{ammo.center}</span>
-            </div>
-            <div className="flex flex-col items-center gap-1">
-              <span className="text-[10px] uppercase tracking-widest opacity-50">{t.right}</span>
-              <span className={`font-mono text-xl font-bold ${ammo.right === 0 ? 'text-red-500' : 'text-emerald-400'}`}>{ammo.right}</span>
+        {/* Game Area */}
+        <div
+          ref={gameAreaRef}
+          className={`relative w-full ${PLAYFIELD_WIDTH} aspect-[4/3] bg-black rounded-2xl overflow-hidden shadow-2xl border border-white/10 group [&:fullscreen]:rounded-none [&:fullscreen]:border-0`}
+        >
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onContextMenu={e => e.preventDefault()}
+            className={`w-full h-full object-contain touch-none select-none ${gameState === 'editor' ? 'cursor-grab' : 'cursor-crosshair'}`}
+          />
+
+          {/* HUD - Wave Indicator */}
+          {(gameState === 'playing' || gameState === 'replay' || gameState === 'remote') && (
+            <div className="absolute top-4 start-6 pointer-events-none">
+              <span className="text-[10px] uppercase tracking-widest opacity-50">{t.wave}</span>
+              <span className="ms-2 font-mono text-lg font-bold text-emerald-400">{wave}</span>
+              <span className="ms-3 text-[10px] uppercase tracking-widest opacity-50">
+                {engineRef.current.options.daily
+                  ? `${t.dailyChallenge} · ${engineRef.current.options.daily}${engineRef.current.options.practice ? ` · ${t.practiceRun}` : ''}`
+                  : engineRef.current.options.scenario?.name ?? difficultyLabel(t, engineRef.current.options.difficulty)}
+                {engineRef.current.options.endless && !engineRef.current.options.scenario && ` · ${t.endless}`}
+              </span>
+              {playerScores.length > 1 && (
+                <span className="ms-3 font-mono text-sm">
+                  {playerScores.map((points, i) => `${format(t.playerShort, { player: i + 1 })} ${points}`).join(' · ')}
+                </span>
+              )}
+              {gameState === 'remote' && gameOptions.versus && <p className="text-xs text-neutral-400 mt-1">{t.versusHint}</p>}
+              {lan?.role === 'host' && multiplayer && !lan.peer && <p className="text-xs text-amber-400/80 mt-1">{t.partnerLeft}</p>}
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Overlays */}
-        <AnimatePresence>
-          {gameState !== 'playing' && (
-            <motion.div 
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 text-center"
+          <AchievementToasts t={t} toasts={toasts} />
+
+          {/* Wave briefing */}
+          <AnimatePresence>
+            {briefing && (gameState === 'playing' || gameState === 'paused') && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+                className="absolute bottom-24 inset-x-0 mx-auto w-fit max-w-md px-4 py-2 rounded-xl bg-neutral-900/80 border border-white/10 text-sm pointer-events-none"
+              >
+                <span className="text-[10px] uppercase tracking-widest text-emerald-400 flex items-center gap-1.5 mb-0.5">
+                  <Radio className="w-3 h-3" />
+                  {t.briefingTitle}
+                </span>
+                {briefing}
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {import.meta.env.DEV && debugOpen && (
+            <DebugPanel
+              read={() => readDebugSnapshot(engineRef.current, debugRef.current)}
+              onCommand={line => runDebugCommand(line, {
+                state: gameState === 'playing' || gameState === 'paused' ? engineRef.current : null,
+                controls: debugRef.current,
+                apply: next => {
+                  engineRef.current = next;
+                  prevStateRef.current = next;
+                  syncHud(next);
+                  // The change can't be reproduced from recorded inputs, so the replay would diverge.
+                  const recording = recorderRef.current !== null;
+                  recorderRef.current = null;
+                  trackerRef.current = null;
+                  return recording;
+                },
+                paused: gameState === 'paused',
+                step: update,
+              })}
+            />
+          )}
+
+          {/* HUD - Pause Button */}
+          {gameState === 'playing' && (
+            <button
+              onClick={togglePause}
+              title={t.pauseHint}
+              className="absolute top-3 end-4 p-2 bg-neutral-900/70 hover:bg-neutral-800 rounded-full border border-white/10 transition-colors"
+            >
+              <Pause className="w-4 h-4" />
+            </button>
+          )}
+
+          {gameState === 'remote' && (
+            <button
+              onClick={leaveLan}
+              title={t.leaveRoom}
+              className="absolute top-3 end-4 p-2 bg-neutral-900/70 hover:bg-neutral-800 rounded-full border border-white/10 transition-colors"
             >
+              <LogOut className="w-4 h-4" />
+            </button>
+          )}
+
+          {/* HUD - Ammo Display, kept left to right in every language to line up with the batteries */}
+          {(gameState === 'playing' || gameState === 'replay' || gameState === 'remote') && (
+            <div dir="ltr" className="absolute bottom-6 left-0 right-0 px-8 flex justify-between pointer-events-none">
+              {ammo.map((left, i) => (
+                <div
+                  key={i}
+                  className={`flex flex-col items-center gap-1 px-3 py-1 rounded-lg transition-colors ${nextBattery === i ? 'bg-emerald-400/10 ring-1 ring-emerald-400/60' : ''}`}
+                >
+                  <span className="text-[10px] uppercase tracking-widest opacity-50">
+                    {batteryLabel(t, i, ammo.length)}
+                    {gameOptions.batteryOwners
+                      ? <span className="ms-1 font-mono">{format(t.playerShort, { player: gameOptions.batteryOwners[i] + 1 })}</span>
+                      : settings.fireMode === 'explicit' && <span className="ms-1 font-mono">[{BATTERY_KEY_ROW[i]}]</span>}
+                  </span>
+                  <span className={`font-mono ${ammo.length === 3 && i === 1 ? 'text-2xl' : 'text-xl'} font-bold ${left === 0 ? 'text-red-500' : 'text-emerald-400'}`}>{left}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Replay Controls */}
+          {gameState === 'replay' && replayPlayerRef.current && (
+            <ReplayControls
+              t={t}
+              tick={replayTick}
+              ticks={replayPlayerRef.current.replay.ticks}
+              playing={replayPlaying}
+              speed={replaySpeed}
+              onTogglePlay={toggleReplayPlaying}
+              onSpeedChange={setReplaySpeed}
+              onSeek={seekReplay}
+              onExit={exitReplay}
+            />
+          )}
+
+          {/* Overlays */}
+          <AnimatePresence>
+            {gameState !== 'playing' && gameState !== 'replay' && gameState !== 'editor' && !(gameState === 'remote' && remoteStatus === 'playing' && !remotePaused) && (
               <motion.div 
-                initial={{ scale: 0.9, y: 20 }}
-                animate={{ scale: 1, y: 0 }}
-                className="max-w-md"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className={`absolute inset-0 ${settings.highContrast ? 'bg-black' : gameState === 'menu' ? 'bg-black/60 backdrop-blur-[2px]' : 'bg-black/80 backdrop-blur-sm'} flex items-center justify-center p-8 text-center`}
               >
-                {gameState === 'menu' && (
-                  <>
-                    <h2 className="text-4xl font-black mb-4 tracking-tighter uppercase italic">{t.title}</h2>
-                    <p className="text-neutral-400 mb-8 leading-relaxed">
-                      {t.instructions}<br/>
-                      <span className="text-emerald-500/80 text-sm">{t.winCondition}</span>
-                    </p>
-                    <button 
-                      onClick={startGame}
-                      className="group relative px-8 py-4 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-xl transition-all hover:scale-105 active:scale-95"
-                    >
-                      <span className="flex items-center gap-2">
-                        <Target className="w-5 h-5" />
-                        {t.start}
-                      </span>
-                    </button>
-                  </>
-                )}
-
-                {gameState === 'won' && (
-                  <>
-                    <div className="w-20 h-20 bg-yellow-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg shadow-yellow-500/20">
-                      <Trophy className="w-10 h-10 text-black" />
-                    </div>
-                    <h2 className="text-4xl font-black mb-2 text-yellow-500">{t.victory}</h2>
-                    <p className="text-neutral-400 mb-8">{t.score}: {score}</p>
-                    <button 
-                      onClick={startGame}
-                      className="px-8 py-4 bg-white text-black font-bold rounded-xl hover:bg-neutral-200 transition-all flex items-center gap-2 mx-auto"
-                    >
-                      <RefreshCw className="w-5 h-5" />
-                      {t.playAgain}
-                    </button>
-                  </>
-                )}
-
-                {gameState === 'lost' && (
-                  <>
-                    <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg shadow-red-500/20">
-                      <AlertTriangle className="w-10 h-10 text-black" />
-                    </div>
-                    <h2 className="text-4xl font-black mb-2 text-red-500">{t.gameOver}</h2>
-                    <p className="text-neutral-400 mb-8">{t.score}: {score}</p>
-                    <button 
-                      onClick={startGame}
-                      className="px-8 py-4 bg-red-500 text-white font-bold rounded-xl hover:bg-red-400 transition-all flex items-center gap-2 mx-auto"
-                    >
-                      <RefreshCw className="w-5 h-5" />
-                      {t.playAgain}
-                    </button>
-                  </>
-                )}
+                <motion.div 
+                  initial={{ scale: 0.9, y: 20 }}
+                  animate={{ scale: 1, y: 0 }}
+                  className="max-w-md max-h-full overflow-y-auto"
+                >
+                  {gameState === 'menu' && (
+                    <>
+                      <h2 className="text-4xl font-black mb-4 tracking-tighter uppercase italic">{t.title}</h2>
+                      <p className="text-neutral-400 mb-8 leading-relaxed">
+                        {t.instructions}<br/>
+                        <span className="text-emerald-500/80 text-sm">{winCondition}</span>
+                      </p>
+                      <DifficultyPicker t={t} settings={settings} onChange={updateSettings} />
+                      <div className="flex flex-wrap justify-center gap-3">
+                        {savedGame && (
+                          <button 
+                            onClick={continueGame}
+                            className="px-8 py-4 bg-white/10 hover:bg-white/20 font-bold rounded-xl transition-all hover:scale-105 active:scale-95 flex flex-col items-center"
+                          >
+                            <span className="flex items-center gap-2">
+                              <Play className="w-5 h-5" />
+                              {t.continueGame}
+                            </span>
+                            <span className="text-[10px] uppercase tracking-widest text-neutral-400 font-normal">
+                              {format(t.savedGameSummary, { wave: savedGame.state.wave, score: savedGame.state.score })}
+                            </span>
+                          </button>
+                        )}
+                        <button 
+                          onClick={startGame}
+                          className="group relative px-8 py-4 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-xl transition-all hover:scale-105 active:scale-95"
+                        >
+                          <span className="flex items-center gap-2">
+                            <Target className="w-5 h-5" />
+                            {savedGame ? t.newGame : t.start}
+                          </span>
+                        </button>
+                        <button 
+                          onClick={openDaily}
+                          className="px-8 py-4 bg-white/10 hover:bg-white/20 font-bold rounded-xl transition-all hover:scale-105 active:scale-95 flex flex-col items-center"
+                        >
+                          <span className="flex items-center gap-2">
+                            <CalendarDays className="w-5 h-5" />
+                            {t.dailyChallenge}
+                          </span>
+                          {dailyAttempt?.result && (
+                            <span className="text-[10px] uppercase tracking-widest text-neutral-400 font-normal">
+                              {format(t.dailyPlayed, { score: dailyAttempt.result.score })}
+                            </span>
+                          )}
+                        </button>
+                      </div>
+                      {saveDiscarded && <p className="text-amber-400/80 text-xs mt-3">{t.saveDiscarded}</p>}
+                      <div className="mt-6">
+                        <button 
+                          onClick={() => replayFileRef.current?.click()}
+                          className="text-sm text-neutral-400 hover:text-white transition-colors inline-flex items-center gap-2"
+                        >
+                          <Upload className="w-4 h-4" />
+                          {t.loadReplay}
+                        </button>
+                        <input ref={replayFileRef} type="file" accept="application/json,.json" onChange={importReplay} className="hidden" />
+                        {replayError && <p className="text-red-400 text-xs mt-2">{replayProblemMessage(t, replayError)}</p>}
+                        <button 
+                          onClick={() => setStatsOpen(true)}
+                          className="mt-3 text-sm text-neutral-400 hover:text-white transition-colors flex items-center gap-2 mx-auto"
+                        >
+                          <BarChart3 className="w-4 h-4" />
+                          {t.statistics}
+                        </button>
+                        <button 
+                          onClick={openEditor}
+                          className="mt-3 text-sm text-neutral-400 hover:text-white transition-colors flex items-center gap-2 mx-auto"
+                        >
+                          <Pencil className="w-4 h-4" />
+                          {t.levelEditor}
+                        </button>
+                        <button 
+                          onClick={() => setMultiplayerOpen(true)}
+                          className="mt-3 text-sm text-neutral-400 hover:text-white transition-colors flex items-center gap-2 mx-auto"
+                        >
+                          <Users className="w-4 h-4" />
+                          {lan?.room ? `${t.multiplayer} · ${lan.room}` : t.multiplayer}
+                        </button>
+                      </div>
+                    </>
+                  )}
+
+                  {gameState === 'paused' && (
+                    <>
+                      <h2 className="text-4xl font-black mb-8 tracking-tighter uppercase italic">{t.paused}</h2>
+                      <div className="flex flex-col gap-3 w-64 mx-auto">
+                        <button 
+                          onClick={togglePause}
+                          className="px-8 py-4 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                          <Play className="w-5 h-5" />
+                          {t.resume}
+                        </button>
+                        <button 
+                          onClick={restartGame}
+                          className="px-8 py-3 bg-white/10 hover:bg-white/20 font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                          <RefreshCw className="w-5 h-5" />
+                          {t.restart}
+                        </button>
+                        <button 
+                          onClick={quitToMenu}
+                          className="px-8 py-3 bg-white/10 hover:bg-white/20 font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                          {playtesting ? <Pencil className="w-5 h-5" /> : <Home className="w-5 h-5" />}
+                          {playtesting ? t.backToEditor : t.quitToMenu}
+                        </button>
+                      </div>
+                      <p className="text-neutral-500 text-xs mt-6">{t.pauseHint}</p>
+                    </>
+                  )}
+
+                  {gameState === 'waveComplete' && bonus && (
+                    <>
+                      <h2 className="text-4xl font-black mb-2 tracking-tighter uppercase italic text-emerald-400">{t.waveComplete}</h2>
+                      <p className="text-neutral-500 mb-6 uppercase tracking-widest text-xs">{t.wave} {bonus.wave}</p>
+                      <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-2 text-start font-mono mb-8">
+                        <span className="text-neutral-400">{t.citiesSaved}</span>
+                        <span>{bonus.cities}</span>
+                        <span className="text-emerald-400 text-end">+{bonus.cityPoints}</span>
+                        <span className="text-neutral-400">{t.ammoLeft}</span>
+                        <span>{bonus.ammo}</span>
+                        <span className="text-emerald-400 text-end">+{bonus.ammoPoints}</span>
+                        <span className="text-neutral-300 font-bold border-t border-white/10 pt-2">{t.bonus}</span>
+                        <span className="border-t border-white/10 pt-2" />
+                        <span className="text-yellow-500 font-bold text-end border-t border-white/10 pt-2">+{bonus.cityPoints + bonus.ammoPoints}</span>
+                      </div>
+                      <p className="text-neutral-400 mb-6">{t.score}: {score}</p>
+                      {playerScoreList}
+                      <UpgradeShop t={t} credits={credits} items={shopItems(engineRef.current)} onPurchase={buyUpgrade} />
+                      <button 
+                        onClick={continueToNextWave}
+                        className="px-8 py-4 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-xl transition-all hover:scale-105 active:scale-95 flex items-center gap-2 mx-auto"
+                      >
+                        {t.nextWave}
+                        <ChevronRight className="w-5 h-5" />
+                      </button>
+                    </>
+                  )}
+
+                  {gameState === 'won' && (
+                    <>
+                      <div className="w-20 h-20 bg-yellow-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg shadow-yellow-500/20">
+                        <Trophy className="w-10 h-10 text-black" />
+                      </div>
+                      <h2 className="text-4xl font-black mb-2 text-yellow-500">{t.victory}</h2>
+                      <p className="text-neutral-400 mb-6">{t.score}: {score}</p>
+                      {playerScoreList}
+                      {debriefPanel}
+                      {dailyShare}
+                      {leaderboard}
+                      <button 
+                        onClick={restartGame}
+                        className="px-8 py-4 bg-white text-black font-bold rounded-xl hover:bg-neutral-200 transition-all flex items-center gap-2 mx-auto"
+                      >
+                        <RefreshCw className="w-5 h-5" />
+                        {t.playAgain}
+                      </button>
+                      {replayActions}
+                      {backToLobby}
+                      {backToEditor}
+                    </>
+                  )}
+
+                  {gameState === 'lost' && (
+                    <>
+                      <div className="w-20 h-20 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-6 shadow-lg shadow-red-500/20">
+                        <AlertTriangle className="w-10 h-10 text-black" />
+                      </div>
+                      <h2 className="text-4xl font-black mb-2 text-red-500">{t.gameOver}</h2>
+                      <p className="text-neutral-400 mb-6">{t.score}: {score}</p>
+                      {playerScoreList}
+                      {debriefPanel}
+                      {dailyShare}
+                      {leaderboard}
+                      <button 
+                        onClick={restartGame}
+                        className="px-8 py-4 bg-red-500 text-white font-bold rounded-xl hover:bg-red-400 transition-all flex items-center gap-2 mx-auto"
+                      >
+                        <RefreshCw className="w-5 h-5" />
+                        {t.playAgain}
+                      </button>
+                      {replayActions}
+                      {backToLobby}
+                      {backToEditor}
+                    </>
+                  )}
+
+                  {gameState === 'remote' && (
+                    <>
+                      <h2 className={`text-4xl font-black mb-2 tracking-tighter uppercase italic ${remoteStatus === 'lost' ? 'text-red-500' : remoteStatus === 'won' ? 'text-yellow-500' : 'text-emerald-400'}`}>
+                        {remoteTitle}
+                      </h2>
+                      <p className="text-neutral-400 mb-6">{t.score}: {score}</p>
+                      {playerScoreList}
+                      <p className="text-neutral-500 text-sm mb-6">{remoteStatus === 'playing' ? t.hostPaused : t.waitingForHost}</p>
+                      <button 
+                        onClick={leaveLan}
+                        className="px-8 py-3 bg-white/10 hover:bg-white/20 font-bold rounded-xl transition-all flex items-center justify-center gap-2 mx-auto"
+                      >
+                        <LogOut className="w-5 h-5" />
+                        {t.leaveRoom}
+                      </button>
+                    </>
+                  )}
+                </motion.div>
               </motion.div>
-            </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+
+        <AnimatePresence>
+          {settingsOpen && (
+            <SettingsPanel
+              t={t}
+              settings={settings}
+              batteries={gameOptions.ammo.length}
+              onChange={updateSettings}
+              onClose={() => setSettingsOpen(false)}
+            />
           )}
         </AnimatePresence>
-      </div>
 
-      {/* Footer Info */}
-      <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl text-sm text-neutral-500">
-        <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
-          <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest">{lang === 'en' ? 'HOW TO PLAY' : '玩法说明'}</h3>
-          <p>{t.instructions}</p>
-        </div>
-        <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
-          <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest">{lang === 'en' ? 'WIN CONDITION' : '胜利条件'}</h3>
-          <p>{t.winCondition}</p>
-        </div>
-        <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
-          <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest">{lang === 'en' ? 'LOSS CONDITION' : '失败条件'}</h3>
-          <p>{t.lossCondition}</p>
-        </div>
+        <AnimatePresence>
+          {statsOpen && <StatsPanel t={t} record={stats} onClose={() => setStatsOpen(false)} />}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {dailyOpen && (
+            <DailyPanel
+              t={t}
+              date={dailyDate()}
+              attempt={dailyAttempt}
+              onPlay={playDaily}
+              onPractice={practiceDaily}
+              onClose={() => setDailyOpen(false)}
+            />
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {multiplayerOpen && (
+            <MultiplayerPanel
+              t={t}
+              owners={settings.coopOwners}
+              onOwnersChange={coopOwners => updateSettings({ ...settings, coopOwners })}
+              onStartCoop={startCoop}
+              lan={lan}
+              lanProblem={lanProblem}
+              onHost={hostLan}
+              onJoin={joinLan}
+              onStartLan={startLan}
+              onLeave={leaveLan}
+              onClose={() => setMultiplayerOpen(false)}
+            />
+          )}
+        </AnimatePresence>
+
+        {gameState === 'editor' && (
+          <ScenarioEditor
+            t={t}
+            draft={draft}
+            error={draftError}
+            onChange={setDraft}
+            onPlaytest={playtest}
+            onExit={() => setGameState('menu')}
+          />
+        )}
+
+        {/* Footer Info */}
+        {gameState !== 'editor' && (
+          <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl text-sm text-neutral-500">
+            <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
+              <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest">{t.howToPlay}</h3>
+              <p>{t.instructions}</p>
+            </div>
+            <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
+              <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest">{t.winConditionTitle}</h3>
+              <p>{winCondition}</p>
+            </div>
+            <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
+              <h3 className="text-neutral-300 font-bold mb-1 uppercase text-[10px] tracking-widest">{t.lossConditionTitle}</h3>
+              <p>{t.lossCondition}</p>
+            </div>
+          </div>
+        )}
       </div>
-    </div>
+    </MotionConfig>
   );
 }
@@ -0,0 +1,40 @@
+import { accuracy, addRun, type LifetimeStats, type RunStats } from './stats';
+
+export type AchievementId =
+  | 'firstBlood'
+  | 'chainReaction'
+  | 'veteran'
+  | 'sharpshooter'
+  | 'victory'
+  | 'flawless'
+  | 'survivor'
+  | 'centurion';
+
+interface Achievement {
+  id: AchievementId;
+  /** `total` is the lifetime record with the current run already folded in. */
+  earned(run: RunStats, total: LifetimeStats): boolean;
+}
+
+// Interceptors a run needs to fire before its accuracy counts.
+const SHARPSHOOTER_MIN_SHOTS = 40;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'firstBlood', earned: (_, total) => total.kills >= 1 },
+  { id: 'chainReaction', earned: run => run.bestMultiKill >= 5 },
+  { id: 'veteran', earned: run => run.wave >= 5 },
+  {
+    id: 'sharpshooter',
+    earned: run => run.shots.reduce((sum, n) => sum + n, 0) >= SHARPSHOOTER_MIN_SHOTS && accuracy(run) >= 0.75,
+  },
+  { id: 'victory', earned: run => run.won },
+  { id: 'flawless', earned: run => run.won && run.citiesLost === 0 },
+  { id: 'survivor', earned: run => run.wave >= 15 },
+  { id: 'centurion', earned: (_, total) => total.kills >= 500 },
+];
+
+/** Achievements the run has just earned that weren't unlocked before. */
+export function newlyUnlocked(unlocked: Record<string, number>, run: RunStats, lifetime: LifetimeStats): AchievementId[] {
+  const total = addRun(lifetime, run);
+  return ACHIEVEMENTS.filter(a => !(a.id in unlocked) && a.earned(run, total)).map(a => a.id);
+}
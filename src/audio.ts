@@ -0,0 +1,233 @@
+import { CANVAS_WIDTH } from './game/constants';
+import type { GameEvent, GameState } from './game/types';
+
+// --- Procedurally synthesised sound effects and music ---
+
+export interface AudioSettings {
+  /** Volumes in [0, 1]; effects and music are scaled by master. */
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  sfx: 0.8,
+  music: 0.4,
+  muted: false,
+};
+
+export type SoundEffect = 'launch' | 'whistle' | 'explosion' | 'cityDestroyed' | 'lowAmmo' | 'waveComplete';
+
+/** Warn when a battery drops to this many interceptors, and again when it runs dry. */
+const LOW_AMMO_WARNING = 5;
+/** The same effect retriggered sooner than this is dropped, so chain reactions don't clip. */
+const RETRIGGER_INTERVAL = 0.03;
+
+// Music scheduling: notes are queued slightly ahead of time on the audio clock.
+const MUSIC_TEMPO = 112;
+const MUSIC_LOOKAHEAD = 0.15;
+const MUSIC_TIMER_MS = 50;
+// A minor bass line, one MIDI note per eighth; 0 rests.
+const BASS_LINE = [45, 0, 45, 52, 48, 0, 47, 43, 45, 0, 45, 52, 50, 48, 47, 40];
+
+export interface AudioEngine {
+  /** Creates or resumes the audio context; browsers only allow this from a user gesture. */
+  unlock(): void;
+  setVolumes(settings: AudioSettings): void;
+  /** Plays an effect panned by its x position on the playfield, or centred when omitted. */
+  play(effect: SoundEffect, x?: number): void;
+  /** Plays the sounds for the events of one simulation step. */
+  playEvents(events: GameEvent[], state: GameState): void;
+  setMusic(playing: boolean): void;
+}
+
+function midiToFrequency(note: number) {
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+function panFor(x: number | undefined) {
+  if (x === undefined) return 0;
+  return Math.max(-1, Math.min(1, (x / CANVAS_WIDTH) * 2 - 1));
+}
+
+export function createAudioEngine(): AudioEngine {
+  let ctx: AudioContext | null = null;
+  let master: GainNode;
+  let sfx: GainNode;
+  let music: GainNode;
+  let noise: AudioBuffer;
+  let volumes = DEFAULT_AUDIO_SETTINGS;
+  const lastPlayed = new Map<SoundEffect, number>();
+
+  let musicTimer: ReturnType<typeof setInterval> | null = null;
+  let nextNoteTime = 0;
+  let noteIndex = 0;
+
+  const applyVolumes = () => {
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    master.gain.setTargetAtTime(volumes.muted ? 0 : volumes.master, now, 0.02);
+    sfx.gain.setTargetAtTime(volumes.sfx, now, 0.02);
+    music.gain.setTargetAtTime(volumes.music, now, 0.02);
+  };
+
+  const init = () => {
+    if (typeof AudioContext === 'undefined') return;
+    ctx = new AudioContext();
+    master = ctx.createGain();
+    master.connect(ctx.destination);
+    sfx = ctx.createGain();
+    sfx.connect(master);
+    music = ctx.createGain();
+    music.connect(master);
+
+    noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    applyVolumes();
+  };
+
+  /** Gain envelope into a stereo panner feeding the effects bus. */
+  const voice = (ac: AudioContext, x: number | undefined, peak: number, attack: number, release: number, start = ac.currentTime) => {
+    const gain = ac.createGain();
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(peak, start + attack);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + attack + release);
+    const panner = ac.createStereoPanner();
+    panner.pan.value = panFor(x);
+    gain.connect(panner).connect(sfx);
+    return gain;
+  };
+
+  const tone = (ac: AudioContext, type: OscillatorType, from: number, to: number, start: number, duration: number, out: AudioNode) => {
+    const osc = ac.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    osc.connect(out);
+    osc.start(start);
+    osc.stop(start + duration);
+  };
+
+  const burst = (ac: AudioContext, cutoffFrom: number, cutoffTo: number, duration: number, out: AudioNode) => {
+    const now = ac.currentTime;
+    const source = ac.createBufferSource();
+    source.buffer = noise;
+    const filter = ac.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(cutoffFrom, now);
+    filter.frequency.exponentialRampToValueAtTime(cutoffTo, now + duration);
+    source.connect(filter).connect(out);
+    source.start(now);
+    source.stop(now + duration);
+  };
+
+  const synthesize = (ac: AudioContext, effect: SoundEffect, x: number | undefined) => {
+    const now = ac.currentTime;
+    switch (effect) {
+      case 'launch':
+        tone(ac, 'sawtooth', 700, 160, now, 0.22, voice(ac, x, 0.12, 0.005, 0.22));
+        break;
+      case 'whistle':
+        tone(ac, 'sine', 1900, 500, now, 1.4, voice(ac, x, 0.04, 0.3, 1.1));
+        break;
+      case 'explosion':
+        burst(ac, 1400, 80, 0.9, voice(ac, x, 0.5, 0.005, 0.85));
+        break;
+      case 'cityDestroyed':
+        burst(ac, 600, 40, 1.8, voice(ac, x, 0.7, 0.01, 1.7));
+        tone(ac, 'triangle', 220, 35, now, 1.6, voice(ac, x, 0.3, 0.01, 1.5));
+        break;
+      case 'lowAmmo':
+        [now, now + 0.14].forEach(start => {
+          tone(ac, 'square', 880, 870, start, 0.09, voice(ac, x, 0.08, 0.005, 0.09, start));
+        });
+        break;
+      case 'waveComplete':
+        [72, 76, 79, 84].forEach((note, i) => {
+          const gain = ac.createGain();
+          const start = now + i * 0.12;
+          gain.gain.setValueAtTime(0.0001, start);
+          gain.gain.exponentialRampToValueAtTime(0.15, start + 0.01);
+          gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.35);
+          gain.connect(sfx);
+          tone(ac, 'triangle', midiToFrequency(note), midiToFrequency(note), start, 0.35, gain);
+        });
+        break;
+    }
+  };
+
+  const play = (effect: SoundEffect, x?: number) => {
+    if (!ctx || ctx.state !== 'running' || volumes.muted) return;
+    const last = lastPlayed.get(effect) ?? -Infinity;
+    if (ctx.currentTime - last < RETRIGGER_INTERVAL) return;
+    lastPlayed.set(effect, ctx.currentTime);
+    synthesize(ctx, effect, x);
+  };
+
+  const scheduleMusic = () => {
+    if (!ctx) return;
+    const eighth = 60 / MUSIC_TEMPO / 2;
+    while (nextNoteTime < ctx.currentTime + MUSIC_LOOKAHEAD) {
+      const note = BASS_LINE[noteIndex % BASS_LINE.length];
+      if (note) {
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0.0001, nextNoteTime);
+        gain.gain.exponentialRampToValueAtTime(0.2, nextNoteTime + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, nextNoteTime + eighth * 0.9);
+        gain.connect(music);
+        tone(ctx, 'square', midiToFrequency(note), midiToFrequency(note), nextNoteTime, eighth * 0.9, gain);
+      }
+      noteIndex += 1;
+      nextNoteTime += eighth;
+    }
+  };
+
+  return {
+    unlock() {
+      if (!ctx) init();
+      if (ctx?.state === 'suspended') ctx.resume();
+    },
+    setVolumes(settings) {
+      volumes = settings;
+      applyVolumes();
+    },
+    play,
+    playEvents(events, state) {
+      events.forEach(event => {
+        switch (event.type) {
+          case 'launch': {
+            const battery = state.batteries[event.battery];
+            play('launch', battery.x);
+            if (battery.ammo === LOW_AMMO_WARNING || battery.ammo === 0) play('lowAmmo', battery.x);
+            break;
+          }
+          case 'incoming':
+            if (event.kind !== 'bomber' && event.kind !== 'satellite') play('whistle', event.x);
+            break;
+          case 'intercept':
+          case 'impact':
+            play('explosion', event.x);
+            break;
+          case 'cityDestroyed':
+            play('cityDestroyed', state.cities[event.city].x);
+            break;
+          case 'waveComplete':
+            play('waveComplete');
+            break;
+        }
+      });
+    },
+    setMusic(playing) {
+      if (playing && !musicTimer && ctx) {
+        nextNoteTime = ctx.currentTime + 0.05;
+        musicTimer = setInterval(scheduleMusic, MUSIC_TIMER_MS);
+      } else if (!playing && musicTimer) {
+        clearInterval(musicTimer);
+        musicTimer = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { AnimatePresence, motion } from 'motion/react';
+import { Medal } from 'lucide-react';
+import type { AchievementId } from '../achievements';
+import type { Translation } from '../i18n';
+import { achievementText } from './StatsPanel';
+
+export interface AchievementToast {
+  key: number;
+  id: AchievementId;
+}
+
+interface AchievementToastsProps {
+  t: Translation;
+  toasts: AchievementToast[];
+}
+
+export default function AchievementToasts({ t, toasts }: AchievementToastsProps) {
+  return (
+    <div className="absolute top-14 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 pointer-events-none z-10">
+      <AnimatePresence>
+        {toasts.map(({ key, id }) => (
+          <motion.div
+            key={key}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="flex items-center gap-3 px-4 py-2 bg-neutral-900/90 border border-yellow-500/40 rounded-xl shadow-lg"
+          >
+            <Medal className="w-5 h-5 text-yellow-500" />
+            <div className="text-start">
+              <span className="block text-[10px] uppercase tracking-widest text-yellow-500/80">{t.achievementUnlocked}</span>
+              <span className="block font-bold text-sm">{achievementText(t, id).title}</span>
+            </div>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
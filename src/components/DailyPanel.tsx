@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { CalendarDays, Check, Copy, Play, X } from 'lucide-react';
+import { cityGrid, decodeResult, ResultCodeError, shareText, type DailyAttempt, type DailyResult, type ResultCodeProblem } from '../daily';
+import { format, type Translation } from '../i18n';
+
+interface DailyPanelProps {
+  t: Translation;
+  /** Today's challenge date. */
+  date: string;
+  attempt: DailyAttempt | null;
+  onPlay: () => void;
+  /** Plays a challenge's seed and rules without it counting as that day's attempt. */
+  onPractice: (date: string) => void;
+  onClose: () => void;
+}
+
+function resultCodeProblemMessage(t: Translation, problem: ResultCodeProblem) {
+  return {
+    missing: t.resultCodeMissing,
+    altered: t.resultCodeAltered,
+    corrupt: t.resultCodeCorrupt,
+  }[problem];
+}
+
+function ResultRows({ t, result }: { t: Translation; result: DailyResult }) {
+  const rows: [string, string | number][] = [
+    [t.score, result.score],
+    [t.wave, result.wave],
+    [t.accuracy, `${Math.round(result.accuracy * 100)}%`],
+    [t.citiesSaved, `${result.cities.filter(Boolean).length} / ${result.cities.length}`],
+  ];
+  return (
+    <div className="grid grid-cols-[1fr_auto] gap-x-6 gap-y-1 text-sm font-mono">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <span className="text-neutral-400 font-sans">{label}</span>
+          <span className="text-end">{value}</span>
+        </div>
+      ))}
+      <span className="col-span-2 text-lg tracking-widest">{cityGrid(result.cities)}</span>
+    </div>
+  );
+}
+
+/** The share text for a finished challenge with a button to copy it. */
+export function DailyShare({ t, result }: { t: Translation; result: DailyResult }) {
+  const [copied, setCopied] = useState(false);
+  const text = shareText(result, `${t.title} · ${t.dailyChallenge}`);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be refused; the text stays selectable.
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-start">
+      <pre dir="ltr" className="p-3 rounded-lg bg-black/40 border border-white/10 text-xs whitespace-pre-wrap break-all select-all">{text}</pre>
+      <button onClick={copy} className="self-end px-3 py-1.5 rounded-lg text-xs font-bold bg-white/10 hover:bg-white/20 transition-colors flex items-center gap-1.5">
+        {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+        {copied ? t.copied : t.copyResult}
+      </button>
+    </div>
+  );
+}
+
+export default function DailyPanel({ t, date, attempt, onPlay, onPractice, onClose }: DailyPanelProps) {
+  const [pasted, setPasted] = useState('');
+  let verified: DailyResult | null = null;
+  let verifyError: ResultCodeProblem | null = null;
+  if (pasted.trim()) {
+    try {
+      verified = decodeResult(pasted);
+    } catch (err) {
+      if (!(err instanceof ResultCodeError)) throw err;
+      verifyError = err.problem;
+    }
+  }
+  // Practising today's seed before playing it would make the one attempt meaningless.
+  const practiceLocked = verified !== null && (verified.date > date || (verified.date === date && !attempt));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-2xl p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-emerald-400" />
+            {t.dailyChallenge}
+          </h2>
+          <button onClick={onClose} title={t.close} className="p-2 hover:bg-white/5 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section>
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{date}</h3>
+          {!attempt && (
+            <>
+              <p className="text-sm text-neutral-400 mb-4">{t.dailyIntro}</p>
+              <button
+                onClick={onPlay}
+                className="w-full px-6 py-3 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                <Play className="w-5 h-5" />
+                {t.dailyPlay}
+              </button>
+            </>
+          )}
+          {attempt && !attempt.result && <p className="text-sm text-neutral-400">{t.dailyUnfinished}</p>}
+          {attempt?.result && (
+            <div className="flex flex-col gap-4">
+              <ResultRows t={t} result={attempt.result} />
+              <DailyShare t={t} result={attempt.result} />
+            </div>
+          )}
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.verifyResult}</h3>
+          <textarea
+            value={pasted}
+            onChange={e => setPasted(e.target.value)}
+            placeholder={t.verifyPlaceholder}
+            rows={3}
+            dir="ltr"
+            className="w-full p-2 rounded-lg bg-black/40 border border-white/10 text-xs font-mono resize-none"
+          />
+          {verifyError && <p className="text-red-400 text-xs mt-2">{resultCodeProblemMessage(t, verifyError)}</p>}
+          {verified && (
+            <div className="mt-3 flex flex-col gap-3">
+              <p className="text-emerald-400 text-xs flex items-center gap-1.5">
+                <Check className="w-4 h-4" />
+                {format(t.verifyValid, { date: verified.date })}
+              </p>
+              <ResultRows t={t} result={verified} />
+              <button
+                onClick={() => verified && onPractice(verified.date)}
+                disabled={practiceLocked}
+                className="px-4 py-2 rounded-lg text-sm font-bold bg-white/10 hover:bg-white/20 transition-colors flex items-center justify-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Play className="w-4 h-4" />
+                {t.practiceChallenge}
+              </button>
+              {practiceLocked && <p className="text-xs text-neutral-500">{t.practiceLocked}</p>}
+            </div>
+          )}
+        </section>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { DebugSnapshot } from '../debug';
+
+const REFRESH_MS = 250;
+const MAX_LOG_LINES = 40;
+
+interface DebugPanelProps {
+  read: () => DebugSnapshot;
+  /** Runs one console line and returns the text to echo back. */
+  onCommand: (line: string) => string;
+}
+
+export default function DebugPanel({ read, onCommand }: DebugPanelProps) {
+  const [snapshot, setSnapshot] = useState(read);
+  const [log, setLog] = useState<string[]>(['type help for commands']);
+  const [line, setLine] = useState('');
+  const logRef = useRef<HTMLDivElement>(null);
+  // The parent passes a fresh reader on every render; poll whichever is newest.
+  const readRef = useRef(read);
+  readRef.current = read;
+
+  useEffect(() => {
+    const timer = setInterval(() => setSnapshot(readRef.current()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    logRef.current?.scrollTo(0, logRef.current.scrollHeight);
+  }, [log]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!line.trim()) return;
+    const output = onCommand(line);
+    setLog(l => [...l, `> ${line}`, output].slice(-MAX_LOG_LINES));
+    setLine('');
+  };
+
+  return (
+    <div className="absolute top-12 left-3 w-72 text-left font-mono text-[10px] leading-tight text-neutral-200 bg-black/75 border border-white/10 rounded-lg p-2 z-40">
+      <div className="grid grid-cols-2 gap-x-3">
+        <span>fps {snapshot.fps.toFixed(0)}</span>
+        <span>tick {snapshot.tick}</span>
+        <span>update {snapshot.updateMs.toFixed(2)}ms</span>
+        <span>draw {snapshot.drawMs.toFixed(2)}ms</span>
+        <span>enemies {snapshot.counts.enemies}</span>
+        <span>missiles {snapshot.counts.missiles}</span>
+        <span>explosions {snapshot.counts.explosions}</span>
+        <span>
+          {snapshot.frozen ? 'frozen' : `speed ${snapshot.timeScale}×`}
+          {snapshot.invincible && ' · god'}
+        </span>
+      </div>
+      <div ref={logRef} className="mt-2 max-h-28 overflow-y-auto whitespace-pre-wrap text-neutral-400">
+        {log.map((entry, i) => <div key={i}>{entry}</div>)}
+      </div>
+      <form onSubmit={handleSubmit}>
+        <input
+          value={line}
+          onChange={e => setLine(e.target.value)}
+          onKeyDown={e => e.stopPropagation()}
+          spellCheck={false}
+          className="mt-1 w-full bg-neutral-900 border border-white/10 rounded px-1 py-0.5 focus:outline-none focus:border-emerald-500"
+        />
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Fragment } from 'react';
+import { CUSTOM_LIMITS, DIFFICULTIES, type DifficultyParams } from '../game/difficulty';
+import type { Difficulty } from '../game/types';
+import type { Settings } from '../settings';
+import type { Translation } from '../i18n';
+
+interface DifficultyPickerProps {
+  t: Translation;
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+export function difficultyLabel(t: Translation, difficulty: Difficulty) {
+  return {
+    easy: t.difficultyEasy,
+    normal: t.difficultyNormal,
+    hard: t.difficultyHard,
+    custom: t.difficultyCustom,
+  }[difficulty];
+}
+
+function Slider({ label, value, limits, format, onChange }: {
+  label: string;
+  value: number;
+  limits: readonly [number, number, number];
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  const [min, max, step] = limits;
+  return (
+    <label className="grid grid-cols-[7rem_1fr_3rem] items-center gap-3 text-xs">
+      <span className="text-neutral-400">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="accent-emerald-500"
+      />
+      <span className="font-mono text-end">{format ? format(value) : value}</span>
+    </label>
+  );
+}
+
+export default function DifficultyPicker({ t, settings, onChange }: DifficultyPickerProps) {
+  const custom = settings.customDifficulty;
+  const setCustom = (patch: Partial<DifficultyParams>) =>
+    onChange({ ...settings, customDifficulty: { ...custom, ...patch } });
+  const setAmmo = (index: number, value: number) =>
+    setCustom({ ammo: custom.ammo.map((a, i) => i === index ? value : a) });
+  const multiplier = (value: number) => `${value.toFixed(2)}×`;
+
+  return (
+    <div className="w-full max-w-sm mx-auto mb-8 text-start">
+      <h3 className="text-neutral-300 font-bold uppercase text-[10px] tracking-widest mb-2">{t.difficulty}</h3>
+      <div className="grid grid-cols-4 gap-1 p-1 rounded-xl bg-neutral-900/60 border border-white/10">
+        {DIFFICULTIES.map(difficulty => (
+          <button
+            key={difficulty}
+            onClick={() => onChange({ ...settings, difficulty })}
+            className={`py-1.5 rounded-lg text-sm font-bold transition-colors ${settings.difficulty === difficulty ? 'bg-emerald-500 text-black' : 'text-neutral-400 hover:bg-white/5'}`}
+          >
+            {difficultyLabel(t, difficulty)}
+          </button>
+        ))}
+      </div>
+
+      {settings.difficulty === 'custom' && (
+        <div className="mt-3 p-3 flex flex-col gap-2 rounded-xl border border-white/10 bg-neutral-900/60">
+          <Slider label={t.customEnemySpeed} value={custom.enemySpeed} limits={CUSTOM_LIMITS.enemySpeed} format={multiplier} onChange={enemySpeed => setCustom({ enemySpeed })} />
+          <Slider label={t.customSpawnRate} value={custom.spawnRate} limits={CUSTOM_LIMITS.spawnRate} format={multiplier} onChange={spawnRate => setCustom({ spawnRate })} />
+          {[t.left, t.center, t.right].map((slot, i) => (
+            <Fragment key={slot}>
+              <Slider label={`${t.customAmmo} · ${slot}`} value={custom.ammo[i]} limits={CUSTOM_LIMITS.ammo} onChange={value => setAmmo(i, value)} />
+            </Fragment>
+          ))}
+          <Slider label={t.customWaves} value={custom.waves} limits={CUSTOM_LIMITS.waves} onChange={waves => setCustom({ waves })} />
+        </div>
+      )}
+
+      <label className="mt-3 flex items-center justify-between gap-3 text-sm cursor-pointer">
+        <span>
+          <span className="font-bold">{t.endless}</span>
+          <span className="block text-xs text-neutral-400">{t.endlessHint}</span>
+        </span>
+        <input
+          type="checkbox"
+          checked={settings.endless}
+          onChange={e => onChange({ ...settings, endless: e.target.checked })}
+          className="w-5 h-5 accent-emerald-500"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Send, WifiOff } from 'lucide-react';
+import { fetchTopScores, submitScore, type LeaderboardResult, type ScoreSubmission } from '../leaderboard';
+import type { Translation } from '../i18n';
+
+const NAME_KEY = 'max-nova-defense:player-name';
+const TOP_N = 8;
+
+function loadName() {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function saveName(name: string) {
+  try {
+    localStorage.setItem(NAME_KEY, name);
+  } catch {
+    // Storage may be unavailable; the name then has to be typed again next time.
+  }
+}
+
+interface LeaderboardPanelProps {
+  t: Translation;
+  run: Omit<ScoreSubmission, 'name'>;
+}
+
+export default function LeaderboardPanel({ t, run }: LeaderboardPanelProps) {
+  const [name, setName] = useState(loadName);
+  const [board, setBoard] = useState<LeaderboardResult | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTopScores(run.difficulty, TOP_N).then(result => {
+      if (!cancelled) setBoard(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [run.difficulty]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || submitted || busy) return;
+
+    setBusy(true);
+    saveName(trimmed);
+    try {
+      setBoard(await submitScore({ ...run, name: trimmed }, TOP_N));
+      setSubmitted(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-sm mx-auto mb-6 text-start">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-neutral-300 font-bold uppercase text-[10px] tracking-widest">{t.leaderboard}</h3>
+        {board?.source === 'local' && (
+          <span className="flex items-center gap-1 text-[10px] text-amber-400/80" title={t.leaderboardOfflineHint}>
+            <WifiOff className="w-3 h-3" />
+            {t.leaderboardOffline}
+          </span>
+        )}
+      </div>
+
+      {!submitted && (
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-3">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={24}
+            placeholder={t.playerName}
+            className="flex-1 min-w-0 px-3 py-2 bg-neutral-900 border border-white/10 rounded-lg text-sm focus:outline-none focus:border-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || busy}
+            className="px-3 py-2 bg-emerald-500 hover:bg-emerald-400 disabled:opacity-40 text-black font-bold rounded-lg text-sm flex items-center gap-1"
+          >
+            <Send className="w-4 h-4" />
+            {t.submitScore}
+          </button>
+        </form>
+      )}
+
+      <ol className="max-h-40 overflow-y-auto rounded-lg border border-white/5 bg-neutral-900/60 divide-y divide-white/5 text-sm font-mono">
+        {board === null && <li className="px-3 py-2 text-neutral-500">…</li>}
+        {board?.entries.length === 0 && <li className="px-3 py-2 text-neutral-500">{t.leaderboardEmpty}</li>}
+        {board?.entries.map((entry, i) => (
+          <li key={`${entry.createdAt}-${i}`} className="flex items-center gap-3 px-3 py-1.5">
+            <span className="w-5 text-neutral-500">{i + 1}</span>
+            <span className="flex-1 truncate text-neutral-200 font-sans">{entry.name}</span>
+            <span className="text-neutral-500 text-xs">{t.wave} {entry.wave}</span>
+            <span className="text-yellow-500 font-bold">{entry.score}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { LogIn, LogOut, Play, Swords, Users, X } from 'lucide-react';
+import type { LanProblem, LanStatus } from '../net/lan';
+import { ROOM_CODE_LENGTH, type LanMode } from '../net/protocol';
+import { format, type Translation } from '../i18n';
+
+interface MultiplayerPanelProps {
+  t: Translation;
+  /** Player index owning each battery in co-op, left to right. */
+  owners: number[];
+  onOwnersChange: (owners: number[]) => void;
+  onStartCoop: () => void;
+  lan: LanStatus | null;
+  lanProblem: LanProblem | null;
+  onHost: (mode: LanMode) => void;
+  onJoin: (room: string) => void;
+  onStartLan: () => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const BATTERY_SLOTS = ['left', 'center', 'right'] as const;
+
+const buttonClass = 'px-4 py-2 rounded-lg text-sm font-bold transition-colors flex items-center justify-center gap-2 disabled:opacity-40 disabled:pointer-events-none';
+
+export function lanProblemMessage(t: Translation, problem: LanProblem) {
+  return {
+    roomNotFound: t.lanRoomNotFound,
+    roomFull: t.lanRoomFull,
+    ownRoom: t.lanOwnRoom,
+    badMessage: t.lanBadMessage,
+    disconnected: t.lanDisconnected,
+  }[problem];
+}
+
+export default function MultiplayerPanel({
+  t, owners, onOwnersChange, onStartCoop, lan, lanProblem, onHost, onJoin, onStartLan, onLeave, onClose,
+}: MultiplayerPanelProps) {
+  const [code, setCode] = useState('');
+  // Each player needs a battery of their own, and a co-op game has exactly two players.
+  const ownersValid = owners.includes(0) && owners.includes(1);
+  // The host decides who owns what; guests and versus games have nothing to assign.
+  const assigning = !lan || (lan.role === 'host' && lan.mode === 'coop');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-2xl p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Users className="w-5 h-5 text-emerald-400" />
+            {t.multiplayer}
+          </h2>
+          <button onClick={onClose} title={t.close} className="p-2 hover:bg-white/5 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {assigning && (
+          <section>
+            <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.batteryOwners}</h3>
+            <div dir="ltr" className="grid grid-cols-3 gap-2">
+              {BATTERY_SLOTS.map((slot, i) => (
+                <button
+                  key={slot}
+                  onClick={() => onOwnersChange(owners.map((owner, j) => (j === i ? 1 - owner : owner)))}
+                  className={`p-2 rounded-xl border text-sm transition-colors ${owners[i] === 0 ? 'border-emerald-500 bg-emerald-500/10' : 'border-amber-500 bg-amber-500/10'}`}
+                >
+                  <span className="block text-[10px] uppercase tracking-widest text-neutral-400">{t[slot]}</span>
+                  <span className="block font-bold font-mono">{format(t.playerShort, { player: owners[i] + 1 })}</span>
+                </button>
+              ))}
+            </div>
+            {!ownersValid && <p className="text-amber-400/80 text-xs mt-2">{t.coopNeedsBoth}</p>}
+          </section>
+        )}
+
+        {!lan && (
+          <section className="mt-6">
+            <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.localCoop}</h3>
+            <p className="text-sm text-neutral-400 mb-3">{t.localCoopHint}</p>
+            <button onClick={onStartCoop} disabled={!ownersValid} className={`${buttonClass} w-full bg-emerald-500 hover:bg-emerald-400 text-black`}>
+              <Play className="w-4 h-4" />
+              {t.startCoop}
+            </button>
+          </section>
+        )}
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.lanGame}</h3>
+          {!lan && (
+            <>
+              <p className="text-sm text-neutral-400 mb-3">{t.lanHint}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => onHost('coop')} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+                  <Users className="w-4 h-4" />
+                  {t.hostCoop}
+                </button>
+                <button onClick={() => onHost('versus')} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+                  <Swords className="w-4 h-4" />
+                  {t.hostVersus}
+                </button>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <input
+                  value={code}
+                  maxLength={ROOM_CODE_LENGTH}
+                  onChange={e => setCode(e.target.value.toUpperCase())}
+                  placeholder={t.roomCode}
+                  aria-label={t.roomCode}
+                  dir="ltr"
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-black/40 border border-white/10 font-mono tracking-[0.3em] uppercase"
+                />
+                <button onClick={() => onJoin(code)} disabled={code.length !== ROOM_CODE_LENGTH} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+                  <LogIn className="w-4 h-4" />
+                  {t.joinRoom}
+                </button>
+              </div>
+            </>
+          )}
+
+          {lan && (
+            <div className="flex flex-col gap-3">
+              {lan.room && <p className="text-sm text-neutral-400">{lan.mode === 'versus' ? t.lanModeVersus : t.lanModeCoop}</p>}
+              <div className="flex items-baseline justify-between">
+                <span className="text-xs uppercase tracking-widest text-neutral-400">{t.roomCode}</span>
+                <span dir="ltr" className="font-mono text-3xl font-black tracking-[0.3em]">{lan.room ?? '····'}</span>
+              </div>
+              <p className={`text-sm ${lan.peer ? 'text-emerald-400' : 'text-neutral-400'}`}>
+                {lan.role === 'guest' ? t.waitingForHost : lan.peer ? t.playerJoined : t.waitingForPlayer}
+              </p>
+              <div className="flex gap-2">
+                {lan.role === 'host' && (
+                  <button onClick={onStartLan} disabled={!lan.peer || (assigning && !ownersValid)} className={`${buttonClass} flex-1 bg-emerald-500 hover:bg-emerald-400 text-black`}>
+                    <Play className="w-4 h-4" />
+                    {t.startLanGame}
+                  </button>
+                )}
+                <button onClick={onLeave} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+                  <LogOut className="w-4 h-4" />
+                  {t.leaveRoom}
+                </button>
+              </div>
+            </div>
+          )}
+          {lanProblem && <p className="text-red-400 text-xs mt-3">{lanProblemMessage(t, lanProblem)}</p>}
+        </section>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Pause, Play, X } from 'lucide-react';
+import { FIXED_DT } from '../game/constants';
+import type { ReplayProblem } from '../game/replay';
+import type { Translation } from '../i18n';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export function replayProblemMessage(t: Translation, problem: ReplayProblem) {
+  return {
+    notJson: t.replayNotJson,
+    notReplay: t.replayNotReplay,
+    unsupportedVersion: t.replayUnsupportedVersion,
+    corrupt: t.replayCorrupt,
+  }[problem];
+}
+
+interface ReplayControlsProps {
+  t: Translation;
+  tick: number;
+  ticks: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+function formatTime(ticks: number) {
+  const seconds = Math.floor(ticks * FIXED_DT);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function ReplayControls({ t, tick, ticks, playing, speed, onTogglePlay, onSpeedChange, onSeek, onExit }: ReplayControlsProps) {
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 w-[min(90%,36rem)] flex items-center gap-3 px-4 py-2 bg-neutral-900/85 backdrop-blur rounded-full border border-white/10 text-sm">
+      <span className="text-[10px] uppercase tracking-widest text-emerald-400 font-bold">{t.replay}</span>
+      <button onClick={onTogglePlay} title={playing ? t.pause : t.play} className="p-1 hover:bg-white/10 rounded-full">
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={ticks}
+        value={tick}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="flex-1 accent-emerald-500"
+      />
+      <span className="font-mono text-xs text-neutral-400 whitespace-nowrap">{formatTime(tick)} / {formatTime(ticks)}</span>
+      <select
+        value={speed}
+        onChange={e => onSpeedChange(Number(e.target.value))}
+        className="bg-neutral-800 rounded px-1 py-0.5 font-mono text-xs"
+      >
+        {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <button onClick={onExit} title={t.exitReplay} className="p-1 hover:bg-white/10 rounded-full">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useRef, useState } from 'react';
+import { Download, FilePlus, Minus, Play, Plus, Trash2, Upload, X } from 'lucide-react';
+import { addBattery, addCity, resizeTerrain } from '../game/editor';
+import { isOneOf } from '../game/json';
+import { createClassicScenario, ENEMY_KINDS, FLAT_TERRAIN, parseScenario, SCENARIO_LIMITS, ScenarioError, serializeScenario } from '../game/scenario';
+import type { Scenario } from '../game/types';
+import { CAMPAIGN, type WaveDefinition } from '../game/waves';
+import { batteryLabel, enemyLabel, format, type Translation } from '../i18n';
+
+interface ScenarioEditorProps {
+  t: Translation;
+  draft: Scenario;
+  /** Why the draft can't be played yet, or null when it is valid. */
+  error: ScenarioError | null;
+  onChange: (draft: Scenario) => void;
+  onPlaytest: () => void;
+  onExit: () => void;
+}
+
+export function scenarioProblemMessage(t: Translation, { problem, values }: ScenarioError) {
+  const template = {
+    notJson: t.scenarioErrorNotJson,
+    notScenario: t.scenarioErrorNotScenario,
+    unsupportedVersion: t.scenarioErrorUnsupportedVersion,
+    empty: t.scenarioErrorEmpty,
+    noName: t.scenarioErrorNoName,
+    terrainPoints: t.scenarioErrorTerrainPoints,
+    terrainHeight: t.scenarioErrorTerrainHeight,
+    batteryCount: t.scenarioErrorBatteryCount,
+    batteryPosition: t.scenarioErrorBatteryPosition,
+    batteryAmmo: t.scenarioErrorBatteryAmmo,
+    batteryOrder: t.scenarioErrorBatteryOrder,
+    cityCount: t.scenarioErrorCityCount,
+    cityPosition: t.scenarioErrorCityPosition,
+    waveCount: t.scenarioErrorWaveCount,
+    waveEnemies: t.scenarioErrorWaveEnemies,
+    waveSpeed: t.scenarioErrorWaveSpeed,
+    waveSpawnInterval: t.scenarioErrorWaveSpawnInterval,
+    waveMix: t.scenarioErrorWaveMix,
+    waveKind: t.scenarioErrorWaveKind,
+    waveWeight: t.scenarioErrorWaveWeight,
+    waveNoEnemies: t.scenarioErrorWaveNoEnemies,
+    winScore: t.scenarioErrorWinScore,
+    winType: t.scenarioErrorWinType,
+  }[problem];
+  // Known enemy kinds read better by their translated name; unknown ones are quoted as written.
+  const { kind } = values;
+  return format(template, isOneOf(kind, ENEMY_KINDS) ? { ...values, kind: enemyLabel(t, kind) } : values);
+}
+
+function NumberInput({ value, limits, step = 1, label, onChange }: {
+  value: number;
+  limits: readonly [number, number];
+  step?: number;
+  label: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <input
+      type="number"
+      min={limits[0]}
+      max={limits[1]}
+      step={step}
+      value={value}
+      aria-label={label}
+      onChange={e => {
+        const next = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(next)) onChange(next);
+      }}
+      className="w-16 px-1.5 py-1 rounded bg-neutral-800 border border-white/10 font-mono text-xs text-end"
+    />
+  );
+}
+
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-bold transition-colors flex items-center gap-1.5';
+
+export default function ScenarioEditor({ t, draft, error, onChange, onPlaytest, onExit }: ScenarioEditorProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<ScenarioError | null>(null);
+
+  const patch = (changes: Partial<Scenario>) => onChange({ ...draft, ...changes });
+  const setWave = (index: number, changes: Partial<WaveDefinition>) =>
+    patch({ waves: draft.waves.map((w, i) => (i === index ? { ...w, ...changes } : w)) });
+  const setAmmo = (index: number, ammo: number) =>
+    patch({ batteries: draft.batteries.map((b, i) => (i === index ? { ...b, ammo } : b)) });
+
+  const exportScenario = () => {
+    const blob = new Blob([serializeScenario(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'scenario'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importScenario = async (e: { target: HTMLInputElement }) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseScenario(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      if (!(err instanceof ScenarioError)) throw err;
+      setImportError(err);
+    }
+  };
+
+  const shownError = importError ?? error;
+  const [batteryMin, batteryMax] = SCENARIO_LIMITS.batteries;
+  const [cityMin, cityMax] = SCENARIO_LIMITS.cities;
+  const [waveMin, waveMax] = SCENARIO_LIMITS.waves;
+
+  return (
+    <div className="mt-4 w-full max-w-4xl flex flex-col gap-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-lg font-bold me-auto">{t.levelEditor}</h2>
+        <button onClick={onPlaytest} disabled={error !== null} className={`${buttonClass} bg-emerald-500 hover:bg-emerald-400 text-black disabled:opacity-40 disabled:pointer-events-none`}>
+          <Play className="w-4 h-4" />
+          {t.playtest}
+        </button>
+        <button onClick={() => fileRef.current?.click()} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+          <Upload className="w-4 h-4" />
+          {t.importScenario}
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={importScenario} className="hidden" />
+        <button onClick={exportScenario} disabled={error !== null} className={`${buttonClass} bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:pointer-events-none`}>
+          <Download className="w-4 h-4" />
+          {t.exportScenario}
+        </button>
+        <button onClick={() => onChange(createClassicScenario())} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+          <FilePlus className="w-4 h-4" />
+          {t.newScenario}
+        </button>
+        <button onClick={onExit} title={t.close} className="p-1.5 hover:bg-white/10 rounded-full">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-neutral-500 text-xs -mt-2">{t.editorHint}</p>
+      {shownError && <p className="text-red-400 text-xs">{scenarioProblemMessage(t, shownError)}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5 flex flex-col gap-3">
+          <label className="flex items-center gap-3">
+            <span className="text-neutral-400 w-28">{t.scenarioName}</span>
+            <input
+              value={draft.name}
+              maxLength={SCENARIO_LIMITS.nameLength}
+              onChange={e => patch({ name: e.target.value })}
+              className="flex-1 px-2 py-1 rounded bg-neutral-800 border border-white/10"
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            <span className="text-neutral-400 w-28">{t.winBy}</span>
+            <select
+              value={draft.win.type}
+              aria-label={t.winBy}
+              onChange={e => patch({ win: e.target.value === 'score' ? { type: 'score', score: 5000 } : { type: 'waves' } })}
+              className="px-2 py-1 rounded bg-neutral-800 border border-white/10"
+            >
+              <option value="waves">{t.winByWaves}</option>
+              <option value="score">{t.winByScore}</option>
+            </select>
+            {draft.win.type === 'score' && (
+              <NumberInput value={draft.win.score} limits={[1, 1_000_000]} step={100} label={t.winByScore} onChange={score => patch({ win: { type: 'score', score } })} />
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-neutral-400 w-28">{t.terrainPoints}</span>
+            <NumberInput
+              value={draft.terrain.length}
+              limits={SCENARIO_LIMITS.terrainPoints}
+              label={t.terrainPoints}
+              onChange={points => patch(resizeTerrain(draft, Math.round(Math.max(SCENARIO_LIMITS.terrainPoints[0], Math.min(SCENARIO_LIMITS.terrainPoints[1], points)))))}
+            />
+            <button onClick={() => patch({ terrain: [...FLAT_TERRAIN] })} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+              {t.flattenTerrain}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5 flex flex-col gap-3">
+          <div className="flex items-center gap-3">
+            <span className="text-neutral-400 w-28">{t.cities}</span>
+            <button onClick={() => patch({ cities: draft.cities.slice(0, -1) })} disabled={draft.cities.length <= cityMin} title={t.removeCity} className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40">
+              <Minus className="w-3 h-3" />
+            </button>
+            <span className="font-mono w-6 text-center">{draft.cities.length}</span>
+            <button onClick={() => onChange(addCity(draft))} disabled={draft.cities.length >= cityMax} title={t.addCity} className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40">
+              <Plus className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-neutral-400 w-28">{t.batteries}</span>
+            <button onClick={() => patch({ batteries: draft.batteries.slice(0, -1) })} disabled={draft.batteries.length <= batteryMin} title={t.removeBattery} className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40">
+              <Minus className="w-3 h-3" />
+            </button>
+            <span className="font-mono w-6 text-center">{draft.batteries.length}</span>
+            <button onClick={() => onChange(addBattery(draft))} disabled={draft.batteries.length >= batteryMax} title={t.addBattery} className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40">
+              <Plus className="w-3 h-3" />
+            </button>
+          </div>
+          {draft.batteries.map((battery, i) => {
+            const label = `${t.customAmmo} · ${batteryLabel(t, i, draft.batteries.length)}`;
+            return (
+              <label key={i} className="flex items-center gap-3">
+                <span className="text-neutral-400 w-28">{label}</span>
+                <NumberInput value={battery.ammo} limits={SCENARIO_LIMITS.ammo} label={label} onChange={ammo => setAmmo(i, ammo)} />
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-neutral-900/50 p-4 rounded-xl border border-white/5">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="text-neutral-300 font-bold uppercase text-[10px] tracking-widest me-auto">{t.editorWaves}</h3>
+          <button onClick={() => patch({ waves: [...draft.waves, { ...draft.waves[draft.waves.length - 1] }] })} disabled={draft.waves.length >= waveMax} className={`${buttonClass} bg-white/10 hover:bg-white/20 disabled:opacity-40`}>
+            <Plus className="w-3 h-3" />
+            {t.addWave}
+          </button>
+          <button onClick={() => patch({ waves: CAMPAIGN.map(w => ({ ...w, mix: { ...w.mix } })) })} className={`${buttonClass} bg-white/10 hover:bg-white/20`}>
+            {t.campaignWaves}
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-neutral-400 text-[10px] uppercase tracking-wider">
+              <tr>
+                <th className="text-start font-normal pb-1">#</th>
+                <th className="font-normal pb-1">{t.waveEnemies}</th>
+                <th className="font-normal pb-1">{t.waveSpeedMin}</th>
+                <th className="font-normal pb-1">{t.waveSpeedMax}</th>
+                <th className="font-normal pb-1">{t.waveInterval}</th>
+                {ENEMY_KINDS.map(kind => <th key={kind} className="font-normal pb-1">{enemyLabel(t, kind)}</th>)}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.waves.map((wave, i) => (
+                <tr key={i}>
+                  <td className="font-mono text-neutral-500 pe-2">{i + 1}</td>
+                  <td className="p-0.5"><NumberInput value={wave.enemies} limits={SCENARIO_LIMITS.enemies} label={t.waveEnemies} onChange={enemies => setWave(i, { enemies })} /></td>
+                  <td className="p-0.5"><NumberInput value={wave.speedMin} limits={SCENARIO_LIMITS.speed} label={t.waveSpeedMin} onChange={speedMin => setWave(i, { speedMin })} /></td>
+                  <td className="p-0.5"><NumberInput value={wave.speedMax} limits={SCENARIO_LIMITS.speed} label={t.waveSpeedMax} onChange={speedMax => setWave(i, { speedMax })} /></td>
+                  <td className="p-0.5"><NumberInput value={wave.spawnInterval} limits={SCENARIO_LIMITS.spawnInterval} step={0.1} label={t.waveInterval} onChange={spawnInterval => setWave(i, { spawnInterval })} /></td>
+                  {ENEMY_KINDS.map(kind => (
+                    <td key={kind} className="p-0.5">
+                      <NumberInput
+                        value={wave.mix[kind] ?? 0}
+                        limits={[0, 10]}
+                        label={enemyLabel(t, kind)}
+                        onChange={weight => setWave(i, { mix: { ...wave.mix, [kind]: weight } })}
+                      />
+                    </td>
+                  ))}
+                  <td className="p-0.5">
+                    <button onClick={() => patch({ waves: draft.waves.filter((_, j) => j !== i) })} disabled={draft.waves.length <= waveMin} title={t.removeWave} className="p-1 rounded hover:bg-white/10 disabled:opacity-40">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { Fragment } from 'react';
+import { motion } from 'motion/react';
+import { X } from 'lucide-react';
+import type { AudioSettings } from '../audio';
+import { batteryControls } from '../controls';
+import type { PaletteName } from '../game/palettes';
+import type { EffectsQuality } from '../game/particles';
+import type { GuidanceMode } from '../game/types';
+import type { FireMode, Settings } from '../settings';
+import { format, type Translation } from '../i18n';
+
+interface SettingsPanelProps {
+  t: Translation;
+  settings: Settings;
+  /** Batteries in the current layout, for the explicit fire mode hint. */
+  batteries: number;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+function OptionButton({ active, label, hint, onClick }: { active: boolean; label: string; hint: string; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`w-full text-start p-3 rounded-xl border transition-colors ${active ? 'border-emerald-500 bg-emerald-500/10' : 'border-white/10 hover:bg-white/5'}`}
+    >
+      <span className={`block font-bold ${active ? 'text-emerald-400' : ''}`}>{label}</span>
+      <span className="block text-xs text-neutral-400 mt-1">{hint}</span>
+    </button>
+  );
+}
+
+function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center justify-between p-3 rounded-xl border border-white/10 cursor-pointer hover:bg-white/5">
+      <span className="font-bold">{label}</span>
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={e => onChange(e.target.checked)}
+        className="w-5 h-5 accent-emerald-500"
+      />
+    </label>
+  );
+}
+
+function VolumeSlider({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="grid grid-cols-[6rem_1fr_2.5rem] items-center gap-3 text-sm">
+      <span className="text-neutral-400">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="accent-emerald-500"
+      />
+      <span className="font-mono text-xs text-end">{Math.round(value * 100)}</span>
+    </label>
+  );
+}
+
+export default function SettingsPanel({ t, settings, batteries, onChange, onClose }: SettingsPanelProps) {
+  const setFireMode = (fireMode: FireMode) => onChange({ ...settings, fireMode });
+  const setPalette = (palette: PaletteName) => onChange({ ...settings, palette });
+  const setAudio = (patch: Partial<AudioSettings>) => onChange({ ...settings, audio: { ...settings.audio, ...patch } });
+  const effectsLevels: { level: EffectsQuality; label: string }[] = [
+    { level: 'off', label: t.effectsOff },
+    { level: 'low', label: t.effectsLow },
+    { level: 'high', label: t.effectsHigh },
+  ];
+  const guidanceModes: { mode: GuidanceMode; label: string; hint: string }[] = [
+    { mode: 'ballistic', label: t.guidanceBallistic, hint: t.guidanceBallisticHint },
+    { mode: 'lockOn', label: t.guidanceLockOn, hint: t.guidanceLockOnHint },
+    { mode: 'heatSeeking', label: t.guidanceHeatSeeking, hint: t.guidanceHeatSeekingHint },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-2xl p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold">{t.settings}</h2>
+          <button onClick={onClose} title={t.close} className="p-2 hover:bg-white/5 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section>
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.fireMode}</h3>
+          <div className="flex flex-col gap-2">
+            <OptionButton
+              active={settings.fireMode === 'nearest'}
+              label={t.fireModeNearest}
+              hint={t.fireModeNearestHint}
+              onClick={() => setFireMode('nearest')}
+            />
+            <OptionButton
+              active={settings.fireMode === 'explicit'}
+              label={t.fireModeExplicit}
+              hint={format(t.fireModeExplicitHint, batteryControls(batteries))}
+              onClick={() => setFireMode('explicit')}
+            />
+          </div>
+          <p className="text-xs text-neutral-500 mt-2">{t.controlsHint}</p>
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.guidance}</h3>
+          <div className="flex flex-col gap-2">
+            {guidanceModes.map(({ mode, label, hint }) => (
+              <Fragment key={mode}>
+                <OptionButton
+                  active={settings.guidance === mode}
+                  label={label}
+                  hint={hint}
+                  onClick={() => onChange({ ...settings, guidance: mode })}
+                />
+              </Fragment>
+            ))}
+            <Toggle
+              label={t.aimAssist}
+              checked={settings.aimAssist}
+              onChange={aimAssist => onChange({ ...settings, aimAssist })}
+            />
+            <Toggle
+              label={t.narrator}
+              checked={settings.narrator}
+              onChange={narrator => onChange({ ...settings, narrator })}
+            />
+          </div>
+          <p className="text-xs text-neutral-500 mt-2">{t.guidanceHint}</p>
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.effects}</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {effectsLevels.map(({ level, label }) => (
+              <button
+                key={level}
+                onClick={() => onChange({ ...settings, effects: level })}
+                className={`p-3 rounded-xl border font-bold transition-colors ${settings.effects === level ? 'border-emerald-500 bg-emerald-500/10 text-emerald-400' : 'border-white/10 hover:bg-white/5'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-neutral-500 mt-2">{t.effectsHint}</p>
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.audio}</h3>
+          <div className="flex flex-col gap-2">
+            <VolumeSlider label={t.masterVolume} value={settings.audio.master} onChange={master => setAudio({ master })} />
+            <VolumeSlider label={t.sfxVolume} value={settings.audio.sfx} onChange={sfx => setAudio({ sfx })} />
+            <VolumeSlider label={t.musicVolume} value={settings.audio.music} onChange={music => setAudio({ music })} />
+            <Toggle label={t.mute} checked={settings.audio.muted} onChange={muted => setAudio({ muted })} />
+          </div>
+          <p className="text-xs text-neutral-500 mt-2">{t.muteHint}</p>
+        </section>
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.accessibility}</h3>
+          <div className="flex flex-col gap-2">
+            <span className="text-xs text-neutral-400">{t.palette}</span>
+            <div className="grid grid-cols-2 gap-2">
+              {(['default', 'colorblind'] as const).map(name => (
+                <button
+                  key={name}
+                  onClick={() => setPalette(name)}
+                  className={`p-3 rounded-xl border font-bold transition-colors ${settings.palette === name ? 'border-emerald-500 bg-emerald-500/10 text-emerald-400' : 'border-white/10 hover:bg-white/5'}`}
+                >
+                  {name === 'default' ? t.paletteDefault : t.paletteColorblind}
+                </button>
+              ))}
+            </div>
+            <Toggle
+              label={t.highContrast}
+              checked={settings.highContrast}
+              onChange={highContrast => onChange({ ...settings, highContrast })}
+            />
+            <Toggle
+              label={t.reducedMotion}
+              checked={settings.reducedMotion}
+              onChange={reducedMotion => onChange({ ...settings, reducedMotion })}
+            />
+          </div>
+        </section>
+      </motion.div>
+    </motion.div>
+  );
+}
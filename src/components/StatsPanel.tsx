@@ -0,0 +1,133 @@
+import { motion } from 'motion/react';
+import { Lock, Medal, X } from 'lucide-react';
+import { ACHIEVEMENTS, type AchievementId } from '../achievements';
+import { accuracy, type RunStats, type StatsRecord } from '../stats';
+import type { Translation } from '../i18n';
+
+interface StatsPanelProps {
+  t: Translation;
+  record: StatsRecord;
+  onClose: () => void;
+}
+
+export function achievementText(t: Translation, id: AchievementId): { title: string; hint: string } {
+  switch (id) {
+    case 'firstBlood': return { title: t.achFirstBlood, hint: t.achFirstBloodHint };
+    case 'chainReaction': return { title: t.achChainReaction, hint: t.achChainReactionHint };
+    case 'veteran': return { title: t.achVeteran, hint: t.achVeteranHint };
+    case 'sharpshooter': return { title: t.achSharpshooter, hint: t.achSharpshooterHint };
+    case 'victory': return { title: t.achVictory, hint: t.achVictoryHint };
+    case 'flawless': return { title: t.achFlawless, hint: t.achFlawlessHint };
+    case 'survivor': return { title: t.achSurvivor, hint: t.achSurvivorHint };
+    case 'centurion': return { title: t.achCenturion, hint: t.achCenturionHint };
+  }
+}
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function StatRows({ rows }: { rows: [string, string | number][] }) {
+  return (
+    <div className="grid grid-cols-[1fr_auto] gap-x-6 gap-y-1 text-sm font-mono">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <span className="text-neutral-400 font-sans">{label}</span>
+          <span className="text-end">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function shotsLabel(shots: RunStats['shots']) {
+  return `${shots.reduce((sum, n) => sum + n, 0)} (${shots.join(' / ')})`;
+}
+
+export default function StatsPanel({ t, record, onClose }: StatsPanelProps) {
+  const { lifetime, lastRun } = record;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-2xl p-6"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold">{t.statistics}</h2>
+          <button onClick={onClose} title={t.close} className="p-2 hover:bg-white/5 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section>
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.lifetime}</h3>
+          {lifetime.games === 0 ? (
+            <p className="text-sm text-neutral-500">{t.noRunsYet}</p>
+          ) : (
+            <StatRows
+              rows={[
+                [t.gamesPlayed, lifetime.games],
+                [t.wins, lifetime.wins],
+                [t.shotsFired, shotsLabel(lifetime.shots)],
+                [t.accuracy, percent(accuracy(lifetime))],
+                [t.enemiesDestroyed, lifetime.kills],
+                [t.bestMultiKill, lifetime.bestMultiKill],
+                [t.citiesSaved, lifetime.citiesSaved],
+                [t.bestWave, lifetime.bestWave],
+                [t.bestScore, lifetime.bestScore],
+              ]}
+            />
+          )}
+        </section>
+
+        {lastRun && (
+          <section className="mt-6">
+            <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.lastRun}</h3>
+            <StatRows
+              rows={[
+                [t.score, lastRun.score],
+                [t.wave, lastRun.wave],
+                [t.shotsFired, shotsLabel(lastRun.shots)],
+                [t.accuracy, percent(accuracy(lastRun))],
+                [t.enemiesDestroyed, lastRun.kills],
+                [t.bestMultiKill, lastRun.bestMultiKill],
+                [t.citiesSaved, lastRun.citiesSaved],
+              ]}
+            />
+          </section>
+        )}
+
+        <section className="mt-6">
+          <h3 className="text-neutral-300 font-bold mb-2 uppercase text-[10px] tracking-widest">{t.achievements}</h3>
+          <div className="flex flex-col gap-2">
+            {ACHIEVEMENTS.map(({ id }) => {
+              const unlocked = id in record.achievements;
+              const { title, hint } = achievementText(t, id);
+              return (
+                <div
+                  key={id}
+                  className={`flex items-center gap-3 p-3 rounded-xl border ${unlocked ? 'border-yellow-500/40 bg-yellow-500/5' : 'border-white/10 opacity-60'}`}
+                >
+                  {unlocked ? <Medal className="w-5 h-5 text-yellow-500 shrink-0" /> : <Lock className="w-5 h-5 text-neutral-500 shrink-0" />}
+                  <div>
+                    <span className={`block font-bold ${unlocked ? 'text-yellow-400' : ''}`}>{title}</span>
+                    <span className="block text-xs text-neutral-400">{hint}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      </motion.div>
+    </motion.div>
+  );
+}
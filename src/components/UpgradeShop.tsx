@@ -0,0 +1,71 @@
+import { Coins } from 'lucide-react';
+import { AMMO_CAPACITY_STEP, BLAST_RADIUS_STEP, MAX_UPGRADE_LEVEL, MISSILE_SPEED_STEP } from '../game/constants';
+import type { ShopItem } from '../game/upgrades';
+import type { UpgradeId } from '../game/types';
+import { format, plural, type Translation } from '../i18n';
+
+type ShopKey = 'BlastRadius' | 'MissileSpeed' | 'AmmoCapacity' | 'Shields' | 'RebuildBattery' | 'RebuildCity';
+
+const LABELS: Record<UpgradeId, ShopKey> = {
+  blastRadius: 'BlastRadius',
+  missileSpeed: 'MissileSpeed',
+  ammoCapacity: 'AmmoCapacity',
+  shields: 'Shields',
+  rebuildBattery: 'RebuildBattery',
+  rebuildCity: 'RebuildCity',
+};
+
+function upgradeHint(t: Translation, id: UpgradeId) {
+  switch (id) {
+    case 'blastRadius': return format(t.upgradeBlastRadiusHint, { percent: Math.round(BLAST_RADIUS_STEP * 100) });
+    case 'missileSpeed': return format(t.upgradeMissileSpeedHint, { percent: Math.round(MISSILE_SPEED_STEP * 100) });
+    case 'ammoCapacity': return plural(t, 'upgradeAmmoCapacityHint', AMMO_CAPACITY_STEP);
+    case 'shields': return t.upgradeShieldsHint;
+    case 'rebuildBattery': return t.upgradeRebuildBatteryHint;
+    case 'rebuildCity': return t.upgradeRebuildCityHint;
+  }
+}
+
+interface UpgradeShopProps {
+  t: Translation;
+  credits: number;
+  items: ShopItem[];
+  onPurchase: (id: UpgradeId) => void;
+}
+
+export default function UpgradeShop({ t, credits, items, onPurchase }: UpgradeShopProps) {
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 text-start">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-neutral-300 font-bold uppercase text-[10px] tracking-widest">{t.armory}</h3>
+        <span className="flex items-center gap-1 font-mono text-sm text-yellow-500">
+          <Coins className="w-4 h-4" />
+          {credits}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {items.map(item => {
+          const maxed = item.level !== null && item.level >= MAX_UPGRADE_LEVEL;
+          return (
+            <button
+              key={item.id}
+              onClick={() => onPurchase(item.id)}
+              disabled={!item.available}
+              title={upgradeHint(t, item.id)}
+              className="p-3 rounded-xl border border-white/10 enabled:hover:bg-white/5 disabled:opacity-40 transition-colors"
+            >
+              <span className="flex items-center justify-between gap-2">
+                <span className="font-bold text-sm">{t[`upgrade${LABELS[item.id]}`]}</span>
+                {item.level !== null && (
+                  <span className="font-mono text-[10px] text-emerald-400">{item.level}/{MAX_UPGRADE_LEVEL}</span>
+                )}
+              </span>
+              <span className="block text-xs text-neutral-400 mt-1">{upgradeHint(t, item.id)}</span>
+              <span className="block font-mono text-xs text-yellow-500 mt-2">{maxed ? t.maxed : item.cost}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
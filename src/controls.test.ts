@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { BATTERY_KEYS, batteryControls } from './controls';
+
+describe('battery controls', () => {
+  it('name only the batteries in the layout', () => {
+    expect(batteryControls(3)).toEqual({ keys: 'A/S/D', numbers: '1/2/3', buttons: 'X/Y/B' });
+    expect(batteryControls(6)).toEqual({ keys: 'A/S/D/F/G/H', numbers: '1/2/3/4/5/6', buttons: 'X/Y/B/LB/RB/LT' });
+  });
+
+  it('map letter and digit keys to the same battery', () => {
+    expect(BATTERY_KEYS.a).toBe(0);
+    expect(BATTERY_KEYS['1']).toBe(0);
+    expect(BATTERY_KEYS.h).toBe(5);
+    expect(BATTERY_KEYS['6']).toBe(5);
+  });
+});
@@ -0,0 +1,111 @@
+// --- Crosshair steering for keyboard and gamepad players ---
+
+/** Crosshair speed in logical pixels per second at full deflection. */
+export const CROSSHAIR_SPEED = 450;
+const STICK_DEADZONE = 0.2;
+
+// Standard Gamepad API button layout.
+const BUTTON_A = 0;
+const BUTTON_B = 1;
+const BUTTON_X = 2;
+const BUTTON_Y = 3;
+const BUTTON_LB = 4;
+const BUTTON_RB = 5;
+const BUTTON_LT = 6;
+const BUTTON_RT = 7;
+const BUTTON_START = 9;
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+// --- Battery selection in explicit fire mode ---
+// Each list covers the most batteries a scenario allows, left to right.
+
+/** Keys in the home row; the digit keys 1-6 pick the same batteries. */
+export const BATTERY_KEY_ROW = 'ASDFGH';
+const BATTERY_BUTTONS = [BUTTON_X, BUTTON_Y, BUTTON_B, BUTTON_LB, BUTTON_RB, BUTTON_LT];
+const BATTERY_BUTTON_NAMES = ['X', 'Y', 'B', 'LB', 'RB', 'LT'];
+
+export const BATTERY_KEYS: Record<string, number> = Object.fromEntries(
+  [...BATTERY_KEY_ROW].flatMap((key, i) => [[key.toLowerCase(), i], [String(i + 1), i]]),
+);
+
+/** The keys, digits and gamepad buttons that pick each of `count` batteries, written `A/S/D`. */
+export function batteryControls(count: number) {
+  const list = (names: string[]) => names.slice(0, count).join('/');
+  return {
+    keys: list([...BATTERY_KEY_ROW]),
+    numbers: list([...BATTERY_KEY_ROW].map((_, i) => String(i + 1))),
+    buttons: list(BATTERY_BUTTON_NAMES),
+  };
+}
+
+export interface AimInput {
+  /** Steering direction, each axis in [-1, 1]. */
+  dx: number;
+  dy: number;
+  /** Fire from the default battery this frame. */
+  fire: boolean;
+  /** Fire from a specific battery this frame (X, Y, B, LB, RB, LT from left to right). */
+  battery: number | null;
+  pause: boolean;
+}
+
+export const ARROW_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+export function readKeyboardAim(held: ReadonlySet<string>): { dx: number; dy: number } {
+  let dx = 0;
+  let dy = 0;
+  held.forEach(key => {
+    const dir = ARROW_KEYS[key];
+    if (dir) {
+      dx += dir[0];
+      dy += dir[1];
+    }
+  });
+  return { dx, dy };
+}
+
+function applyDeadzone(value: number) {
+  return Math.abs(value) < STICK_DEADZONE ? 0 : value;
+}
+
+/**
+ * Returns a poller that reads the first connected gamepad and reports button
+ * presses only on the frame they go down.
+ */
+export function createGamepadReader() {
+  let previous: boolean[] = [];
+
+  return (): AimInput | null => {
+    const pad = typeof navigator !== 'undefined' && navigator.getGamepads
+      ? Array.from(navigator.getGamepads()).find(p => p && p.connected)
+      : null;
+    if (!pad) {
+      previous = [];
+      return null;
+    }
+
+    const down = pad.buttons.map(b => b.pressed);
+    const pressed = (i: number) => !!down[i] && !previous[i];
+    previous = down;
+
+    const dpadX = (down[DPAD_RIGHT] ? 1 : 0) - (down[DPAD_LEFT] ? 1 : 0);
+    const dpadY = (down[DPAD_DOWN] ? 1 : 0) - (down[DPAD_UP] ? 1 : 0);
+    const pick = BATTERY_BUTTONS.findIndex(pressed);
+
+    return {
+      dx: Math.max(-1, Math.min(1, applyDeadzone(pad.axes[0] ?? 0) + dpadX)),
+      dy: Math.max(-1, Math.min(1, applyDeadzone(pad.axes[1] ?? 0) + dpadY)),
+      fire: pressed(BUTTON_A) || pressed(BUTTON_RT),
+      battery: pick >= 0 ? pick : null,
+      pause: pressed(BUTTON_START),
+    };
+  };
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decodeResult, encodeResult, loadDailyAttempt, ResultCodeError, type DailyResult } from './daily';
+
+const result: DailyResult = {
+  date: '2026-03-14',
+  score: 12345,
+  wave: 7,
+  won: false,
+  cities: [true, false, true, true, false, true],
+  accuracy: 0.62,
+};
+
+describe('result codes', () => {
+  it('decode to the result they were made from, wherever they appear in the text', () => {
+    expect(decodeResult(`Look at this!\n${encodeResult(result)}\n`)).toEqual(result);
+  });
+
+  it.each([
+    ['missing', 'no code here'],
+    ['altered', encodeResult(result).replace('-9ix.', '-9iy.')],
+    ['altered', encodeResult({ ...result, score: 1 }).replace(/-[0-9a-z]+$/, '-zzzz')],
+  ])('reject text with the %s problem', (problem, text) => {
+    expect(() => decodeResult(text)).toThrow(ResultCodeError);
+    expect(() => decodeResult(text)).toThrow(expect.objectContaining({ problem }));
+  });
+});
+
+describe('stored attempts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stored = (value: string) => vi.stubGlobal('localStorage', { getItem: () => value, setItem: () => {} });
+
+  it('come back as they were saved', () => {
+    stored(JSON.stringify({ [result.date]: { date: result.date, result } }));
+    expect(loadDailyAttempt(result.date)).toEqual({ date: result.date, result });
+  });
+
+  it.each(['null', '{', '[1, 2]', JSON.stringify({ [result.date]: { date: result.date, result: { score: 'lots' } } })])(
+    'are ignored when storage holds %s',
+    value => {
+      stored(value);
+      expect(loadDailyAttempt(result.date)).toBeNull();
+    },
+  );
+});
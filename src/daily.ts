@@ -0,0 +1,187 @@
+import { DIFFICULTY_PRESETS } from './game/difficulty';
+import { hasShape, isArrayOf, isBoolean, isNumber, isRecord, isString } from './game/json';
+import { hash } from './game/rng';
+import type { GameOptions, GameState } from './game/types';
+
+// --- Daily challenge: one shared seed per UTC day, one attempt each ---
+
+const STORAGE_KEY = 'max-nova-defense:daily';
+const CODE_PREFIX = 'MND1';
+/** Past days kept in storage; older entries are dropped when a new day is recorded. */
+const HISTORY_DAYS = 60;
+
+export interface DailyResult {
+  date: string;
+  score: number;
+  wave: number;
+  won: boolean;
+  /** Whether each city was standing at the end, left to right. */
+  cities: boolean[];
+  /** Hits per shot fired, from 0 to 1. */
+  accuracy: number;
+}
+
+/** Today's attempt: started but unfinished runs have no result yet. */
+export interface DailyAttempt {
+  date: string;
+  result: DailyResult | null;
+}
+
+/** `YYYY-MM-DD` in UTC, so every player is on the same challenge at the same moment. */
+export function dailyDate(now = new Date()) {
+  return now.toISOString().slice(0, 10);
+}
+
+export function isDailyDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+export function dailySeed(date: string) {
+  return hash(`max-nova-daily:${date}`);
+}
+
+/** Everyone plays the challenge with the same rules, whatever their own settings. */
+export function dailyOptions(date: string): Partial<GameOptions> {
+  return {
+    guidance: 'heatSeeking',
+    difficulty: 'normal',
+    ...DIFFICULTY_PRESETS.normal,
+    endless: false,
+    daily: date,
+  };
+}
+
+export function dailyResult(state: GameState, accuracy: number): DailyResult {
+  return {
+    date: state.options.daily ?? dailyDate(),
+    score: state.score,
+    wave: state.wave,
+    won: state.status === 'won',
+    cities: state.cities.map(c => !c.destroyed),
+    accuracy,
+  };
+}
+
+// --- Storage ---
+
+function isDailyResult(value: unknown): value is DailyResult {
+  return hasShape<DailyResult>(value, {
+    date: date => isString(date) && isDailyDate(date),
+    score: isNumber,
+    wave: isNumber,
+    won: isBoolean,
+    cities: cities => isArrayOf(cities, isBoolean),
+    accuracy: isNumber,
+  });
+}
+
+function isDailyAttempt(value: unknown): value is DailyAttempt {
+  return hasShape<DailyAttempt>(value, {
+    date: date => isString(date) && isDailyDate(date),
+    result: result => result === null || isDailyResult(result),
+  });
+}
+
+/** Stored attempts by date; entries that don't check out are dropped. */
+function readHistory(): Record<string, DailyAttempt> {
+  let data: unknown;
+  try {
+    data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+  if (!isRecord(data)) return {};
+  return Object.fromEntries(Object.entries(data).filter((entry): entry is [string, DailyAttempt] => isDailyAttempt(entry[1])));
+}
+
+function writeHistory(history: Record<string, DailyAttempt>) {
+  const kept = Object.keys(history).sort().slice(-HISTORY_DAYS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept.map(date => [date, history[date]]))));
+  } catch {
+    // Storage may be unavailable; the attempt then isn't remembered past the session.
+  }
+}
+
+export function loadDailyAttempt(date: string): DailyAttempt | null {
+  return readHistory()[date] ?? null;
+}
+
+/** Uses up the day's attempt; called as the run starts so quitting can't buy a retry. */
+export function startDailyAttempt(date: string): DailyAttempt {
+  const attempt = { date, result: null };
+  writeHistory({ ...readHistory(), [date]: attempt });
+  return attempt;
+}
+
+export function finishDailyAttempt(result: DailyResult): DailyAttempt {
+  const attempt = { date: result.date, result };
+  writeHistory({ ...readHistory(), [result.date]: attempt });
+  return attempt;
+}
+
+// --- Sharing ---
+
+/**
+ * A compact, checksummed encoding of a result: `MND1-<date>-<fields>-<check>`.
+ * The checksum catches typos and casual edits, not determined forgery.
+ */
+export function encodeResult(result: DailyResult): string {
+  const mask = result.cities.reduce((bits, standing, i) => bits | (standing ? 1 << i : 0), 0);
+  const fields = [result.score, result.wave, result.cities.length, mask, Math.round(result.accuracy * 100), result.won ? 1 : 0]
+    .map(n => n.toString(36))
+    .join('.');
+  const body = `${CODE_PREFIX}-${result.date.replaceAll('-', '')}-${fields}`;
+  return `${body}-${hash(body).toString(36).slice(0, 4)}`;
+}
+
+/** Why pasted text didn't yield a result; the UI turns it into a message in the player's language. */
+export type ResultCodeProblem = 'missing' | 'altered' | 'corrupt';
+
+export class ResultCodeError extends Error {
+  constructor(readonly problem: ResultCodeProblem) {
+    super(`Result code rejected: ${problem}`);
+    this.name = 'ResultCodeError';
+  }
+}
+
+/** Finds and checks a result code anywhere in pasted text; throws a ResultCodeError if there is none or it was altered. */
+export function decodeResult(text: string): DailyResult {
+  const match = new RegExp(`${CODE_PREFIX}-(\\d{8})-([0-9a-z.]+)-([0-9a-z]{1,4})`).exec(text);
+  if (!match) throw new ResultCodeError('missing');
+  const [, digits, fields, check] = match;
+  if (hash(`${CODE_PREFIX}-${digits}-${fields}`).toString(36).slice(0, 4) !== check) {
+    throw new ResultCodeError('altered');
+  }
+
+  const date = `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6)}`;
+  const values = fields.split('.').map(n => parseInt(n, 36));
+  if (!isDailyDate(date) || values.length !== 6 || values.some(n => !Number.isFinite(n))) {
+    throw new ResultCodeError('corrupt');
+  }
+  const [score, wave, cityCount, mask, accuracy, won] = values;
+  return {
+    date,
+    score,
+    wave,
+    won: won === 1,
+    cities: Array.from({ length: cityCount }, (_, i) => (mask & (1 << i)) !== 0),
+    accuracy: accuracy / 100,
+  };
+}
+
+/** One emoji per city: standing or destroyed. */
+export function cityGrid(cities: boolean[]) {
+  return cities.map(standing => (standing ? '🏙️' : '💥')).join('');
+}
+
+/** The text copied to the clipboard: a human-readable summary with the code on its last line. */
+export function shareText(result: DailyResult, title: string) {
+  const saved = result.cities.filter(Boolean).length;
+  return [
+    `${title} ${result.date}`,
+    `${result.won ? '🏆' : '☠️'} ${result.score} · 🌊 ${result.wave} · 🎯 ${Math.round(result.accuracy * 100)}% · 🏙️ ${saved}/${result.cities.length}`,
+    cityGrid(result.cities),
+    encodeResult(result),
+  ].join('\n');
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_DT } from './game/constants';
+import { createGame, step } from './game/engine';
+import type { GameState } from './game/types';
+import { runDebugCommand, type DebugControls, type DebugHost } from './debug';
+
+function debugHost(paused: boolean) {
+  const controls: DebugControls = { timeScale: 1, frozen: false, fps: 0, updateMs: 0, drawMs: 0 };
+  const host: DebugHost = {
+    state: createGame(4),
+    controls,
+    apply: (next: GameState) => {
+      host.state = next;
+      return false;
+    },
+    paused,
+    step: () => {
+      // Stands in for the game loop, which leaves a paused game alone.
+      if (!paused && host.state) host.state = step(host.state, { fires: [] }, FIXED_DT);
+    },
+  };
+  return host;
+}
+
+describe('debug console', () => {
+  it('steps a frozen game', () => {
+    const host = debugHost(false);
+    expect(runDebugCommand('step 5', host)).toBe('stepped 5');
+    expect(host.state?.time).toBeCloseTo(5 * FIXED_DT);
+    expect(host.controls.frozen).toBe(true);
+  });
+
+  it('refuses to step while the pause menu is open', () => {
+    const host = debugHost(true);
+    expect(runDebugCommand('step 5', host)).toBe('game paused; close the pause menu to step');
+    expect(host.state?.time).toBe(0);
+    expect(host.controls.frozen).toBe(false);
+  });
+
+  it('reports commands it cannot parse', () => {
+    expect(runDebugCommand('teleport', debugHost(false))).toBe('unknown command "teleport"; try help');
+  });
+});
@@ -0,0 +1,163 @@
+import { FIXED_DT } from './game/constants';
+import { debugRefillAmmo, debugSetInvincible, debugSetScore, debugSpawn } from './game/engine';
+import type { EnemyKind, GameState } from './game/types';
+
+// --- Developer console (development builds only) ---
+
+/** Loop controls and frame timings shared between the game loop and the console. */
+export interface DebugControls {
+  timeScale: number;
+  /** Holds the simulation still; `step` still advances it. */
+  frozen: boolean;
+  fps: number;
+  updateMs: number;
+  drawMs: number;
+}
+
+export interface DebugSnapshot {
+  fps: number;
+  /** Milliseconds spent per frame in simulation steps and in drawing. */
+  updateMs: number;
+  drawMs: number;
+  tick: number;
+  counts: { enemies: number; missiles: number; explosions: number };
+  timeScale: number;
+  frozen: boolean;
+  invincible: boolean;
+}
+
+export type DebugCommand =
+  | { type: 'spawn'; kind: EnemyKind; count: number }
+  | { type: 'score'; value: number }
+  | { type: 'ammo' }
+  /** `on` of null toggles. */
+  | { type: 'god'; on: boolean | null }
+  | { type: 'speed'; scale: number }
+  | { type: 'pause' }
+  | { type: 'step'; count: number }
+  | { type: 'resume' }
+  | { type: 'help' };
+
+const ENEMY_KINDS: EnemyKind[] = ['rocket', 'mirv', 'smartBomb', 'bomber', 'satellite'];
+const MAX_SPAWN = 50;
+/** Ten simulated seconds; every step runs synchronously, so a typo mustn't freeze the tab. */
+const MAX_STEP = 600;
+
+export const DEBUG_HELP = [
+  'spawn <rocket|mirv|smartBomb|bomber|satellite> [count]',
+  'score <points>',
+  'ammo                refill every standing battery',
+  'god [on|off]        toggle invincibility',
+  'speed <0.05-4>      simulation speed (1 = normal)',
+  `pause | step [1-${MAX_STEP}] | resume`,
+];
+
+function parseNumber(value: string | undefined, name: string) {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) throw new Error(`${name} must be a number`);
+  return n;
+}
+
+export function parseCommand(line: string): DebugCommand {
+  const [name, ...args] = line.trim().split(/\s+/);
+  switch (name?.toLowerCase()) {
+    case 'spawn': {
+      const kind = ENEMY_KINDS.find(k => k.toLowerCase() === args[0]?.toLowerCase());
+      if (!kind) throw new Error(`unknown enemy kind; expected ${ENEMY_KINDS.join(', ')}`);
+      const count = args[1] === undefined ? 1 : Math.round(parseNumber(args[1], 'count'));
+      return { type: 'spawn', kind, count: Math.max(1, Math.min(MAX_SPAWN, count)) };
+    }
+    case 'score':
+      return { type: 'score', value: Math.max(0, Math.round(parseNumber(args[0], 'points'))) };
+    case 'ammo':
+      return { type: 'ammo' };
+    case 'god':
+      return { type: 'god', on: args[0] === 'on' ? true : args[0] === 'off' ? false : null };
+    case 'speed':
+      return { type: 'speed', scale: Math.max(0.05, Math.min(4, parseNumber(args[0], 'speed'))) };
+    case 'pause':
+      return { type: 'pause' };
+    case 'step': {
+      const count = args[0] === undefined ? 1 : Math.round(parseNumber(args[0], 'steps'));
+      return { type: 'step', count: Math.max(1, Math.min(MAX_STEP, count)) };
+    }
+    case 'resume':
+      return { type: 'resume' };
+    case 'help':
+    case '?':
+      return { type: 'help' };
+    default:
+      throw new Error(`unknown command "${name}"; try help`);
+  }
+}
+
+export function readDebugSnapshot(state: GameState, controls: DebugControls): DebugSnapshot {
+  return {
+    fps: controls.fps,
+    updateMs: controls.updateMs,
+    drawMs: controls.drawMs,
+    tick: Math.round(state.time / FIXED_DT),
+    counts: { enemies: state.enemies.length, missiles: state.missiles.length, explosions: state.explosions.length },
+    timeScale: controls.timeScale,
+    frozen: controls.frozen,
+    invincible: state.invincible,
+  };
+}
+
+export interface DebugHost {
+  /** The game in progress, or null when there isn't one to change. */
+  state: GameState | null;
+  controls: DebugControls;
+  /** Replaces the game state; returns true if that stopped a replay recording. */
+  apply(next: GameState): boolean;
+  /** The pause menu is open; the game loop won't step the game until it closes. */
+  paused: boolean;
+  /** Runs one fixed simulation step. */
+  step(): void;
+}
+
+/** Parses and runs one console line, returning the text to echo back. */
+export function runDebugCommand(line: string, host: DebugHost): string {
+  let command: DebugCommand;
+  try {
+    command = parseCommand(line);
+  } catch (err) {
+    return (err as Error).message;
+  }
+
+  const { state, controls } = host;
+  const apply = (change: (state: GameState) => GameState, message: string) => {
+    if (!state) return 'no game in progress';
+    return host.apply(change(state)) ? `${message} (replay recording stopped)` : message;
+  };
+
+  switch (command.type) {
+    case 'spawn':
+      return apply(s => debugSpawn(s, command.kind, command.count), `spawned ${command.count} ${command.kind}`);
+    case 'score':
+      return apply(s => debugSetScore(s, command.value), `score set to ${command.value}`);
+    case 'ammo':
+      return apply(debugRefillAmmo, 'ammo refilled');
+    case 'god': {
+      const on = command.on ?? !state?.invincible;
+      return apply(s => debugSetInvincible(s, on), `invincibility ${on ? 'on' : 'off'}`);
+    }
+    case 'speed':
+      controls.timeScale = command.scale;
+      return `speed ${command.scale}×`;
+    case 'pause':
+      controls.frozen = true;
+      return 'simulation frozen';
+    case 'resume':
+      controls.frozen = false;
+      return 'simulation resumed';
+    case 'step':
+      if (!state) return 'no game in progress';
+      if (host.paused) return 'game paused; close the pause menu to step';
+      controls.frozen = true;
+      for (let i = 0; i < command.count; i++) host.step();
+      return `stepped ${command.count}`;
+    case 'help':
+      return DEBUG_HELP.join('\n');
+  }
+}
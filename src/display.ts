@@ -0,0 +1,63 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './game/constants';
+
+// --- Canvas backing store and fullscreen ---
+
+/** Beyond this the extra pixels cost fill rate without looking any sharper. */
+const MAX_PIXEL_RATIO = 3;
+
+/**
+ * Resizes the canvas backing store to the size of the letterboxed picture on
+ * screen times the device pixel ratio. Returns the scale from logical 800×600
+ * coordinates to backing pixels, for `ctx.setTransform`.
+ */
+export function fitCanvas(canvas: HTMLCanvasElement): number {
+  const rect = canvas.getBoundingClientRect();
+  const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+  const scale = Math.min(rect.width / CANVAS_WIDTH, rect.height / CANVAS_HEIGHT) * ratio;
+  if (!(scale > 0)) return canvas.width / CANVAS_WIDTH;
+
+  const width = Math.round(CANVAS_WIDTH * scale);
+  const height = Math.round(CANVAS_HEIGHT * scale);
+  // Assigning the size clears the canvas, so only do it when something changed.
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return width / CANVAS_WIDTH;
+}
+
+/**
+ * Calls `onChange` whenever the canvas box or the device pixel ratio changes
+ * (zooming, or dragging the window to another monitor). Returns a cleanup.
+ */
+export function watchCanvasSize(canvas: HTMLCanvasElement, onChange: () => void): () => void {
+  const observer = new ResizeObserver(onChange);
+  observer.observe(canvas);
+
+  let media: MediaQueryList | null = null;
+  const watchRatio = () => {
+    media?.removeEventListener('change', handleRatio);
+    media = matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    media.addEventListener('change', handleRatio);
+  };
+  const handleRatio = () => {
+    onChange();
+    watchRatio();
+  };
+  watchRatio();
+
+  return () => {
+    observer.disconnect();
+    media?.removeEventListener('change', handleRatio);
+  };
+}
+
+export function fullscreenSupported() {
+  return typeof document !== 'undefined' && document.fullscreenEnabled;
+}
+
+export function toggleFullscreen(element: HTMLElement) {
+  const request = document.fullscreenElement ? document.exitFullscreen() : element.requestFullscreen();
+  // Browsers reject when not triggered by a user gesture; the button simply does nothing then.
+  request.catch(() => {});
+}
@@ -0,0 +1,129 @@
+import { EXPLOSION_GROWTH_RATE } from './constants';
+import { purchaseUpgrade } from './engine';
+import { predictIntercept } from './guidance';
+import { createRng } from './rng';
+import { groundY, terrainOf } from './scenario';
+import type { Enemy, FireCommand, GameState, UpgradeId } from './types';
+import { canPurchase, interceptorBlastRadius, interceptorSpeed } from './upgrades';
+
+// --- Computer player for attract mode and headless balance runs ---
+// Everything here is a pure function of the game state it is shown, so a bot
+// game is as reproducible from its seed as a recorded one.
+
+/** Intercepts are only attempted between this height and a margin above the ground. */
+const MIN_INTERCEPT_Y = 40;
+const GROUND_MARGIN = 35;
+/** Extra time before giving up on a shot and firing at the same enemy again. */
+const RETRY_MARGIN = 0.3;
+/** Bombers and satellites never land, so they rank behind warheads due within this many seconds. */
+const CRUISER_ETA = 6;
+/** Warheads heading for ruins still splash nearby, but matter less. */
+const RUINS_ETA_PENALTY = 4;
+
+/** Shop priorities, most wanted first; rebuilds go ahead of everything when needed. */
+const SHOPPING_LIST: UpgradeId[] = ['rebuildBattery', 'rebuildCity', 'ammoCapacity', 'blastRadius', 'missileSpeed', 'shields'];
+
+export interface AutopilotOptions {
+  /** Shortest gap between two shots, in simulated seconds. */
+  fireInterval: number;
+  /** Largest aim offset in pixels, drawn from the bot's own seeded generator. */
+  aimError: number;
+  /** Simulated seconds between an enemy appearing and the bot first firing at it. */
+  reactionTime: number;
+  seed: number;
+}
+
+/**
+ * Plays like a casual human rather than a perfect one: slow to pick up new
+ * threats, under one shot a second, and often a blast radius off target.
+ */
+export const DEFAULT_AUTOPILOT: AutopilotOptions = {
+  fireInterval: 1.2,
+  aimError: 40,
+  reactionTime: 1.5,
+  seed: 1,
+};
+
+export interface Autopilot {
+  /** Commands to feed into the next `step` of `state`. */
+  decide(state: GameState): FireCommand[];
+}
+
+/** Seconds until a warhead lands, or a fixed rank for enemies that don't. */
+function timeToImpact(state: GameState, enemy: Enemy) {
+  if ('vx' in enemy) return CRUISER_ETA;
+  const eta = Math.hypot(enemy.targetX - enemy.x, enemy.targetY - enemy.y) / enemy.speed;
+  const target = [...state.batteries, ...state.cities].find(s => s.x === enemy.targetX && s.y === enemy.targetY);
+  return target?.destroyed ? eta + RUINS_ETA_PENALTY : eta;
+}
+
+export function createAutopilot(options: Partial<AutopilotOptions> = {}): Autopilot {
+  const { fireInterval, aimError, reactionTime, seed } = { ...DEFAULT_AUTOPILOT, ...options };
+  // Separate from the game's generator so a clumsier bot doesn't change what spawns.
+  const rng = createRng(seed);
+  // Enemy id -> game time after which a shot at it is considered missed.
+  const claims = new Map<number, number>();
+  // Enemy id -> game time it was first seen.
+  const spotted = new Map<number, number>();
+  let nextShot = 0;
+
+  return {
+    decide(state) {
+      claims.forEach((until, id) => {
+        if (until < state.time || !state.enemies.some(e => e.id === id)) claims.delete(id);
+      });
+      spotted.forEach((_, id) => {
+        if (!state.enemies.some(e => e.id === id)) spotted.delete(id);
+      });
+      state.enemies.forEach(e => {
+        if (!spotted.has(e.id)) spotted.set(e.id, state.time);
+      });
+      if (state.status !== 'playing' || state.time < nextShot) return [];
+
+      const speed = interceptorSpeed(state.upgrades);
+      const blastTime = interceptorBlastRadius(state.upgrades) / EXPLOSION_GROWTH_RATE;
+      const terrain = terrainOf(state.options);
+      const threats = state.enemies
+        .filter(e => !claims.has(e.id) && state.time - spotted.get(e.id)! >= reactionTime)
+        .map(enemy => ({ enemy, eta: timeToImpact(state, enemy) }))
+        .sort((a, b) => a.eta - b.eta);
+
+      for (const { enemy } of threats) {
+        let best: FireCommand | null = null;
+        let bestFlight = Infinity;
+        for (const [index, battery] of state.batteries.entries()) {
+          if (battery.destroyed || battery.ammo <= 0) continue;
+          const at = predictIntercept(enemy, battery, speed);
+          if (!at || at.y < MIN_INTERCEPT_Y || at.y > groundY(terrain, at.x) - GROUND_MARGIN) continue;
+          const flight = Math.hypot(at.x - battery.x, at.y - battery.y) / speed;
+          // Favour fuller batteries a little so no single one runs dry early.
+          const rank = flight - (battery.ammo / battery.maxAmmo) * 0.1;
+          if (rank < bestFlight) {
+            best = { x: at.x, y: at.y, battery: index };
+            bestFlight = rank;
+          }
+        }
+        if (!best) continue;
+
+        claims.set(enemy.id, state.time + bestFlight + blastTime + RETRY_MARGIN);
+        nextShot = state.time + fireInterval;
+        if (aimError > 0) {
+          best.x += rng.range(-aimError, aimError);
+          best.y += rng.range(-aimError, aimError);
+        }
+        return [best];
+      }
+      return [];
+    },
+  };
+}
+
+/** Spends credits on a wave-complete screen the way a sensible player would. */
+export function autopilotShop(state: GameState): GameState {
+  let next = state;
+  for (;;) {
+    const item = SHOPPING_LIST.find(id => canPurchase(next, id));
+    if (!item) return next;
+    next = purchaseUpgrade(next, item);
+  }
+}
@@ -0,0 +1,51 @@
+// --- Playfield ---
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+export const GROUND_HEIGHT = 20;
+
+// --- Simulation ---
+/** Length of one fixed simulation step in seconds. */
+export const FIXED_DT = 1 / 60;
+/** Longest frame the loop will catch up on, so a stall can't trigger a spiral of updates. */
+export const MAX_FRAME_TIME = 0.25;
+// All speeds and rates are expressed per second of simulated time.
+export const MISSILE_SPEED = 420;
+export const EXPLOSION_RADIUS_MAX = 40;
+export const EXPLOSION_GROWTH_RATE = 90;
+export const HEAT_SEEK_RANGE = 300;
+/** How far from the aim point a lock-on missile looks for a target at launch. */
+export const LOCK_ON_RANGE = 80;
+/** Distance beyond an explosion's edge at which smart bombs start to swerve. */
+export const SMART_BOMB_EVADE_MARGIN = 40;
+export const BOMBER_DROP_INTERVAL = 2.5;
+/** Pause before the first enemy of a wave is launched. */
+export const WAVE_START_DELAY = 1.5;
+
+// --- Scoring ---
+export const ENEMY_SCORES = {
+  rocket: 20,
+  mirv: 50,
+  smartBomb: 125,
+  bomber: 100,
+  satellite: 150,
+};
+export const CITY_BONUS = 100;
+export const AMMO_BONUS = 5;
+
+// --- Damage ---
+export const CITY_HP = 3;
+export const BATTERY_HP = 4;
+/** Half the footprint width of each structure, measured from its centre. */
+export const CITY_HALF_WIDTH = 15;
+export const BATTERY_HALF_WIDTH = 20;
+/** Impacts this close to a structure's centre count as direct hits. */
+export const DIRECT_HIT_RANGE = 5;
+export const DIRECT_HIT_DAMAGE = 2;
+/** Damage from an impact whose blast merely reaches a structure's footprint. */
+export const SPLASH_DAMAGE = 1;
+
+// --- Upgrades ---
+export const BLAST_RADIUS_STEP = 0.25;
+export const MISSILE_SPEED_STEP = 0.2;
+export const AMMO_CAPACITY_STEP = 8;
+export const MAX_UPGRADE_LEVEL = 3;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTY_PRESETS, difficultyOptions, difficultyTag } from './difficulty';
+
+const custom = { enemySpeed: 1.5, spawnRate: 1.2, ammo: [30, 30, 30], waves: 12 };
+
+function tag(params = custom, endless = false) {
+  return difficultyTag({ ...difficultyOptions('custom', params, endless), daily: null });
+}
+
+describe('difficulty tags', () => {
+  it('name presets and endless runs', () => {
+    expect(difficultyTag({ ...difficultyOptions('hard', custom, false), daily: null })).toBe('hard');
+    expect(difficultyTag({ ...difficultyOptions('easy', custom, true), daily: null })).toBe('easy-endless');
+    expect(difficultyTag({ ...difficultyOptions('normal', custom, false), daily: '2026-10-19' })).toBe('daily-20261019');
+  });
+
+  it('keep differently tuned custom games apart', () => {
+    expect(tag()).toBe(tag({ ...custom, ammo: [...custom.ammo] }));
+    expect(tag()).not.toBe(tag({ ...custom, spawnRate: 1.25 }));
+    expect(tag()).not.toBe(tag({ ...custom, ammo: [30, 31, 30] }));
+    expect(tag()).not.toBe(tag(custom, true));
+    expect(tag(custom, true)).toBe(tag({ ...custom, waves: 20 }, true));
+    expect(tag()).not.toBe(tag(DIFFICULTY_PRESETS.normal));
+  });
+
+  it('fit the server tag format', () => {
+    const tags = [tag(), tag(custom, true), tag({ enemySpeed: 2, spawnRate: 2, ammo: [60, 60, 60, 60, 60, 60], waves: 30 })];
+    tags.forEach(t => expect(t).toMatch(/^[a-z][a-z0-9-]{0,15}$/));
+  });
+});
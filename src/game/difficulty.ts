@@ -0,0 +1,58 @@
+import { hash } from './rng';
+import type { Difficulty, GameOptions } from './types';
+
+export type DifficultyPreset = Exclude<Difficulty, 'custom'>;
+
+/** The part of the game's rules a difficulty preset decides. */
+export type DifficultyParams = Pick<GameOptions, 'enemySpeed' | 'spawnRate' | 'ammo' | 'waves'>;
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'custom'];
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPreset, DifficultyParams> = {
+  easy: { enemySpeed: 0.75, spawnRate: 0.75, ammo: [25, 50, 25], waves: 10 },
+  normal: { enemySpeed: 1, spawnRate: 1, ammo: [20, 40, 20], waves: 10 },
+  hard: { enemySpeed: 1.3, spawnRate: 1.3, ammo: [15, 30, 15], waves: 10 },
+};
+
+/** Inclusive `[min, max, step]` bounds for each value on the custom panel. */
+export const CUSTOM_LIMITS = {
+  enemySpeed: [0.5, 2, 0.05],
+  spawnRate: [0.5, 2, 0.05],
+  ammo: [5, 60, 1],
+  waves: [1, 30, 1],
+} as const;
+
+function clamp(value: number, [min, max]: readonly [number, number, number]) {
+  return Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : min;
+}
+
+/** Brings stored or hand-edited custom values back inside the panel's limits. */
+export function sanitizeCustom(params: DifficultyParams): DifficultyParams {
+  return {
+    enemySpeed: clamp(params.enemySpeed, CUSTOM_LIMITS.enemySpeed),
+    spawnRate: clamp(params.spawnRate, CUSTOM_LIMITS.spawnRate),
+    ammo: params.ammo.map(a => Math.round(clamp(a, CUSTOM_LIMITS.ammo))),
+    waves: Math.round(clamp(params.waves, CUSTOM_LIMITS.waves)),
+  };
+}
+
+export function difficultyOptions(difficulty: Difficulty, custom: DifficultyParams, endless: boolean) {
+  const params = difficulty === 'custom' ? sanitizeCustom(custom) : DIFFICULTY_PRESETS[difficulty];
+  return { difficulty, endless, ...params };
+}
+
+/**
+ * Leaderboard bucket for a game: endless runs and each day's challenge are ranked apart from campaigns,
+ * and custom games only against others tuned the same way.
+ */
+export function difficultyTag(options: Pick<GameOptions, 'difficulty' | 'endless' | 'daily' | keyof DifficultyParams>) {
+  const { difficulty, endless, daily, enemySpeed, spawnRate, ammo, waves } = options;
+  if (daily) return `daily-${daily.replaceAll('-', '')}`;
+  if (difficulty === 'custom') {
+    // Endless games never run out of waves, so the count doesn't set them apart.
+    const params = [enemySpeed, spawnRate, ...ammo, endless ? 'endless' : waves].join(',');
+    // The server caps tags at 16 characters; a 32-bit hash is at most 7 in base 36.
+    return `custom-${hash(params).toString(36)}`;
+  }
+  return endless ? `${difficulty}-endless` : difficulty;
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { addBattery } from './editor';
+import { createClassicScenario, validateScenario } from './scenario';
+
+describe('addBattery', () => {
+  it('keeps batteries left to right and stocks the new one with the average ammo', () => {
+    const scenario = addBattery(createClassicScenario());
+    expect(scenario.batteries).toHaveLength(4);
+    const xs = scenario.batteries.map(b => b.x);
+    expect(xs).toEqual([...xs].sort((a, b) => a - b));
+    expect(scenario.batteries.map(b => b.ammo)).toContain(27);
+    expect(validateScenario(scenario)).toEqual(scenario);
+  });
+});
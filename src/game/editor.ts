@@ -0,0 +1,119 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './constants';
+import { groundY, SCENARIO_LIMITS, STRUCTURE_MARGIN } from './scenario';
+import type { Point, Scenario } from './types';
+
+// --- Drag handles for the scenario editor ---
+// Batteries and cities slide along the ground; terrain points move up and down.
+
+export type EditorHandle = { type: 'battery' | 'city' | 'terrain'; index: number };
+
+/** How close to a handle, in logical pixels, a press has to land to grab it. */
+const GRAB_RADIUS = 20;
+/** Added to terrain point distances so a structure standing on a point is grabbed first. */
+const TERRAIN_BIAS = 10;
+/** Batteries keep at least this far apart so their order never changes. */
+const BATTERY_GAP = 40;
+
+export function listHandles(scenario: Scenario): EditorHandle[] {
+  return [
+    ...scenario.batteries.map((_, index) => ({ type: 'battery' as const, index })),
+    ...scenario.cities.map((_, index) => ({ type: 'city' as const, index })),
+    ...scenario.terrain.map((_, index) => ({ type: 'terrain' as const, index })),
+  ];
+}
+
+export function handlePosition(scenario: Scenario, { type, index }: EditorHandle): Point {
+  if (type === 'terrain') {
+    return { x: (index * CANVAS_WIDTH) / (scenario.terrain.length - 1), y: CANVAS_HEIGHT - scenario.terrain[index] };
+  }
+  const x = type === 'battery' ? scenario.batteries[index].x : scenario.cities[index];
+  return { x, y: groundY(scenario.terrain, x) };
+}
+
+/** The handle nearest `point` within grabbing range; structures win over terrain points. */
+export function pickHandle(scenario: Scenario, point: Point): EditorHandle | null {
+  let best: EditorHandle | null = null;
+  let bestDistance = GRAB_RADIUS;
+  for (const handle of listHandles(scenario)) {
+    const at = handlePosition(scenario, handle);
+    // Structures are drawn above the ground line, so measure to their middle.
+    const centreY = handle.type === 'terrain' ? at.y : at.y - 8;
+    const distance = Math.hypot(point.x - at.x, point.y - centreY) + (handle.type === 'terrain' ? TERRAIN_BIAS : 0);
+    if (distance < bestDistance) {
+      best = handle;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.round(Math.max(min, Math.min(max, value)));
+}
+
+/** A copy of `scenario` with `handle` dragged to `point`. */
+export function moveHandle(scenario: Scenario, { type, index }: EditorHandle, point: Point): Scenario {
+  switch (type) {
+    case 'battery': {
+      const { batteries } = scenario;
+      const min = index > 0 ? batteries[index - 1].x + BATTERY_GAP : STRUCTURE_MARGIN;
+      const max = index < batteries.length - 1 ? batteries[index + 1].x - BATTERY_GAP : CANVAS_WIDTH - STRUCTURE_MARGIN;
+      const next = batteries.map((b, i) => (i === index ? { ...b, x: clamp(point.x, min, max) } : b));
+      return { ...scenario, batteries: next };
+    }
+    case 'city':
+      return {
+        ...scenario,
+        cities: scenario.cities.map((x, i) => (i === index ? clamp(point.x, STRUCTURE_MARGIN, CANVAS_WIDTH - STRUCTURE_MARGIN) : x)),
+      };
+    case 'terrain': {
+      const [min, max] = SCENARIO_LIMITS.terrainHeight;
+      return {
+        ...scenario,
+        terrain: scenario.terrain.map((h, i) => (i === index ? clamp(CANVAS_HEIGHT - point.y, min, max) : h)),
+      };
+    }
+  }
+}
+
+// --- Editing operations ---
+
+/** The middle of the widest stretch of ground free of structures. */
+function widestGap(scenario: Scenario): number {
+  const taken = [STRUCTURE_MARGIN, ...scenario.batteries.map(b => b.x), ...scenario.cities, CANVAS_WIDTH - STRUCTURE_MARGIN]
+    .sort((a, b) => a - b);
+  let x = CANVAS_WIDTH / 2;
+  let widest = 0;
+  for (let i = 1; i < taken.length; i++) {
+    if (taken[i] - taken[i - 1] > widest) {
+      widest = taken[i] - taken[i - 1];
+      x = Math.round((taken[i] + taken[i - 1]) / 2);
+    }
+  }
+  return x;
+}
+
+/** Adds a city in the middle of the widest stretch of ground free of structures. */
+export function addCity(scenario: Scenario): Scenario {
+  return { ...scenario, cities: [...scenario.cities, widestGap(scenario)] };
+}
+
+/**
+ * Adds a battery in the widest free stretch, stocked with the layout's average ammo.
+ * Batteries stay sorted so dragging keeps its left-to-right bounds.
+ */
+export function addBattery(scenario: Scenario): Scenario {
+  const { batteries } = scenario;
+  const ammo = batteries.length
+    ? Math.round(batteries.reduce((sum, b) => sum + b.ammo, 0) / batteries.length)
+    : SCENARIO_LIMITS.ammo[1];
+  const next = [...batteries, { x: widestGap(scenario), ammo }].sort((a, b) => a.x - b.x);
+  return { ...scenario, batteries: next };
+}
+
+/** Resamples the terrain to `points` evenly spaced heights, keeping its shape. */
+export function resizeTerrain(scenario: Scenario, points: number): Scenario {
+  const terrain = Array.from({ length: points }, (_, i) =>
+    Math.round(CANVAS_HEIGHT - groundY(scenario.terrain, (i * CANVAS_WIDTH) / (points - 1))));
+  return { ...scenario, terrain };
+}
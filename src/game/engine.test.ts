@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { CITY_BONUS, ENEMY_SCORES, FIXED_DT } from './constants';
+import { createGame, startNextWave, step } from './engine';
+import { getWave } from './waves';
+import type { GameState, Rocket, StepInputs } from './types';
+
+// --- Helpers ---
+
+/** Steps `frames` fixed steps, taking each step's inputs from `inputsAt`. */
+function run(state: GameState, frames: number, inputsAt: (frame: number) => StepInputs = () => ({ fires: [] })) {
+  for (let frame = 0; frame < frames; frame++) state = step(state, inputsAt(frame), FIXED_DT);
+  return state;
+}
+
+function rocket(state: GameState, at: { x: number; y: number }, target: { x: number; y: number }): Rocket {
+  return { kind: 'rocket', id: state.nextId++, ...at, targetX: target.x, targetY: target.y, speed: 60, color: 'red' };
+}
+
+/** A game with the first wave already fully launched, so the spawner stays out of the way. */
+function quietGame(seed = 1): GameState {
+  const state = createGame(seed);
+  return { ...state, waveSpawned: getWave(1).enemies };
+}
+
+// --- Determinism ---
+
+describe('step', () => {
+  it('gives the same state for the same seed and inputs', () => {
+    const inputs = (frame: number): StepInputs => ({
+      fires: frame % 45 === 0 ? [{ x: 100 + (frame % 600), y: 200 }] : [],
+    });
+    const a = run(createGame(42), 1200, inputs);
+    const b = run(createGame(42), 1200, inputs);
+    expect(b).toEqual(a);
+    expect(a.time).toBeGreaterThan(0);
+  });
+
+  it('follows a different course with a different seed', () => {
+    const a = run(createGame(1), 600);
+    const b = run(createGame(2), 600);
+    expect(b.enemies).not.toEqual(a.enemies);
+  });
+
+  it('never changes the state it is given', () => {
+    const state = createGame(7);
+    const snapshot = structuredClone(state);
+    step(state, { fires: [{ x: 300, y: 200 }] }, FIXED_DT);
+    expect(state).toEqual(snapshot);
+  });
+});
+
+// --- Collisions ---
+
+describe('interceptors', () => {
+  it('destroy a rocket caught in their blast and score for it', () => {
+    const state = quietGame();
+    state.enemies = [rocket(state, { x: 400, y: 200 }, { x: 400, y: 580 })];
+    const fired = step(state, { fires: [{ x: 400, y: 200 }] }, FIXED_DT);
+    expect(fired.missiles).toHaveLength(1);
+    expect(fired.batteries[1].ammo).toBe(state.batteries[1].ammo - 1);
+
+    let next = fired;
+    let intercept;
+    for (let frame = 0; frame < 120 && !intercept; frame++) {
+      next = step(next, { fires: [] }, FIXED_DT);
+      intercept = next.events.find(e => e.type === 'intercept');
+    }
+    expect(intercept).toMatchObject({ kind: 'rocket', source: 'interceptor', points: ENEMY_SCORES.rocket });
+    expect(next.enemies).toHaveLength(0);
+    expect(next.score).toBe(ENEMY_SCORES.rocket);
+  });
+
+  it('leave rockets outside their blast alone', () => {
+    const state = quietGame();
+    state.enemies = [rocket(state, { x: 700, y: 100 }, { x: 750, y: 580 })];
+    const next = run(state, 90, frame => ({ fires: frame === 0 ? [{ x: 100, y: 200 }] : [] }));
+    expect(next.events.some(e => e.type === 'intercept')).toBe(false);
+    expect(next.enemies).toHaveLength(1);
+  });
+});
+
+// --- Damage ---
+
+describe('impacts', () => {
+  it('wear a city down and then destroy it', () => {
+    let state = quietGame();
+    const city = state.cities[0];
+    state.enemies = [rocket(state, { x: city.x, y: city.y - 10 }, city)];
+    state = run(state, 30);
+    expect(state.cities[0].hp).toBeLessThan(city.maxHp);
+    expect(state.cities[0].destroyed).toBe(false);
+
+    // Clear the first blast so it can't catch the second rocket on its way down.
+    state = { ...state, explosions: [], cities: state.cities.map((c, i) => (i === 0 ? { ...c, hp: 1 } : c)) };
+    state.enemies = [rocket(state, { x: city.x, y: city.y - 10 }, city)];
+    let destroyed = false;
+    for (let frame = 0; frame < 30; frame++) {
+      state = step(state, { fires: [] }, FIXED_DT);
+      destroyed ||= state.events.some(e => e.type === 'cityDestroyed' && e.city === 0);
+    }
+    expect(destroyed).toBe(true);
+    expect(state.cities[0].destroyed).toBe(true);
+  });
+
+  it('are soaked up by a shield', () => {
+    let state = quietGame();
+    state.cities[0].shielded = true;
+    state.enemies = [rocket(state, { x: state.cities[0].x, y: state.cities[0].y - 10 }, state.cities[0])];
+    state = run(state, 30);
+    expect(state.cities[0].hp).toBe(state.cities[0].maxHp);
+    expect(state.cities[0].shielded).toBe(false);
+  });
+});
+
+// --- Win and loss ---
+
+describe('outcome', () => {
+  it('is lost once every city is destroyed', () => {
+    const state = quietGame();
+    state.cities.forEach(c => {
+      c.destroyed = true;
+    });
+    state.enemies = [rocket(state, { x: 400, y: 100 }, { x: 400, y: 580 })];
+    const next = step(state, { fires: [] }, FIXED_DT);
+    expect(next.status).toBe('lost');
+    expect(next.events).toContainEqual({ type: 'lost' });
+    expect(step(next, { fires: [] }, FIXED_DT)).toBe(next);
+  });
+
+  it('is lost once every battery is destroyed', () => {
+    const state = quietGame();
+    state.batteries.forEach(b => {
+      b.destroyed = true;
+    });
+    expect(step(state, { fires: [] }, FIXED_DT).status).toBe('lost');
+  });
+
+  it('completes a cleared wave with a bonus, then moves on to the next', () => {
+    const state = quietGame();
+    const next = step(state, { fires: [] }, FIXED_DT);
+    expect(next.status).toBe('waveComplete');
+    expect(next.bonus).toMatchObject({ wave: 1, cities: state.cities.length });
+    expect(next.score).toBe(state.cities.length * CITY_BONUS + next.bonus!.ammoPoints);
+
+    const wave2 = startNextWave(next);
+    expect(wave2.status).toBe('playing');
+    expect(wave2.wave).toBe(2);
+    expect(wave2.waveSpawned).toBe(0);
+  });
+
+  it('is won by clearing the last wave', () => {
+    const state = createGame(1, { waves: 1 });
+    state.waveSpawned = getWave(1).enemies;
+    const next = step(state, { fires: [] }, FIXED_DT);
+    expect(next.status).toBe('won');
+    expect(next.events).toContainEqual({ type: 'won' });
+  });
+
+  it('never ends in victory in endless mode', () => {
+    const state = createGame(1, { waves: 1, endless: true });
+    state.waveSpawned = getWave(1).enemies;
+    expect(step(state, { fires: [] }, FIXED_DT).status).toBe('waveComplete');
+  });
+});
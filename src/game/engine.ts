@@ -0,0 +1,714 @@
+import {
+  AMMO_BONUS,
+  AMMO_CAPACITY_STEP,
+  BATTERY_HALF_WIDTH,
+  BATTERY_HP,
+  BOMBER_DROP_INTERVAL,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  CITY_BONUS,
+  CITY_HALF_WIDTH,
+  CITY_HP,
+  DIRECT_HIT_DAMAGE,
+  DIRECT_HIT_RANGE,
+  ENEMY_SCORES,
+  EXPLOSION_GROWTH_RATE,
+  EXPLOSION_RADIUS_MAX,
+  HEAT_SEEK_RANGE,
+  LOCK_ON_RANGE,
+  SMART_BOMB_EVADE_MARGIN,
+  SPLASH_DAMAGE,
+  WAVE_START_DELAY,
+} from './constants';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { nearestEnemy } from './guidance';
+import { createRng, type Rng } from './rng';
+import { canPurchase, createUpgrades, interceptorBlastRadius, interceptorSpeed, upgradeCost } from './upgrades';
+import type {
+  Battery,
+  Bomber,
+  City,
+  EnemyKind,
+  ExplosionSource,
+  FireCommand,
+  GameOptions,
+  GameState,
+  LaunchCommand,
+  Mirv,
+  Point,
+  SmartBomb,
+  StepInputs,
+  Structure,
+  UpgradeId,
+  Warhead,
+  WaveBonus,
+} from './types';
+import { CLASSIC_BATTERY_X, CLASSIC_CITY_X, groundY, terrainOf } from './scenario';
+import { getWave, type WaveDefinition } from './waves';
+
+// --- Setup ---
+
+/** Shortest gap between versus launches, as a fraction of the wave's spawn interval. */
+const VERSUS_LAUNCH_GAP = 0.5;
+/** After a versus launch, the spawner waits this many spawn intervals before stepping in. */
+const VERSUS_IDLE_SPAWN = 2;
+
+export const DEFAULT_GAME_OPTIONS: GameOptions = {
+  guidance: 'heatSeeking',
+  difficulty: 'normal',
+  ...DIFFICULTY_PRESETS.normal,
+  endless: false,
+  scenario: null,
+  daily: null,
+  practice: false,
+  batteryOwners: null,
+  versus: false,
+};
+
+/** Batteries at full ammo, placed by the scenario or in the standard layout. */
+export function createBatteries(options: Pick<GameOptions, 'ammo' | 'scenario'> = DEFAULT_GAME_OPTIONS): Battery[] {
+  const { ammo } = options;
+  const xs = options.scenario?.batteries.map(b => b.x) ?? CLASSIC_BATTERY_X;
+  const terrain = terrainOf(options);
+  return xs.map((x, i) => ({
+    x,
+    y: groundY(terrain, x),
+    ammo: ammo[i],
+    maxAmmo: ammo[i],
+    hp: BATTERY_HP,
+    maxHp: BATTERY_HP,
+    destroyed: false,
+    shielded: false,
+  }));
+}
+
+export function createCities(options: Pick<GameOptions, 'scenario'> = DEFAULT_GAME_OPTIONS): City[] {
+  const xs = options.scenario?.cities ?? CLASSIC_CITY_X;
+  const terrain = terrainOf(options);
+  // Cities sit slightly into the ground, below battery level.
+  return xs.map(x => ({ x, y: groundY(terrain, x) + 5, hp: CITY_HP, maxHp: CITY_HP, destroyed: false, shielded: false }));
+}
+
+/** Players sharing the defence: one per distinct battery owner. */
+export function playerCount(options: Pick<GameOptions, 'batteryOwners'>) {
+  return options.batteryOwners ? Math.max(...options.batteryOwners) + 1 : 1;
+}
+
+export function createGame(seed: number, options: Partial<GameOptions> = {}): GameState {
+  const resolved = { ...DEFAULT_GAME_OPTIONS, ...options };
+  return {
+    status: 'playing',
+    options: resolved,
+    time: 0,
+    score: 0,
+    credits: 0,
+    upgrades: createUpgrades(),
+    wave: 1,
+    waveSpawned: 0,
+    spawnTimer: WAVE_START_DELAY,
+    bonus: null,
+    playerScores: Array(playerCount(resolved)).fill(0),
+    launchCooldown: 0,
+    invincible: false,
+    rngState: seed >>> 0,
+    nextId: 1,
+    enemies: [],
+    missiles: [],
+    explosions: [],
+    batteries: createBatteries(resolved),
+    cities: createCities(resolved),
+    events: [],
+  };
+}
+
+/** Refills the surviving batteries and begins the wave after a completed one. */
+export function startNextWave(state: GameState): GameState {
+  if (state.status !== 'waveComplete') return state;
+
+  const next = cloneState(state);
+  next.status = 'playing';
+  next.wave += 1;
+  next.waveSpawned = 0;
+  next.spawnTimer = WAVE_START_DELAY;
+  next.batteries.forEach(b => {
+    if (!b.destroyed) b.ammo = b.maxAmmo;
+  });
+  return next;
+}
+
+/**
+ * Spends credits on a shop item between waves. Rebuilds restore the structure
+ * at `target`, or the first destroyed one when omitted. Returns the state
+ * unchanged if the purchase isn't allowed.
+ */
+export function purchaseUpgrade(state: GameState, id: UpgradeId, target?: number): GameState {
+  if (!canPurchase(state, id)) return state;
+
+  const next = cloneState(state);
+  next.credits -= upgradeCost(state.upgrades, id);
+
+  switch (id) {
+    case 'blastRadius':
+    case 'missileSpeed':
+      next.upgrades[id] += 1;
+      break;
+    case 'ammoCapacity':
+      next.upgrades.ammoCapacity += 1;
+      next.batteries.forEach(b => {
+        b.maxAmmo += AMMO_CAPACITY_STEP;
+      });
+      break;
+    case 'shields':
+      [...next.batteries, ...next.cities].forEach(s => {
+        if (!s.destroyed) s.shielded = true;
+      });
+      break;
+    case 'rebuildBattery': {
+      const index = target ?? next.batteries.findIndex(b => b.destroyed);
+      const base = createBatteries(next.options)[index];
+      if (!base || !next.batteries[index].destroyed) return state;
+      const maxAmmo = base.maxAmmo + next.upgrades.ammoCapacity * AMMO_CAPACITY_STEP;
+      next.batteries[index] = { ...base, ammo: maxAmmo, maxAmmo };
+      break;
+    }
+    case 'rebuildCity': {
+      const index = target ?? next.cities.findIndex(c => c.destroyed);
+      if (!next.cities[index]?.destroyed) return state;
+      next.cities[index] = { ...next.cities[index], hp: CITY_HP, destroyed: false };
+      break;
+    }
+  }
+  return next;
+}
+
+function cloneState(state: GameState): GameState {
+  return {
+    ...state,
+    upgrades: { ...state.upgrades },
+    playerScores: [...state.playerScores],
+    enemies: state.enemies.map(e => ({ ...e })),
+    missiles: state.missiles.map(m => ({ ...m })),
+    explosions: state.explosions.map(e => ({ ...e })),
+    batteries: state.batteries.map(b => ({ ...b })),
+    cities: state.cities.map(c => ({ ...c })),
+    events: [],
+  };
+}
+
+// --- Simulation ---
+
+function liveTargets(state: GameState): Point[] {
+  return [
+    ...state.batteries.filter(b => !b.destroyed),
+    ...state.cities.filter(c => !c.destroyed),
+  ];
+}
+
+/** The current wave's definition with the game's difficulty applied. */
+function currentWave(state: GameState): WaveDefinition {
+  const wave = getWave(state.wave, state.options.scenario?.waves);
+  const { enemySpeed, spawnRate } = state.options;
+  return {
+    ...wave,
+    speedMin: wave.speedMin * enemySpeed,
+    speedMax: wave.speedMax * enemySpeed,
+    spawnInterval: wave.spawnInterval / spawnRate,
+  };
+}
+
+function enemyColor(rng: Rng) {
+  return `hsl(${rng.next() * 60}, 100%, 50%)`; // Reddish
+}
+
+function launchRocket(state: GameState, rng: Rng, from: Point, target: Point) {
+  const wave = currentWave(state);
+  state.enemies.push({
+    kind: 'rocket',
+    id: state.nextId++,
+    x: from.x,
+    y: from.y,
+    targetX: target.x,
+    targetY: target.y,
+    speed: rng.range(wave.speedMin, wave.speedMax),
+    color: enemyColor(rng),
+  });
+}
+
+function pickKind(mix: Partial<Record<EnemyKind, number>>, rng: Rng): EnemyKind {
+  const entries = Object.entries(mix) as [EnemyKind, number][];
+  let roll = rng.next() * entries.reduce((sum, [, weight]) => sum + weight, 0);
+  for (const [kind, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return kind;
+  }
+  return 'rocket';
+}
+
+function spawnEnemy(state: GameState, rng: Rng, forcedKind?: EnemyKind) {
+  const targets = liveTargets(state);
+  if (targets.length === 0) return;
+
+  const wave = currentWave(state);
+  const kind = forcedKind ?? pickKind(wave.mix, rng);
+  const target = targets[rng.int(targets.length)];
+  const origin = { x: rng.next() * CANVAS_WIDTH, y: 0 };
+
+  switch (kind) {
+    case 'rocket':
+      launchRocket(state, rng, origin, target);
+      break;
+    case 'mirv':
+      state.enemies.push({
+        kind,
+        id: state.nextId++,
+        ...origin,
+        targetX: target.x,
+        targetY: target.y,
+        speed: rng.range(wave.speedMin, wave.speedMax) * 0.8,
+        color: enemyColor(rng),
+        splitY: rng.range(CANVAS_HEIGHT * 0.25, CANVAS_HEIGHT * 0.5),
+        warheads: 2 + rng.int(3),
+      });
+      break;
+    case 'smartBomb':
+      state.enemies.push({
+        kind,
+        id: state.nextId++,
+        ...origin,
+        targetX: target.x,
+        targetY: target.y,
+        speed: rng.range(wave.speedMin, wave.speedMax),
+        color: '#f0abfc',
+      });
+      break;
+    case 'bomber':
+    case 'satellite': {
+      const fromLeft = rng.next() < 0.5;
+      const speed = kind === 'bomber' ? rng.range(40, 60) : rng.range(70, 90);
+      state.enemies.push({
+        kind,
+        id: state.nextId++,
+        x: fromLeft ? -30 : CANVAS_WIDTH + 30,
+        y: kind === 'bomber' ? rng.range(120, 200) : rng.range(50, 100),
+        vx: fromLeft ? speed : -speed,
+        bombs: kind === 'bomber' ? 3 : 2,
+        dropTimer: rng.range(1, BOMBER_DROP_INTERVAL),
+        color: kind === 'bomber' ? '#fbbf24' : '#a5f3fc',
+      });
+      break;
+    }
+  }
+  const entered = state.enemies[state.enemies.length - 1];
+  state.events.push({ type: 'incoming', kind, x: entered.x });
+}
+
+/**
+ * Index of the live battery with ammo horizontally closest to `x`, or -1 if
+ * none can fire. `owners` and `player` limit the choice to that player's batteries.
+ */
+export function selectBattery(batteries: Battery[], x: number, owners: number[] | null = null, player?: number): number {
+  let nearest = -1;
+  let minDist = Infinity;
+
+  batteries.forEach((b, i) => {
+    if (!b.destroyed && b.ammo > 0 && ownsBattery(owners, player, i)) {
+      const d = Math.abs(b.x - x);
+      if (d < minDist) {
+        minDist = d;
+        nearest = i;
+      }
+    }
+  });
+
+  return nearest;
+}
+
+/** Whether `player` may fire from battery `index`; anyone may outside co-op or when no player is named. */
+export function ownsBattery(owners: number[] | null, player: number | undefined, index: number) {
+  return !owners || player === undefined || owners[index] === player;
+}
+
+function fire(state: GameState, command: FireCommand) {
+  const { batteryOwners } = state.options;
+  const index = command.battery ?? selectBattery(state.batteries, command.x, batteryOwners, command.player);
+  const battery = state.batteries[index];
+  if (!battery || battery.destroyed || battery.ammo <= 0) return;
+  if (!ownsBattery(batteryOwners, command.player, index)) return;
+
+  battery.ammo -= 1;
+  const { guidance } = state.options;
+  const target = guidance === 'lockOn' ? nearestEnemy(state.enemies, command, LOCK_ON_RANGE) : null;
+  state.missiles.push({
+    id: state.nextId++,
+    startX: battery.x,
+    startY: battery.y,
+    x: battery.x,
+    y: battery.y,
+    destX: command.x,
+    destY: command.y,
+    aimX: command.x,
+    aimY: command.y,
+    speed: interceptorSpeed(state.upgrades),
+    guidance,
+    targetId: target ? target.id : null,
+    battery: index,
+  });
+  state.events.push({ type: 'launch', battery: index, x: command.x, y: command.y });
+}
+
+function detonate(state: GameState, source: ExplosionSource, x: number, y: number, maxRadius = EXPLOSION_RADIUS_MAX, battery: number | null = null) {
+  state.explosions.push({ id: state.nextId++, source, battery, x, y, radius: 2, maxRadius, growing: true });
+}
+
+/** Damage an impact at (x, y) deals to a structure, or 0 if its blast doesn't reach it. */
+function impactDamage(s: Structure, halfWidth: number, x: number, y: number) {
+  if (Math.hypot(s.x - x, s.y - y) < DIRECT_HIT_RANGE) return DIRECT_HIT_DAMAGE;
+  const dx = Math.max(0, Math.abs(s.x - x) - halfWidth);
+  return Math.hypot(dx, s.y - y) < EXPLOSION_RADIUS_MAX ? SPLASH_DAMAGE : 0;
+}
+
+/** Applies `damage` to a standing structure; a shield soaks up the whole hit. */
+function hitStructure(state: GameState, s: Structure, damage: number): 'damaged' | 'destroyed' | null {
+  if (s.destroyed || damage <= 0 || state.invincible) return null;
+  if (s.shielded) {
+    s.shielded = false;
+    state.events.push({ type: 'shieldHit', x: s.x, y: s.y });
+    return null;
+  }
+  s.hp = Math.max(0, s.hp - damage);
+  if (s.hp > 0) return 'damaged';
+  s.destroyed = true;
+  return 'destroyed';
+}
+
+function strikeGround(state: GameState, x: number, y: number) {
+  detonate(state, 'impact', x, y);
+  state.events.push({ type: 'impact', x, y });
+
+  state.batteries.forEach((b, i) => {
+    const result = hitStructure(state, b, impactDamage(b, BATTERY_HALF_WIDTH, x, y));
+    if (result === 'damaged') {
+      state.events.push({ type: 'batteryDamaged', battery: i, hp: b.hp });
+    } else if (result === 'destroyed') {
+      state.events.push({ type: 'batteryDestroyed', battery: i, ammoLost: b.ammo });
+      b.ammo = 0;
+    }
+  });
+  state.cities.forEach((c, i) => {
+    const result = hitStructure(state, c, impactDamage(c, CITY_HALF_WIDTH, x, y));
+    if (result === 'damaged') {
+      state.events.push({ type: 'cityDamaged', city: i, hp: c.hp });
+    } else if (result === 'destroyed') {
+      state.events.push({ type: 'cityDestroyed', city: i });
+    }
+  });
+}
+
+/** Moves a warhead along `dir` and returns false once it has reached its target. */
+function advanceWarhead(state: GameState, enemy: Warhead, dt: number, dir?: Point) {
+  const dx = enemy.targetX - enemy.x;
+  const dy = enemy.targetY - enemy.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  const travel = enemy.speed * dt;
+
+  if (distance > Math.max(2, travel)) {
+    const heading = dir ?? { x: dx / distance, y: dy / distance };
+    enemy.x += heading.x * travel;
+    enemy.y += heading.y * travel;
+    return true;
+  }
+
+  // Hit target!
+  strikeGround(state, enemy.targetX, enemy.targetY);
+  return false;
+}
+
+function splitMirv(state: GameState, mirv: Mirv, rng: Rng) {
+  const targets = liveTargets(state);
+  if (targets.length === 0) return;
+
+  // Shuffle so each warhead goes after a different structure where possible.
+  for (let i = targets.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [targets[i], targets[j]] = [targets[j], targets[i]];
+  }
+  for (let i = 0; i < mirv.warheads; i++) {
+    launchRocket(state, rng, mirv, targets[i % targets.length]);
+  }
+  state.events.push({ type: 'split', x: mirv.x, y: mirv.y, warheads: mirv.warheads });
+}
+
+function evasiveHeading(state: GameState, bomb: SmartBomb): Point {
+  const dx = bomb.targetX - bomb.x;
+  const dy = bomb.targetY - bomb.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  let hx = dx / distance;
+  let hy = dy / distance;
+
+  state.explosions.forEach(exp => {
+    const ex = bomb.x - exp.x;
+    const ey = bomb.y - exp.y;
+    const d = Math.hypot(ex, ey) || 1;
+    const range = exp.radius + SMART_BOMB_EVADE_MARGIN;
+    if (d < range) {
+      // Push away from the blast, mostly sideways so the bomb keeps descending.
+      const push = (1 - d / range) * 3;
+      hx += (ex / d) * push;
+      hy += (ey / d) * push * 0.25;
+    }
+  });
+
+  hy = Math.max(hy, 0.2);
+  const length = Math.hypot(hx, hy);
+  return { x: hx / length, y: hy / length };
+}
+
+function updateBomber(state: GameState, bomber: Bomber, rng: Rng, dt: number) {
+  bomber.x += bomber.vx * dt;
+  if (bomber.x < -40 || bomber.x > CANVAS_WIDTH + 40) return false;
+
+  bomber.dropTimer -= dt;
+  if (bomber.bombs > 0 && bomber.dropTimer <= 0 && bomber.x > 0 && bomber.x < CANVAS_WIDTH) {
+    const targets = liveTargets(state);
+    if (targets.length > 0) {
+      launchRocket(state, rng, bomber, targets[rng.int(targets.length)]);
+      bomber.bombs -= 1;
+    }
+    bomber.dropTimer = BOMBER_DROP_INTERVAL * rng.range(0.7, 1.3);
+  }
+  return true;
+}
+
+function updateEnemies(state: GameState, rng: Rng, dt: number) {
+  const current = state.enemies;
+  state.enemies = [];
+
+  // Newly launched rockets are appended to `state.enemies` while we iterate.
+  current.forEach(enemy => {
+    let alive: boolean;
+    switch (enemy.kind) {
+      case 'rocket':
+        alive = advanceWarhead(state, enemy, dt);
+        break;
+      case 'mirv':
+        alive = advanceWarhead(state, enemy, dt);
+        if (alive && enemy.y >= enemy.splitY) {
+          splitMirv(state, enemy, rng);
+          alive = false;
+        }
+        break;
+      case 'smartBomb':
+        alive = advanceWarhead(state, enemy, dt, evasiveHeading(state, enemy));
+        break;
+      case 'bomber':
+      case 'satellite':
+        alive = updateBomber(state, enemy, rng, dt);
+        break;
+    }
+    if (alive) state.enemies.push(enemy);
+  });
+}
+
+function updateMissiles(state: GameState, dt: number) {
+  state.missiles = state.missiles.filter(missile => {
+    if (missile.guidance === 'heatSeeking') {
+      const nearest = nearestEnemy(state.enemies, missile, HEAT_SEEK_RANGE);
+      missile.targetId = nearest ? nearest.id : null;
+    }
+
+    // Home in on the tracked enemy; once it is gone, carry on to its last known position.
+    const target = missile.targetId === null ? undefined : state.enemies.find(e => e.id === missile.targetId);
+    if (target) {
+      missile.destX = target.x;
+      missile.destY = target.y;
+    } else {
+      missile.targetId = null;
+    }
+
+    const travel = missile.speed * dt;
+    const dx = missile.destX - missile.x;
+    const dy = missile.destY - missile.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance < travel) {
+      detonate(state, 'interceptor', missile.destX, missile.destY, interceptorBlastRadius(state.upgrades), missile.battery);
+      return false;
+    }
+
+    missile.x += (dx / distance) * travel;
+    missile.y += (dy / distance) * travel;
+    return true;
+  });
+}
+
+function updateExplosions(state: GameState, dt: number) {
+  const growth = EXPLOSION_GROWTH_RATE * dt;
+
+  state.explosions = state.explosions.filter(exp => {
+    if (exp.growing) {
+      exp.radius += growth;
+      if (exp.radius >= exp.maxRadius) {
+        exp.growing = false;
+      }
+    } else {
+      exp.radius -= growth;
+      if (exp.radius <= 0) return false;
+    }
+
+    // Check collision with enemies
+    state.enemies = state.enemies.filter(enemy => {
+      if (Math.hypot(enemy.x - exp.x, enemy.y - exp.y) >= exp.radius) return true;
+      const points = ENEMY_SCORES[enemy.kind];
+      state.score += points;
+      state.credits += points;
+      if (exp.battery !== null) state.playerScores[state.options.batteryOwners?.[exp.battery] ?? 0] += points;
+      state.events.push({
+        type: 'intercept',
+        kind: enemy.kind,
+        x: enemy.x,
+        y: enemy.y,
+        points,
+        explosion: exp.id,
+        source: exp.source,
+      });
+      return false;
+    });
+    return true;
+  });
+}
+
+/** Fires a versus attacker's rocket if the wave has any left and the launcher has cooled down. */
+function launch(state: GameState, rng: Rng, command: LaunchCommand) {
+  const wave = currentWave(state);
+  if (!state.options.versus || state.waveSpawned >= wave.enemies || state.launchCooldown > 0) return;
+  const targets = liveTargets(state);
+  if (targets.length === 0) return;
+
+  const target = targets.reduce((best, t) => (Math.abs(t.x - command.targetX) < Math.abs(best.x - command.targetX) ? t : best));
+  const x = Math.max(0, Math.min(CANVAS_WIDTH, command.x));
+  launchRocket(state, rng, { x, y: 0 }, target);
+  state.events.push({ type: 'incoming', kind: 'rocket', x });
+  state.waveSpawned += 1;
+  state.launchCooldown = wave.spawnInterval * VERSUS_LAUNCH_GAP;
+  // Hold the automatic spawner back while the attacker is active.
+  state.spawnTimer = Math.max(state.spawnTimer, wave.spawnInterval * VERSUS_IDLE_SPAWN);
+}
+
+function updateSpawns(state: GameState, rng: Rng, dt: number) {
+  const wave = currentWave(state);
+  if (state.waveSpawned >= wave.enemies) return;
+
+  state.spawnTimer -= dt;
+  if (state.spawnTimer <= 0) {
+    spawnEnemy(state, rng);
+    state.waveSpawned += 1;
+    state.spawnTimer += wave.spawnInterval * rng.range(0.5, 1.5);
+  }
+}
+
+function tallyBonus(state: GameState): WaveBonus {
+  const cities = state.cities.filter(c => !c.destroyed).length;
+  const ammo = state.batteries.reduce((sum, b) => sum + (b.destroyed ? 0 : b.ammo), 0);
+  return {
+    wave: state.wave,
+    cities,
+    ammo,
+    cityPoints: cities * CITY_BONUS,
+    ammoPoints: ammo * AMMO_BONUS,
+  };
+}
+
+/** Ends a scenario with a score goal as won once the goal is met, even mid-wave. */
+function reachedTargetScore(state: GameState) {
+  const win = state.options.scenario?.win;
+  if (win?.type !== 'score' || state.score < win.score) return false;
+  state.status = 'won';
+  state.events.push({ type: 'won' });
+  return true;
+}
+
+function checkOutcome(state: GameState) {
+  if (state.batteries.every(b => b.destroyed) || state.cities.every(c => c.destroyed)) {
+    state.status = 'lost';
+    state.events.push({ type: 'lost' });
+    return;
+  }
+  if (reachedTargetScore(state)) return;
+
+  const waveCleared =
+    state.waveSpawned >= currentWave(state).enemies &&
+    state.enemies.length === 0 &&
+    state.missiles.length === 0 &&
+    state.explosions.length === 0;
+  if (!waveCleared) return;
+
+  const bonus = tallyBonus(state);
+  state.bonus = bonus;
+  state.score += bonus.cityPoints + bonus.ammoPoints;
+  state.credits += bonus.cityPoints + bonus.ammoPoints;
+  // Shields only last for the wave they were bought for.
+  [...state.batteries, ...state.cities].forEach(s => {
+    s.shielded = false;
+  });
+  state.events.push({ type: 'waveComplete', bonus });
+
+  if (reachedTargetScore(state)) return;
+  if (!state.options.endless && state.wave >= state.options.waves) {
+    state.status = 'won';
+    state.events.push({ type: 'won' });
+  } else {
+    state.status = 'waveComplete';
+  }
+}
+
+/**
+ * Advances the simulation by `dt` seconds. The input state is never mutated;
+ * the same state, inputs and `dt` always produce the same result.
+ */
+export function step(state: GameState, inputs: StepInputs, dt: number): GameState {
+  if (state.status !== 'playing') return state;
+
+  const next = cloneState(state);
+  const rng = createRng(next.rngState);
+
+  inputs.fires.forEach(command => fire(next, command));
+  next.launchCooldown = Math.max(0, next.launchCooldown - dt);
+  inputs.launches?.forEach(command => launch(next, rng, command));
+  updateEnemies(next, rng, dt);
+  updateMissiles(next, dt);
+  updateExplosions(next, dt);
+
+  updateSpawns(next, rng, dt);
+  checkOutcome(next);
+
+  next.time += dt;
+  next.rngState = rng.state;
+  return next;
+}
+
+// --- Debug console ---
+// These bend the rules, so a game they touch no longer matches its replay.
+
+export function debugSpawn(state: GameState, kind: EnemyKind, count = 1): GameState {
+  const next = cloneState(state);
+  const rng = createRng(next.rngState);
+  for (let i = 0; i < count; i++) spawnEnemy(next, rng, kind);
+  next.rngState = rng.state;
+  return next;
+}
+
+export function debugSetScore(state: GameState, score: number): GameState {
+  return { ...state, score };
+}
+
+export function debugRefillAmmo(state: GameState): GameState {
+  const next = cloneState(state);
+  next.batteries.forEach(b => {
+    if (!b.destroyed) b.ammo = b.maxAmmo;
+  });
+  return next;
+}
+
+export function debugSetInvincible(state: GameState, invincible: boolean): GameState {
+  return { ...state, invincible };
+}
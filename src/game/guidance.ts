@@ -0,0 +1,68 @@
+import type { Enemy, GuidanceMode, Point } from './types';
+
+export const GUIDANCE_MODES: GuidanceMode[] = ['ballistic', 'lockOn', 'heatSeeking'];
+
+/** Closest enemy to `point` within `range`, or null. */
+export function nearestEnemy(enemies: Enemy[], point: Point, range: number): Enemy | null {
+  let nearest: Enemy | null = null;
+  let minDist = range;
+
+  enemies.forEach(e => {
+    const d = Math.hypot(e.x - point.x, e.y - point.y);
+    if (d < minDist) {
+      minDist = d;
+      nearest = e;
+    }
+  });
+
+  return nearest;
+}
+
+/** Current velocity in pixels per second, assuming the enemy keeps its heading. */
+export function enemyVelocity(enemy: Enemy): Point {
+  if ('vx' in enemy) {
+    return { x: enemy.vx, y: 0 };
+  }
+
+  const dx = enemy.targetX - enemy.x;
+  const dy = enemy.targetY - enemy.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  return { x: (dx / distance) * enemy.speed, y: (dy / distance) * enemy.speed };
+}
+
+/**
+ * Where an interceptor launched from `from` at `speed` would meet `enemy`,
+ * or null if it can never catch it. Solves |p + v·t − from| = speed·t for the
+ * earliest positive t.
+ */
+export function predictIntercept(enemy: Enemy, from: Point, speed: number): Point | null {
+  const v = enemyVelocity(enemy);
+  const rx = enemy.x - from.x;
+  const ry = enemy.y - from.y;
+
+  const a = v.x * v.x + v.y * v.y - speed * speed;
+  const b = 2 * (rx * v.x + ry * v.y);
+  const c = rx * rx + ry * ry;
+
+  let t: number;
+  if (Math.abs(a) < 1e-9) {
+    if (Math.abs(b) < 1e-9) return null;
+    t = -c / b;
+  } else {
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return null;
+    const root = Math.sqrt(disc);
+    const t1 = (-b - root) / (2 * a);
+    const t2 = (-b + root) / (2 * a);
+    t = Math.min(t1, t2) > 0 ? Math.min(t1, t2) : Math.max(t1, t2);
+  }
+  if (!(t > 0)) return null;
+
+  // Warheads stop at their target, so never predict past it.
+  if (!('vx' in enemy)) {
+    const remaining = Math.hypot(enemy.targetX - enemy.x, enemy.targetY - enemy.y) / enemy.speed;
+    if (t > remaining) return null;
+  }
+
+  return { x: enemy.x + v.x * t, y: enemy.y + v.y * t };
+}
@@ -0,0 +1,35 @@
+import type { Entity, GameState } from './types';
+
+function byId<T extends Entity>(items: T[]) {
+  return new Map(items.map(item => [item.id, item]));
+}
+
+/**
+ * Blends entity positions between two consecutive simulation states so the
+ * renderer can draw smoothly at any display refresh rate. `alpha` is the
+ * fraction of a fixed step that has elapsed since `next` was produced.
+ */
+export function interpolate(prev: GameState, next: GameState, alpha: number): GameState {
+  if (prev === next || alpha >= 1) return next;
+
+  const lerp = (a: number, b: number) => a + (b - a) * alpha;
+  const enemies = byId(prev.enemies);
+  const missiles = byId(prev.missiles);
+  const explosions = byId(prev.explosions);
+
+  return {
+    ...next,
+    enemies: next.enemies.map(e => {
+      const p = enemies.get(e.id);
+      return p ? { ...e, x: lerp(p.x, e.x), y: lerp(p.y, e.y) } : e;
+    }),
+    missiles: next.missiles.map(m => {
+      const p = missiles.get(m.id);
+      return p ? { ...m, x: lerp(p.x, m.x), y: lerp(p.y, m.y) } : m;
+    }),
+    explosions: next.explosions.map(ex => {
+      const p = explosions.get(ex.id);
+      return p ? { ...ex, radius: lerp(p.radius, ex.radius) } : ex;
+    }),
+  };
+}
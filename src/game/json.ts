@@ -0,0 +1,39 @@
+// --- Guards for decoded JSON: files, saves and storage are checked before they're trusted ---
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+export function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** A finite number within the inclusive `[min, max]` at the start of `limits`. */
+export function isInRange(value: unknown, [min, max]: readonly number[]): value is number {
+  return isNumber(value) && value >= min && value <= max;
+}
+
+export function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return options.includes(value as T);
+}
+
+export function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+export function isArrayOf<T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] {
+  return Array.isArray(value) && value.every(isItem);
+}
+
+/** Checks an object field by field; `shape` has to name a guard for every field of `T`. */
+export function hasShape<T>(value: unknown, shape: { [K in keyof T]-?: (field: unknown) => boolean }): value is T {
+  return isRecord(value) && Object.entries(shape).every(([key, isField]) => (isField as (field: unknown) => boolean)(value[key]));
+}
@@ -0,0 +1,104 @@
+import type { EnemyKind } from './types';
+
+export interface Palette {
+  background: string;
+  ground: string;
+  /** Fixed colour per enemy kind; `null` keeps each enemy's own randomised colour. */
+  enemies: Record<EnemyKind, string> | null;
+  missile: string;
+  target: string;
+  battery: string;
+  ammoTrack: string;
+  ammoLow: string;
+  city: string;
+  cityWindow: string;
+  ruins: string;
+  rubble: string;
+  /** Inner, middle and outer colour stops of an explosion. */
+  explosion: [string, string, string];
+  crosshair: string;
+  shield: string;
+  /** Multiplier applied to stroke widths. */
+  lineScale: number;
+}
+
+export type PaletteName = 'default' | 'colorblind';
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  default: {
+    background: '#050505',
+    ground: '#222',
+    enemies: null,
+    missile: '#fff',
+    target: '#f00',
+    battery: '#4ade80',
+    ammoTrack: '#333',
+    ammoLow: '#ef4444',
+    city: '#60a5fa',
+    cityWindow: '#1e40af',
+    ruins: '#444',
+    rubble: '#333',
+    explosion: ['rgba(255, 255, 255, 0.9)', 'rgba(255, 200, 0, 0.7)', 'rgba(255, 0, 0, 0)'],
+    crosshair: '#4ade80',
+    shield: '#22d3ee',
+    lineScale: 1,
+  },
+  // Okabe-Ito colours, distinguishable under the common forms of colour blindness.
+  colorblind: {
+    background: '#050505',
+    ground: '#2a2a2a',
+    enemies: {
+      rocket: '#E69F00',
+      mirv: '#D55E00',
+      smartBomb: '#CC79A7',
+      bomber: '#F0E442',
+      satellite: '#F0E442',
+    },
+    missile: '#fff',
+    target: '#F0E442',
+    battery: '#009E73',
+    ammoTrack: '#333',
+    ammoLow: '#D55E00',
+    city: '#56B4E9',
+    cityWindow: '#0072B2',
+    ruins: '#555',
+    rubble: '#3a3a3a',
+    explosion: ['rgba(255, 255, 255, 0.9)', 'rgba(240, 228, 66, 0.7)', 'rgba(230, 159, 0, 0)'],
+    crosshair: '#56B4E9',
+    shield: '#56B4E9',
+    lineScale: 1,
+  },
+};
+
+const HIGH_CONTRAST: Palette = {
+  background: '#000',
+  ground: '#9ca3af',
+  enemies: {
+    rocket: '#ffff00',
+    mirv: '#ff8800',
+    smartBomb: '#ff00ff',
+    bomber: '#00ffff',
+    satellite: '#00ffff',
+  },
+  missile: '#fff',
+  target: '#fff',
+  battery: '#00ff00',
+  ammoTrack: '#555',
+  ammoLow: '#ff0000',
+  city: '#00aaff',
+  cityWindow: '#000',
+  ruins: '#777',
+  rubble: '#666',
+  explosion: ['rgba(255, 255, 255, 1)', 'rgba(255, 255, 0, 0.9)', 'rgba(255, 128, 0, 0)'],
+  crosshair: '#fff',
+  shield: '#00ffff',
+  lineScale: 1.75,
+};
+
+export function resolvePalette(name: PaletteName, highContrast: boolean): Palette {
+  if (!highContrast) return PALETTES[name];
+  // Keep the colour-blind friendly hues but with the high-contrast background and strokes.
+  return name === 'colorblind'
+    ? { ...HIGH_CONTRAST, enemies: PALETTES.colorblind.enemies, battery: '#009E73', city: '#56B4E9' }
+    : HIGH_CONTRAST;
+}
@@ -0,0 +1,259 @@
+import type { Palette } from './palettes';
+import { groundY, terrainOf } from './scenario';
+import type { EnemyKind, GameEvent, GameState, Point } from './types';
+
+// --- Cosmetic effects: sparks, smoke, debris, rocket trails and screen shake ---
+// These live outside the deterministic game state and may use Math.random freely.
+
+export type EffectsQuality = 'off' | 'low' | 'high';
+
+type ParticleKind = 'spark' | 'smoke' | 'cityDebris' | 'batteryDebris';
+
+interface Particle {
+  alive: boolean;
+  kind: ParticleKind;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  /** Seconds left to live, and the total it started with. */
+  life: number;
+  maxLife: number;
+  size: number;
+}
+
+/** Arcade-style line from where an enemy entered to where it is now. */
+interface Trail {
+  kind: EnemyKind;
+  color: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  /** Seconds since its enemy disappeared, or null while it is still in flight. */
+  fading: number | null;
+  smokeTimer: number;
+}
+
+const POOL_SIZE = 600;
+const GRAVITY = 320;
+const TRAIL_FADE = 1.2;
+const SMOKE_INTERVAL = 0.06;
+const SHAKE_DECAY = 7;
+const MAX_SHAKE = 12;
+const TRAILED_KINDS: EnemyKind[] = ['rocket', 'mirv', 'smartBomb'];
+
+const BUDGETS: Record<Exclude<EffectsQuality, 'off'>, { sparks: number; debris: number; smoke: boolean }> = {
+  low: { sparks: 8, debris: 6, smoke: false },
+  high: { sparks: 24, debris: 16, smoke: true },
+};
+
+export interface ParticleSystem {
+  configure(options: { quality: EffectsQuality; shake: boolean }): void;
+  /** Spawns effects for the events of one simulation step. */
+  handleEvents(events: GameEvent[], state: GameState): void;
+  /** Advances particles, trails and shake by `dt` seconds of game time. */
+  update(dt: number, state: GameState): void;
+  /** Drawn under the enemies. */
+  drawTrails(ctx: CanvasRenderingContext2D, palette: Palette): void;
+  /** Drawn over everything but the aiming aids. */
+  drawParticles(ctx: CanvasRenderingContext2D, palette: Palette): void;
+  shakeOffset(): Point;
+  reset(): void;
+}
+
+function random(min: number, max: number) {
+  return min + Math.random() * (max - min);
+}
+
+export function createParticleSystem(): ParticleSystem {
+  const pool: Particle[] = Array.from({ length: POOL_SIZE }, () => ({
+    alive: false, kind: 'spark', x: 0, y: 0, vx: 0, vy: 0, life: 0, maxLife: 0, size: 0,
+  }));
+  let cursor = 0;
+  const trails = new Map<number, Trail>();
+  let quality: EffectsQuality = 'high';
+  let shakeEnabled = true;
+  let shake = 0;
+
+  const emit = (kind: ParticleKind, x: number, y: number, vx: number, vy: number, life: number, size: number) => {
+    // Take the next free slot; when the pool is full, recycle the one at the cursor.
+    let index = cursor;
+    for (let i = 0; i < POOL_SIZE; i++) {
+      const candidate = (cursor + i) % POOL_SIZE;
+      if (!pool[candidate].alive) {
+        index = candidate;
+        break;
+      }
+    }
+    cursor = (index + 1) % POOL_SIZE;
+    Object.assign(pool[index], { alive: true, kind, x, y, vx, vy, life, maxLife: life, size });
+  };
+
+  const sparks = (x: number, y: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const angle = random(0, Math.PI * 2);
+      const speed = random(60, 220);
+      emit('spark', x, y, Math.cos(angle) * speed, Math.sin(angle) * speed, random(0.3, 0.7), random(1, 2.5));
+    }
+  };
+
+  const debris = (kind: ParticleKind, x: number, y: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      emit(kind, x + random(-12, 12), y - random(0, 10), random(-90, 90), random(-220, -80), random(1.8, 3), random(2, 4.5));
+    }
+  };
+
+  const reset = () => {
+    pool.forEach(p => {
+      p.alive = false;
+    });
+    trails.clear();
+    shake = 0;
+  };
+
+  const addShake = (amount: number) => {
+    if (shakeEnabled) shake = Math.min(MAX_SHAKE, shake + amount);
+  };
+
+  return {
+    configure(options) {
+      quality = options.quality;
+      shakeEnabled = options.shake && quality !== 'off';
+      if (quality === 'off') reset();
+    },
+    handleEvents(events, state) {
+      if (quality === 'off') return;
+      const budget = BUDGETS[quality];
+      events.forEach(event => {
+        switch (event.type) {
+          case 'intercept':
+            sparks(event.x, event.y, budget.sparks);
+            break;
+          case 'impact':
+            sparks(event.x, event.y, budget.sparks / 2);
+            addShake(4);
+            break;
+          case 'cityDestroyed': {
+            const city = state.cities[event.city];
+            debris('cityDebris', city.x, city.y, budget.debris);
+            addShake(6);
+            break;
+          }
+          case 'batteryDestroyed': {
+            const battery = state.batteries[event.battery];
+            debris('batteryDebris', battery.x, battery.y, budget.debris);
+            addShake(8);
+            break;
+          }
+        }
+      });
+    },
+    update(dt, state) {
+      if (quality === 'off') return;
+
+      const terrain = terrainOf(state.options);
+      pool.forEach(p => {
+        if (!p.alive) return;
+        p.life -= dt;
+        if (p.life <= 0) {
+          p.alive = false;
+          return;
+        }
+        if (p.kind === 'smoke') {
+          // Smoke drifts up and spreads out as it thins.
+          p.vy -= 10 * dt;
+          p.size += 6 * dt;
+        } else {
+          p.vy += GRAVITY * dt * (p.kind === 'spark' ? 0.3 : 1);
+        }
+        p.x += p.vx * dt;
+        p.y += p.vy * dt;
+        const ground = groundY(terrain, p.x);
+        if (p.kind !== 'smoke' && p.y > ground) {
+          p.y = ground;
+          p.vy *= -0.3;
+          p.vx *= 0.6;
+        }
+      });
+
+      const seen = new Set<number>();
+      state.enemies.forEach(enemy => {
+        if (!TRAILED_KINDS.includes(enemy.kind)) return;
+        seen.add(enemy.id);
+        let trail = trails.get(enemy.id);
+        if (!trail) {
+          trail = { kind: enemy.kind, color: enemy.color, x0: enemy.x, y0: enemy.y, x1: enemy.x, y1: enemy.y, fading: null, smokeTimer: 0 };
+          trails.set(enemy.id, trail);
+        }
+        trail.x1 = enemy.x;
+        trail.y1 = enemy.y;
+
+        trail.smokeTimer -= dt;
+        if (BUDGETS[quality].smoke && trail.smokeTimer <= 0) {
+          trail.smokeTimer = SMOKE_INTERVAL;
+          emit('smoke', enemy.x, enemy.y, random(-5, 5), random(-5, 5), random(0.6, 1), random(1.5, 2.5));
+        }
+      });
+      trails.forEach((trail, id) => {
+        if (seen.has(id)) return;
+        trail.fading = (trail.fading ?? 0) + dt;
+        if (trail.fading >= TRAIL_FADE) trails.delete(id);
+      });
+
+      shake *= Math.exp(-SHAKE_DECAY * dt);
+      if (shake < 0.1) shake = 0;
+    },
+    drawTrails(ctx, palette) {
+      if (quality === 'off') return;
+      ctx.lineWidth = palette.lineScale;
+      trails.forEach(trail => {
+        ctx.globalAlpha = 0.45 * (trail.fading === null ? 1 : 1 - trail.fading / TRAIL_FADE);
+        ctx.strokeStyle = palette.enemies?.[trail.kind] ?? trail.color;
+        ctx.beginPath();
+        ctx.moveTo(trail.x0, trail.y0);
+        ctx.lineTo(trail.x1, trail.y1);
+        ctx.stroke();
+      });
+      ctx.globalAlpha = 1;
+    },
+    drawParticles(ctx, palette) {
+      if (quality === 'off') return;
+      pool.forEach(p => {
+        if (!p.alive) return;
+        const fade = p.life / p.maxLife;
+        switch (p.kind) {
+          case 'spark':
+            ctx.globalAlpha = fade;
+            ctx.fillStyle = fade > 0.5 ? palette.explosion[0] : palette.explosion[1];
+            break;
+          case 'smoke':
+            ctx.globalAlpha = 0.25 * fade;
+            ctx.fillStyle = palette.ruins;
+            break;
+          case 'cityDebris':
+            ctx.globalAlpha = Math.min(1, fade * 2);
+            ctx.fillStyle = palette.city;
+            break;
+          case 'batteryDebris':
+            ctx.globalAlpha = Math.min(1, fade * 2);
+            ctx.fillStyle = palette.battery;
+            break;
+        }
+        if (p.kind === 'smoke') {
+          ctx.beginPath();
+          ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+          ctx.fill();
+        } else {
+          ctx.fillRect(p.x - p.size / 2, p.y - p.size / 2, p.size, p.size);
+        }
+      });
+      ctx.globalAlpha = 1;
+    },
+    shakeOffset() {
+      if (shake === 0) return { x: 0, y: 0 };
+      return { x: random(-shake, shake), y: random(-shake, shake) };
+    },
+    reset,
+  };
+}
@@ -0,0 +1,446 @@
+import { BATTERY_HALF_WIDTH, CANVAS_HEIGHT, CANVAS_WIDTH, CITY_HALF_WIDTH } from './constants';
+import { handlePosition, listHandles, type EditorHandle } from './editor';
+import type { Palette } from './palettes';
+import type { ParticleSystem } from './particles';
+import { terrainOf } from './scenario';
+import type { Bomber, Enemy, GameState, Mirv, Point, Rocket, Scenario, SmartBomb, Structure } from './types';
+
+export interface RenderOptions {
+  palette: Palette;
+  /** Draws explosions as soft, flat discs instead of bright flashes. */
+  reducedMotion: boolean;
+  /** Aim point to mark with a crosshair, or null to hide it. */
+  crosshair: Point | null;
+  /** Second local co-op player's crosshair, drawn in the target color. */
+  partnerCrosshair: Point | null;
+  /** Predicted meeting point of an interceptor and the enemy nearest the cursor. */
+  intercept: { from: Point; at: Point } | null;
+  /** Path of the rocket a versus attacker is lining up, from its entry point to its target. */
+  launchAim: { from: Point; at: Point } | null;
+  /** Cosmetic effects layered over the game, or null to draw it plain. */
+  particles: ParticleSystem | null;
+}
+
+// --- Enemies ---
+
+function drawRocket(ctx: CanvasRenderingContext2D, r: Rocket, color: string, lineScale: number) {
+  ctx.beginPath();
+  ctx.moveTo(r.x, r.y);
+  ctx.lineTo(r.x - (r.targetX - r.x) * 0.05, r.y - (r.targetY - r.y) * 0.05);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2 * lineScale;
+  ctx.stroke();
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(r.x, r.y, 3, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function drawMirv(ctx: CanvasRenderingContext2D, m: Mirv, color: string, lineScale: number) {
+  ctx.beginPath();
+  ctx.moveTo(m.x, m.y);
+  ctx.lineTo(m.x - (m.targetX - m.x) * 0.08, m.y - (m.targetY - m.y) * 0.08);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3 * lineScale;
+  ctx.stroke();
+
+  // Bus with one pip per warhead
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(m.x, m.y, 5, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#fff';
+  for (let i = 0; i < m.warheads; i++) {
+    const angle = (i / m.warheads) * Math.PI * 2;
+    ctx.fillRect(m.x + Math.cos(angle) * 3 - 1, m.y + Math.sin(angle) * 3 - 1, 2, 2);
+  }
+}
+
+function drawSmartBomb(ctx: CanvasRenderingContext2D, b: SmartBomb, color: string) {
+  ctx.save();
+  ctx.translate(b.x, b.y);
+  ctx.rotate(Math.PI / 4);
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 8;
+  ctx.fillStyle = color;
+  ctx.fillRect(-4, -4, 8, 8);
+  ctx.restore();
+}
+
+function drawBomber(ctx: CanvasRenderingContext2D, b: Bomber, color: string) {
+  const dir = Math.sign(b.vx);
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(b.x + 18 * dir, b.y);
+  ctx.lineTo(b.x - 14 * dir, b.y - 5);
+  ctx.lineTo(b.x - 14 * dir, b.y + 5);
+  ctx.fill();
+
+  // Wings and tail
+  ctx.beginPath();
+  ctx.moveTo(b.x + 2 * dir, b.y);
+  ctx.lineTo(b.x - 6 * dir, b.y - 14);
+  ctx.lineTo(b.x - 6 * dir, b.y + 14);
+  ctx.fill();
+  ctx.fillRect(b.x - 16 * dir - 2, b.y - 8, 4, 16);
+}
+
+function drawSatellite(ctx: CanvasRenderingContext2D, s: Bomber, color: string) {
+  ctx.fillStyle = color;
+  ctx.fillRect(s.x - 5, s.y - 5, 10, 10);
+
+  // Solar panels
+  ctx.fillStyle = '#2563eb';
+  ctx.fillRect(s.x - 20, s.y - 3, 12, 6);
+  ctx.fillRect(s.x + 8, s.y - 3, 12, 6);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(s.x, s.y - 5);
+  ctx.lineTo(s.x, s.y - 10);
+  ctx.stroke();
+}
+
+function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy, palette: Palette) {
+  const color = palette.enemies?.[enemy.kind] ?? enemy.color;
+  switch (enemy.kind) {
+    case 'rocket':
+      return drawRocket(ctx, enemy, color, palette.lineScale);
+    case 'mirv':
+      return drawMirv(ctx, enemy, color, palette.lineScale);
+    case 'smartBomb':
+      return drawSmartBomb(ctx, enemy, color);
+    case 'bomber':
+      return drawBomber(ctx, enemy, color);
+    case 'satellite':
+      return drawSatellite(ctx, enemy, color);
+  }
+}
+
+function drawCrosshair(ctx: CanvasRenderingContext2D, p: Point, palette: Palette, color = palette.crosshair) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5 * palette.lineScale;
+  ctx.beginPath();
+  ctx.arc(p.x, p.y, 10, 0, Math.PI * 2);
+  ctx.moveTo(p.x - 16, p.y);
+  ctx.lineTo(p.x - 5, p.y);
+  ctx.moveTo(p.x + 5, p.y);
+  ctx.lineTo(p.x + 16, p.y);
+  ctx.moveTo(p.x, p.y - 16);
+  ctx.lineTo(p.x, p.y - 5);
+  ctx.moveTo(p.x, p.y + 5);
+  ctx.lineTo(p.x, p.y + 16);
+  ctx.stroke();
+}
+
+/**
+ * Scorches a structure in proportion to the hit points it has lost: bites out
+ * of its top edge plus a crack running down from the first one.
+ */
+function drawDamage(ctx: CanvasRenderingContext2D, s: Structure, halfWidth: number, top: number, palette: Palette) {
+  const lost = s.maxHp - s.hp;
+  if (lost <= 0) return;
+
+  ctx.fillStyle = palette.ruins;
+  for (let i = 0; i < lost; i++) {
+    // Spread the bites across the footprint in a fixed order so they don't flicker.
+    const bx = s.x - halfWidth + ((i * 2 + 1) * halfWidth) / (s.maxHp - 1 || 1);
+    ctx.beginPath();
+    ctx.moveTo(bx - 5, top);
+    ctx.lineTo(bx, top + 6);
+    ctx.lineTo(bx + 5, top);
+    ctx.fill();
+  }
+
+  ctx.strokeStyle = palette.ruins;
+  ctx.lineWidth = palette.lineScale;
+  ctx.beginPath();
+  ctx.moveTo(s.x - halfWidth + halfWidth / (s.maxHp - 1 || 1), top + 6);
+  ctx.lineTo(s.x - 2, top + 9);
+  ctx.lineTo(s.x + 1, top + 13);
+  ctx.stroke();
+}
+
+/** Broken wall stubs and a rubble heap where a city stood. */
+function drawRuins(ctx: CanvasRenderingContext2D, x: number, y: number, palette: Palette) {
+  ctx.fillStyle = palette.ruins;
+  ctx.beginPath();
+  ctx.moveTo(x - 15, y);
+  ctx.lineTo(x - 15, y - 9);
+  ctx.lineTo(x - 11, y - 6);
+  ctx.lineTo(x - 8, y - 11);
+  ctx.lineTo(x - 4, y - 4);
+  ctx.lineTo(x + 2, y - 7);
+  ctx.lineTo(x + 6, y - 3);
+  ctx.lineTo(x + 10, y - 8);
+  ctx.lineTo(x + 15, y - 2);
+  ctx.lineTo(x + 15, y);
+  ctx.fill();
+  ctx.fillStyle = palette.rubble;
+  ctx.fillRect(x - 12, y - 3, 4, 3);
+  ctx.fillRect(x + 3, y - 2, 5, 2);
+}
+
+/** Upper half-dome over a shielded structure. */
+function drawShield(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, palette: Palette) {
+  ctx.save();
+  ctx.globalAlpha = 0.6;
+  ctx.strokeStyle = palette.shield;
+  ctx.lineWidth = 1.5 * palette.lineScale;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, Math.PI, 0);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawTargetX(ctx: CanvasRenderingContext2D, x: number, y: number) {
+  ctx.beginPath();
+  ctx.moveTo(x - 5, y - 5);
+  ctx.lineTo(x + 5, y + 5);
+  ctx.moveTo(x + 5, y - 5);
+  ctx.lineTo(x - 5, y + 5);
+  ctx.stroke();
+}
+
+function drawLockBracket(ctx: CanvasRenderingContext2D, x: number, y: number) {
+  const r = 9;
+  const l = 4;
+  ctx.beginPath();
+  [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(([sx, sy]) => {
+    ctx.moveTo(x + sx * r, y + sy * (r - l));
+    ctx.lineTo(x + sx * r, y + sy * r);
+    ctx.lineTo(x + sx * (r - l), y + sy * r);
+  });
+  ctx.stroke();
+}
+
+/** Traces the ground outline as a closed path, ready to fill or stroke. */
+function drawTerrain(ctx: CanvasRenderingContext2D, terrain: number[]) {
+  const span = CANVAS_WIDTH / (terrain.length - 1);
+  ctx.beginPath();
+  ctx.moveTo(0, CANVAS_HEIGHT);
+  terrain.forEach((height, i) => ctx.lineTo(i * span, CANVAS_HEIGHT - height));
+  ctx.lineTo(CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.closePath();
+}
+
+function drawIntercept(ctx: CanvasRenderingContext2D, from: Point, at: Point, palette: Palette, color = palette.crosshair) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = palette.lineScale;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(at.x, at.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  ctx.arc(at.x, at.y, 6, 0, Math.PI * 2);
+  ctx.stroke();
+}
+
+export function drawGame(ctx: CanvasRenderingContext2D, state: GameState, { palette, reducedMotion, crosshair, partnerCrosshair, intercept, launchAim, particles }: RenderOptions) {
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // Background
+  ctx.fillStyle = palette.background;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // Camera shake moves the world but not the aiming aids drawn at the end.
+  const shake = particles?.shakeOffset() ?? { x: 0, y: 0 };
+  ctx.save();
+  ctx.translate(shake.x, shake.y);
+
+  // Ground
+  ctx.fillStyle = palette.ground;
+  drawTerrain(ctx, terrainOf(state.options));
+  ctx.fill();
+
+  particles?.drawTrails(ctx, palette);
+
+  // Draw Enemies
+  state.enemies.forEach(e => drawEnemy(ctx, e, palette));
+
+  // Draw Missiles
+  state.missiles.forEach(m => {
+    ctx.beginPath();
+    ctx.moveTo(m.startX, m.startY);
+    ctx.lineTo(m.x, m.y);
+    ctx.strokeStyle = palette.missile;
+    ctx.lineWidth = palette.lineScale;
+    ctx.stroke();
+
+    ctx.fillStyle = palette.missile;
+    ctx.beginPath();
+    ctx.arc(m.x, m.y, 2, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Draw Target X where the player aimed, and a lock bracket on whatever the missile is tracking
+    ctx.strokeStyle = palette.target;
+    ctx.lineWidth = palette.lineScale;
+    if (m.guidance === 'ballistic') {
+      drawTargetX(ctx, m.destX, m.destY);
+      return;
+    }
+    ctx.globalAlpha = 0.4;
+    drawTargetX(ctx, m.aimX, m.aimY);
+    ctx.globalAlpha = 1;
+    if (m.targetId !== null) drawLockBracket(ctx, m.destX, m.destY);
+  });
+
+  // Draw Explosions
+  state.explosions.forEach(e => {
+    if (reducedMotion) {
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = palette.explosion[1];
+      ctx.beginPath();
+      ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      return;
+    }
+
+    const gradient = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
+    gradient.addColorStop(0, palette.explosion[0]);
+    gradient.addColorStop(0.4, palette.explosion[1]);
+    gradient.addColorStop(1, palette.explosion[2]);
+
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  // Draw Batteries
+  const upgradeLevels = [state.upgrades.blastRadius, state.upgrades.missileSpeed, state.upgrades.ammoCapacity];
+  state.batteries.forEach(b => {
+    if (!b.destroyed) {
+      ctx.fillStyle = palette.battery;
+      ctx.beginPath();
+      ctx.moveTo(b.x - 20, b.y + 20);
+      ctx.lineTo(b.x, b.y - 10);
+      ctx.lineTo(b.x + 20, b.y + 20);
+      ctx.fill();
+      drawDamage(ctx, b, BATTERY_HALF_WIDTH / 2, b.y + 4, palette);
+
+      // Ammo bar
+      const ammoPct = b.ammo / b.maxAmmo;
+      ctx.fillStyle = palette.ammoTrack;
+      ctx.fillRect(b.x - 15, b.y + 10, 30, 4);
+      ctx.fillStyle = ammoPct > 0.3 ? palette.battery : palette.ammoLow;
+      ctx.fillRect(b.x - 15, b.y + 10, 30 * ammoPct, 4);
+
+      // One pip row per upgrade track, so bought levels read at a glance
+      ctx.fillStyle = palette.shield;
+      upgradeLevels.forEach((level, row) => {
+        for (let i = 0; i < level; i++) ctx.fillRect(b.x + 22 + i * 4, b.y + 2 + row * 4, 2, 2);
+      });
+      if (b.shielded) drawShield(ctx, b.x, b.y + 5, 26, palette);
+    } else {
+      ctx.fillStyle = palette.rubble;
+      ctx.beginPath();
+      ctx.arc(b.x, b.y + 10, 15, 0, Math.PI, true);
+      ctx.fill();
+    }
+  });
+
+  // Draw Cities
+  state.cities.forEach(c => {
+    if (!c.destroyed) {
+      ctx.fillStyle = palette.city;
+      ctx.fillRect(c.x - 15, c.y - 15, 30, 15);
+      ctx.fillStyle = palette.cityWindow;
+      ctx.fillRect(c.x - 10, c.y - 10, 5, 5);
+      ctx.fillRect(c.x + 5, c.y - 10, 5, 5);
+      drawDamage(ctx, c, CITY_HALF_WIDTH, c.y - 15, palette);
+      if (c.shielded) drawShield(ctx, c.x, c.y, 22, palette);
+    } else {
+      drawRuins(ctx, c.x, c.y, palette);
+    }
+  });
+
+  particles?.drawParticles(ctx, palette);
+  ctx.restore();
+
+  if (intercept) drawIntercept(ctx, intercept.from, intercept.at, palette);
+  if (launchAim) drawIntercept(ctx, launchAim.from, launchAim.at, palette, palette.target);
+  if (partnerCrosshair) drawCrosshair(ctx, partnerCrosshair, palette, palette.target);
+  if (crosshair) drawCrosshair(ctx, crosshair, palette);
+}
+
+// --- Editor ---
+
+/** Drag handles over a scenario preview; `active` is the one under the pointer or being dragged. */
+export function drawEditor(ctx: CanvasRenderingContext2D, scenario: Scenario, active: EditorHandle | null, palette: Palette) {
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = palette.target;
+  ctx.setLineDash([4, 4]);
+  drawTerrain(ctx, scenario.terrain);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  listHandles(scenario).forEach(handle => {
+    const { x, y } = handlePosition(scenario, handle);
+    const isActive = active?.type === handle.type && active.index === handle.index;
+    ctx.globalAlpha = isActive ? 1 : 0.6;
+    ctx.strokeStyle = isActive ? palette.crosshair : palette.target;
+    ctx.lineWidth = isActive ? 2 : 1;
+    ctx.beginPath();
+    if (handle.type === 'terrain') {
+      ctx.arc(x, y, 5, 0, Math.PI * 2);
+    } else {
+      const halfWidth = handle.type === 'battery' ? BATTERY_HALF_WIDTH : CITY_HALF_WIDTH;
+      ctx.rect(x - halfWidth, y - 20, halfWidth * 2, 24);
+    }
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+// --- Debug ---
+
+/** Collision and targeting geometry for the developer overlay, in logical coordinates. */
+export function drawDebug(ctx: CanvasRenderingContext2D, state: GameState) {
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.font = '9px monospace';
+
+  // Explosion hit circles: enemies whose centre is inside are destroyed.
+  ctx.strokeStyle = '#22d3ee';
+  state.explosions.forEach(e => {
+    ctx.beginPath();
+    ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([2, 3]);
+    ctx.beginPath();
+    ctx.arc(e.x, e.y, e.maxRadius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  });
+
+  // Warhead target lines and ids.
+  state.enemies.forEach(enemy => {
+    if ('targetX' in enemy) {
+      ctx.strokeStyle = 'rgba(248, 113, 113, 0.6)';
+      ctx.beginPath();
+      ctx.moveTo(enemy.x, enemy.y);
+      ctx.lineTo(enemy.targetX, enemy.targetY);
+      ctx.stroke();
+    }
+    ctx.fillStyle = '#fef08a';
+    ctx.fillRect(enemy.x - 1, enemy.y - 1, 2, 2);
+    ctx.fillText(`${enemy.kind}#${enemy.id}`, enemy.x + 4, enemy.y - 4);
+  });
+
+  // Interceptor destinations.
+  ctx.strokeStyle = 'rgba(134, 239, 172, 0.6)';
+  state.missiles.forEach(m => {
+    ctx.beginPath();
+    ctx.moveTo(m.x, m.y);
+    ctx.lineTo(m.destX, m.destY);
+    ctx.stroke();
+  });
+  ctx.restore();
+}
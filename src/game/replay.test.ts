@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_DT } from './constants';
+import { createGame, step } from './engine';
+import { createRecorder, createReplayPlayer, parseReplay, ReplayError, serializeReplay } from './replay';
+import type { FireCommand } from './types';
+
+describe('replays', () => {
+  it('play back to the same state after a round trip through JSON', () => {
+    const recorder = createRecorder(99);
+    let state = createGame(99);
+    for (let tick = 0; tick < 900; tick++) {
+      const fires: FireCommand[] = tick % 40 === 0 ? [{ x: 150 + (tick % 500), y: 250 }] : [];
+      state = step(state, { fires }, FIXED_DT);
+      recorder.recordStep(fires, state);
+    }
+
+    const player = createReplayPlayer(parseReplay(serializeReplay(recorder.finish())));
+    while (player.advance());
+    expect(player.state).toEqual(state);
+  });
+
+  it.each([
+    ['notJson', '{'],
+    ['notReplay', JSON.stringify({ format: 'something-else' })],
+    ['unsupportedVersion', JSON.stringify({ format: 'max-nova-replay', version: 99 })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [[0, 'x', 1, 0]], waves: [] })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [], waves: [], options: { ammo: 'lots' } })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [], waves: [], options: { ammo: [20, 20] } })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [], waves: [], options: { batteryOwners: [-3, -3, -3] } })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [], waves: [], options: { batteryOwners: [0, 1] } })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [], waves: [], options: { ammo: [-5, 0, 1e9] } })],
+    ['corrupt', JSON.stringify({ format: 'max-nova-replay', version: 1, seed: 1, ticks: 10, fires: [], waves: [], options: { waves: 1e9 } })],
+  ])('reject a file with the %s problem', (problem, text) => {
+    expect(() => parseReplay(text)).toThrow(ReplayError);
+    expect(() => parseReplay(text)).toThrow(expect.objectContaining({ problem }));
+  });
+});
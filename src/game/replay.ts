@@ -0,0 +1,319 @@
+import { FIXED_DT } from './constants';
+import { CUSTOM_LIMITS, DIFFICULTIES } from './difficulty';
+import { createGame, DEFAULT_GAME_OPTIONS, purchaseUpgrade, startNextWave, step } from './engine';
+import { GUIDANCE_MODES } from './guidance';
+import { isInRange, isInteger, isNumber, isOneOf, isRecord } from './json';
+import { CLASSIC_BATTERY_X, SCENARIO_LIMITS, validateScenario } from './scenario';
+import { UPGRADE_IDS } from './upgrades';
+import type { FireCommand, GameOptions, GameState, LaunchCommand, UpgradeId } from './types';
+
+// --- Format ---
+
+const REPLAY_FORMAT = 'max-nova-replay';
+const REPLAY_VERSION = 1;
+
+/** `[tick, x, y, battery]`; battery is the one that actually fired, or -1 if none could. */
+export type ReplayFire = [number, number, number, number];
+
+/** `[tick, item, target]`; target is the rebuilt structure's index, or -1 for other items. */
+export type ReplayPurchase = [number, UpgradeId, number];
+
+/** `[tick, x, targetX]` of a versus attacker's launch command. */
+export type ReplayLaunch = [number, number, number];
+
+export interface Replay {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  seed: number;
+  /** Rules the game was played with; recordings without them used the defaults. */
+  options?: Partial<GameOptions>;
+  /** Number of fixed simulation steps in the recording. */
+  ticks: number;
+  fires: ReplayFire[];
+  /** Ticks at which the player started the next wave after a wave-complete screen. */
+  waves: number[];
+  /** Shop purchases made on wave-complete screens; absent in recordings from before the shop. */
+  purchases?: ReplayPurchase[];
+  /** Versus attacker commands; absent outside versus games. */
+  launches?: ReplayLaunch[];
+}
+
+/** Rounds fire coordinates to a tenth of a pixel so replays stay compact and exact. */
+export function quantizeFire(command: FireCommand): FireCommand {
+  return {
+    ...command,
+    x: Math.round(command.x * 10) / 10,
+    y: Math.round(command.y * 10) / 10,
+  };
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/** Why a replay was rejected; the UI turns it into a message in the player's language. */
+export type ReplayProblem = 'notJson' | 'notReplay' | 'unsupportedVersion' | 'corrupt';
+
+export class ReplayError extends Error {
+  constructor(readonly problem: ReplayProblem) {
+    super(`Replay rejected: ${problem}`);
+    this.name = 'ReplayError';
+  }
+}
+
+export function parseReplay(text: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayError('notJson');
+  }
+  return validateReplay(data);
+}
+
+const OPTION_CHECKS: Record<keyof GameOptions, (value: unknown) => boolean> = {
+  guidance: value => isOneOf(value, GUIDANCE_MODES),
+  difficulty: value => isOneOf(value, DIFFICULTIES),
+  enemySpeed: value => isInRange(value, CUSTOM_LIMITS.enemySpeed),
+  spawnRate: value => isInRange(value, CUSTOM_LIMITS.spawnRate),
+  ammo: value => Array.isArray(value) && value.every(isInteger),
+  // Ranges for these two depend on the layout and are checked below.
+  waves: value => isInteger(value),
+  endless: value => typeof value === 'boolean',
+  // Checked in full by `validateScenario` below.
+  scenario: value => value === null || isRecord(value),
+  daily: value => value === null || typeof value === 'string',
+  practice: value => typeof value === 'boolean',
+  // Two players at most: every battery belongs to player 1 or 2.
+  batteryOwners: value => value === null || (Array.isArray(value) && value.every(owner => owner === 0 || owner === 1)),
+  versus: value => typeof value === 'boolean',
+};
+
+/**
+ * Checks recorded game options field by field and returns the known ones;
+ * fields a recording leaves out fall back to the defaults in `createGame`.
+ */
+export function validateOptions(data: unknown): Partial<GameOptions> {
+  if (!isRecord(data)) throw new ReplayError('corrupt');
+  const options: Record<string, unknown> = {};
+  (Object.keys(OPTION_CHECKS) as (keyof GameOptions)[]).forEach(key => {
+    if (data[key] === undefined) return;
+    if (!OPTION_CHECKS[key](data[key])) throw new ReplayError('corrupt');
+    options[key] = data[key];
+  });
+  if (options.scenario) {
+    try {
+      options.scenario = validateScenario(options.scenario);
+    } catch {
+      throw new ReplayError('corrupt');
+    }
+  }
+  // Every battery in the layout needs an ammo count and, in co-op, an owner. Scenarios have limits
+  // of their own; campaign games stay within the custom panel's.
+  const { ammo, waves, batteryOwners, scenario } = { ...DEFAULT_GAME_OPTIONS, ...(options as Partial<GameOptions>) };
+  const batteries = scenario?.batteries.length ?? CLASSIC_BATTERY_X.length;
+  const limits = scenario ? SCENARIO_LIMITS : CUSTOM_LIMITS;
+  if (
+    ammo.length !== batteries || !ammo.every(a => isInRange(a, limits.ammo))
+    || !isInRange(waves, limits.waves)
+    || (batteryOwners && batteryOwners.length !== batteries)
+  ) {
+    throw new ReplayError('corrupt');
+  }
+  return options as Partial<GameOptions>;
+}
+
+function isFire(value: unknown): value is ReplayFire {
+  return Array.isArray(value) && value.length === 4 && value.every(isNumber);
+}
+
+function isPurchase(value: unknown): value is ReplayPurchase {
+  return Array.isArray(value) && value.length === 3
+    && isInteger(value[0]) && isOneOf(value[1], UPGRADE_IDS) && isInteger(value[2]);
+}
+
+function isLaunch(value: unknown): value is ReplayLaunch {
+  return Array.isArray(value) && value.length === 3 && value.every(isNumber);
+}
+
+/** Checks a list that older recordings may leave out. */
+function optionalList<T>(value: unknown, isItem: (item: unknown) => item is T): T[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(isItem)) throw new ReplayError('corrupt');
+  return value;
+}
+
+/** Checks already-decoded JSON, e.g. a replay embedded in a saved game. */
+export function validateReplay(data: unknown): Replay {
+  if (!isRecord(data) || data.format !== REPLAY_FORMAT) throw new ReplayError('notReplay');
+  if (data.version !== REPLAY_VERSION) throw new ReplayError('unsupportedVersion');
+  const { seed, ticks, fires, waves } = data;
+  if (!isInteger(seed) || !isInteger(ticks) || ticks < 0) throw new ReplayError('corrupt');
+  if (!Array.isArray(fires) || !fires.every(isFire)) throw new ReplayError('corrupt');
+  if (!Array.isArray(waves) || !waves.every(isInteger)) throw new ReplayError('corrupt');
+
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    seed,
+    options: data.options === undefined ? undefined : validateOptions(data.options),
+    ticks,
+    fires,
+    waves,
+    purchases: optionalList(data.purchases, isPurchase),
+    launches: optionalList(data.launches, isLaunch),
+  };
+}
+
+// --- Recording ---
+
+export interface ReplayRecorder {
+  /** Records the commands consumed by one step and the state that step produced. */
+  recordStep(commands: FireCommand[], result: GameState, launches?: LaunchCommand[]): void;
+  recordNextWave(): void;
+  recordPurchase(item: UpgradeId, target?: number): void;
+  finish(): Replay;
+}
+
+export function createRecorder(seed: number, options: Partial<GameOptions> = {}): ReplayRecorder {
+  return resumeRecorder({
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    seed,
+    options,
+    ticks: 0,
+    fires: [],
+    waves: [],
+    purchases: [],
+    launches: [],
+  });
+}
+
+/** Continues a partial recording, such as one saved with an unfinished game. */
+export function resumeRecorder(replay: Replay): ReplayRecorder {
+  const { seed, options } = replay;
+  let tick = replay.ticks;
+  const fires = [...replay.fires];
+  const waves = [...replay.waves];
+  const purchases = [...(replay.purchases ?? [])];
+  const attacks = [...(replay.launches ?? [])];
+
+  return {
+    recordStep(commands, result, launches = []) {
+      launches.forEach(({ x, targetX }) => attacks.push([tick, x, targetX]));
+      const fired = result.events.filter(e => e.type === 'launch');
+      commands.forEach(command => {
+        // Launch events echo the command's coordinates, which identifies the battery that fired.
+        const index = fired.findIndex(e => e.x === command.x && e.y === command.y);
+        const launch = index >= 0 ? fired.splice(index, 1)[0] : null;
+        fires.push([tick, command.x, command.y, launch ? launch.battery : -1]);
+      });
+      tick += 1;
+    },
+    recordNextWave() {
+      waves.push(tick);
+    },
+    recordPurchase(item, target) {
+      purchases.push([tick, item, target ?? -1]);
+    },
+    finish() {
+      return {
+        format: REPLAY_FORMAT,
+        version: REPLAY_VERSION,
+        seed,
+        options,
+        ticks: tick,
+        fires: [...fires],
+        waves: [...waves],
+        purchases: [...purchases],
+        launches: [...attacks],
+      };
+    },
+  };
+}
+
+// --- Playback ---
+
+const CHECKPOINT_INTERVAL = 300;
+
+export interface ReplayPlayer {
+  readonly replay: Replay;
+  readonly tick: number;
+  readonly state: GameState;
+  /** State before the most recent step, for interpolated rendering. */
+  readonly prev: GameState;
+  readonly done: boolean;
+  /** Advances one fixed step; returns false once the recording has ended. */
+  advance(): boolean;
+  seek(tick: number): void;
+}
+
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  const firesByTick = new Map<number, FireCommand[]>();
+  replay.fires.forEach(([tick, x, y, battery]) => {
+    const list = firesByTick.get(tick) ?? [];
+    list.push({ x, y, battery });
+    firesByTick.set(tick, list);
+  });
+  const launchesByTick = new Map<number, LaunchCommand[]>();
+  (replay.launches ?? []).forEach(([tick, x, targetX]) => {
+    launchesByTick.set(tick, [...(launchesByTick.get(tick) ?? []), { x, targetX }]);
+  });
+  const waveTicks = new Set(replay.waves);
+  const purchasesByTick = new Map<number, ReplayPurchase[]>();
+  (replay.purchases ?? []).forEach(purchase => {
+    purchasesByTick.set(purchase[0], [...(purchasesByTick.get(purchase[0]) ?? []), purchase]);
+  });
+
+  // Immutable states from `step` can be kept as-is to make scrubbing cheap.
+  const checkpoints = new Map<number, GameState>();
+  let tick = 0;
+  let state = createGame(replay.seed, replay.options);
+  let prev = state;
+  checkpoints.set(0, state);
+
+  const stepOnce = () => {
+    // Purchases are recorded before the wave they were bought for starts.
+    purchasesByTick.get(tick)?.forEach(([, item, target]) => {
+      state = purchaseUpgrade(state, item, target < 0 ? undefined : target);
+    });
+    if (state.status === 'waveComplete' && waveTicks.has(tick)) {
+      state = startNextWave(state);
+    }
+    prev = state;
+    state = step(state, { fires: firesByTick.get(tick) ?? [], launches: launchesByTick.get(tick) }, FIXED_DT);
+    tick += 1;
+    if (tick % CHECKPOINT_INTERVAL === 0) checkpoints.set(tick, state);
+  };
+
+  return {
+    replay,
+    get tick() {
+      return tick;
+    },
+    get state() {
+      return state;
+    },
+    get prev() {
+      return prev;
+    },
+    get done() {
+      return tick >= replay.ticks;
+    },
+    advance() {
+      if (tick >= replay.ticks) return false;
+      stepOnce();
+      return true;
+    },
+    seek(target) {
+      const clamped = Math.max(0, Math.min(replay.ticks, Math.round(target)));
+      if (clamped < tick) {
+        // Every checkpoint before the current tick has already been visited.
+        tick = Math.floor(clamped / CHECKPOINT_INTERVAL) * CHECKPOINT_INTERVAL;
+        state = checkpoints.get(tick)!;
+      }
+      prev = state;
+      while (tick < clamped) stepOnce();
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Small seedable PRNG (mulberry32). The whole generator state is a single
+ * 32-bit integer so it can live inside `GameState` and be copied freely.
+ */
+export interface Rng {
+  state: number;
+  next(): number;
+  range(min: number, max: number): number;
+  int(max: number): number;
+}
+
+export function createRng(state: number): Rng {
+  const rng: Rng = {
+    state: state >>> 0,
+    next() {
+      rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+      let t = rng.state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    range(min, max) {
+      return min + rng.next() * (max - min);
+    },
+    int(max) {
+      return Math.floor(rng.next() * max);
+    },
+  };
+  return rng;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/** FNV-1a, enough to spread dates over the seed space and to checksum short codes and tags. */
+export function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createClassicScenario, parseScenario, ScenarioError, serializeScenario } from './scenario';
+
+const file = (changes: object) => JSON.stringify({ ...JSON.parse(serializeScenario(createClassicScenario())), ...changes });
+
+describe('scenarios', () => {
+  it('survive a round trip through JSON', () => {
+    const scenario = createClassicScenario();
+    expect(parseScenario(serializeScenario(scenario))).toEqual(scenario);
+  });
+
+  it.each([
+    ['notJson', '{', {}],
+    ['notScenario', JSON.stringify({ format: 'something-else' }), {}],
+    ['unsupportedVersion', file({ version: 99 }), {}],
+    ['noName', file({ name: '  ' }), {}],
+    ['batteryCount', file({ batteries: [] }), { min: 1, max: 6 }],
+    ['batteryAmmo', file({ batteries: [{ x: 100, ammo: 0.5 }] }), { n: 1, min: 1, max: 99 }],
+    ['batteryOrder', file({ batteries: [{ x: 300, ammo: 10 }, { x: 100, ammo: 10 }] }), {}],
+    ['cityPosition', file({ cities: [150, 5000] }), { n: 2 }],
+    ['waveKind', file({ waves: [{ enemies: 5, mix: { ufo: 1 }, speedMin: 10, speedMax: 20, spawnInterval: 1 }] }), { n: 1, kind: 'ufo' }],
+    ['winType', file({ win: { type: 'time' } }), {}],
+  ])('reject a file with the %s problem', (problem, text, values) => {
+    expect(() => parseScenario(text)).toThrow(ScenarioError);
+    expect(() => parseScenario(text)).toThrow(expect.objectContaining({ problem, values }));
+  });
+});
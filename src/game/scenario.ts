@@ -0,0 +1,214 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, GROUND_HEIGHT } from './constants';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { isInRange, isInteger, isNumber, isOneOf, isRecord } from './json';
+import type { EnemyKind, GameOptions, Scenario, ScenarioBattery, WinCondition } from './types';
+import { CAMPAIGN, type WaveDefinition } from './waves';
+
+// --- Layout ---
+
+/** Standard campaign layout on flat ground. */
+export const CLASSIC_BATTERY_X = [50, CANVAS_WIDTH / 2, CANVAS_WIDTH - 50];
+export const CLASSIC_CITY_X = [150, 250, 350, 450, 550, 650];
+export const FLAT_TERRAIN = [GROUND_HEIGHT, GROUND_HEIGHT];
+
+export function terrainOf(options: Pick<GameOptions, 'scenario'>): number[] {
+  return options.scenario?.terrain ?? FLAT_TERRAIN;
+}
+
+/** Screen y of the ground surface at `x`, interpolated between terrain points. */
+export function groundY(terrain: number[], x: number) {
+  const span = CANVAS_WIDTH / (terrain.length - 1);
+  const position = Math.max(0, Math.min(terrain.length - 1, x / span));
+  const i = Math.min(terrain.length - 2, Math.floor(position));
+  const height = terrain[i] + (terrain[i + 1] - terrain[i]) * (position - i);
+  return CANVAS_HEIGHT - height;
+}
+
+export function createClassicScenario(): Scenario {
+  const ammo = DIFFICULTY_PRESETS.normal.ammo;
+  return {
+    name: 'Classic',
+    terrain: [...FLAT_TERRAIN],
+    batteries: CLASSIC_BATTERY_X.map((x, i) => ({ x, ammo: ammo[i] })),
+    cities: [...CLASSIC_CITY_X],
+    waves: CAMPAIGN.map(wave => ({ ...wave, mix: { ...wave.mix } })),
+    win: { type: 'waves' },
+  };
+}
+
+/** Game options that play `scenario` as written, without difficulty scaling. */
+export function scenarioOptions(scenario: Scenario): Partial<GameOptions> {
+  return {
+    difficulty: 'normal',
+    enemySpeed: 1,
+    spawnRate: 1,
+    ammo: scenario.batteries.map(b => b.ammo),
+    waves: scenario.waves.length,
+    // A score goal keeps waves coming until it is reached.
+    endless: scenario.win.type === 'score',
+    scenario,
+  };
+}
+
+// --- File format ---
+
+const SCENARIO_FORMAT = 'max-nova-scenario';
+const SCENARIO_VERSION = 1;
+
+/** Inclusive bounds enforced on load and by the editor's inputs. */
+export const SCENARIO_LIMITS = {
+  nameLength: 40,
+  terrainPoints: [2, 41],
+  terrainHeight: [10, 250],
+  batteries: [1, 6],
+  cities: [1, 12],
+  ammo: [1, 99],
+  waves: [1, 50],
+  enemies: [1, 200],
+  speed: [5, 300],
+  spawnInterval: [0.1, 10],
+} as const;
+
+export const ENEMY_KINDS: EnemyKind[] = ['rocket', 'mirv', 'smartBomb', 'bomber', 'satellite'];
+
+/** Closest a structure's centre may be to either side of the playfield. */
+export const STRUCTURE_MARGIN = 20;
+
+export function serializeScenario(scenario: Scenario): string {
+  return JSON.stringify({ format: SCENARIO_FORMAT, version: SCENARIO_VERSION, ...scenario }, null, 2);
+}
+
+/** Why a scenario was rejected; the UI turns it into a message in the player's language. */
+export type ScenarioProblem =
+  | 'notJson' | 'notScenario' | 'unsupportedVersion' | 'empty' | 'noName'
+  | 'terrainPoints' | 'terrainHeight'
+  | 'batteryCount' | 'batteryPosition' | 'batteryAmmo' | 'batteryOrder'
+  | 'cityCount' | 'cityPosition' | 'waveCount'
+  | 'waveEnemies' | 'waveSpeed' | 'waveSpawnInterval' | 'waveMix' | 'waveKind' | 'waveWeight' | 'waveNoEnemies'
+  | 'winScore' | 'winType';
+
+export class ScenarioError extends Error {
+  /** `values` fill the message's placeholders: `n` numbers a battery, city or wave, `min`/`max` give the allowed range. */
+  constructor(readonly problem: ScenarioProblem, readonly values: Record<string, string | number> = {}) {
+    super(`Scenario rejected: ${problem}`);
+    this.name = 'ScenarioError';
+  }
+}
+
+export function parseScenario(text: string): Scenario {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ScenarioError('notJson');
+  }
+  if (!isRecord(data) || data.format !== SCENARIO_FORMAT) throw new ScenarioError('notScenario');
+  if (data.version !== SCENARIO_VERSION) throw new ScenarioError('unsupportedVersion');
+  return validateScenario(data);
+}
+
+function range([min, max]: readonly [number, number]) {
+  return { min, max };
+}
+
+function validateWave(wave: unknown, n: number): WaveDefinition {
+  if (!isRecord(wave)) throw new ScenarioError('waveEnemies', { n, ...range(SCENARIO_LIMITS.enemies) });
+  const { enemies, speedMin, speedMax, spawnInterval } = wave;
+  if (!isInteger(enemies) || !isInRange(enemies, SCENARIO_LIMITS.enemies)) {
+    throw new ScenarioError('waveEnemies', { n, ...range(SCENARIO_LIMITS.enemies) });
+  }
+  if (!isInRange(speedMin, SCENARIO_LIMITS.speed) || !isInRange(speedMax, SCENARIO_LIMITS.speed) || speedMin > speedMax) {
+    throw new ScenarioError('waveSpeed', { n, ...range(SCENARIO_LIMITS.speed) });
+  }
+  if (!isInRange(spawnInterval, SCENARIO_LIMITS.spawnInterval)) {
+    throw new ScenarioError('waveSpawnInterval', { n, ...range(SCENARIO_LIMITS.spawnInterval) });
+  }
+  if (!isRecord(wave.mix)) throw new ScenarioError('waveMix', { n });
+  const mix: WaveDefinition['mix'] = {};
+  Object.entries(wave.mix).forEach(([kind, weight]) => {
+    if (!isOneOf(kind, ENEMY_KINDS)) throw new ScenarioError('waveKind', { n, kind });
+    if (!isNumber(weight) || weight < 0) throw new ScenarioError('waveWeight', { n, kind });
+    if (weight > 0) mix[kind] = weight;
+  });
+  if (Object.keys(mix).length === 0) throw new ScenarioError('waveNoEnemies', { n });
+
+  return { enemies, mix, speedMin, speedMax, spawnInterval };
+}
+
+function validateWin(win: unknown): WinCondition {
+  if (!isRecord(win)) throw new ScenarioError('winType');
+  if (win.type === 'waves') return { type: 'waves' };
+  if (win.type === 'score') {
+    if (!isInteger(win.score) || win.score <= 0) throw new ScenarioError('winScore');
+    return { type: 'score', score: win.score };
+  }
+  throw new ScenarioError('winType');
+}
+
+function validateBattery(battery: unknown, n: number): ScenarioBattery {
+  if (!isRecord(battery) || !onField(battery.x)) throw new ScenarioError('batteryPosition', { n });
+  const { x, ammo } = battery;
+  if (!isInteger(ammo) || !isInRange(ammo, SCENARIO_LIMITS.ammo)) {
+    throw new ScenarioError('batteryAmmo', { n, ...range(SCENARIO_LIMITS.ammo) });
+  }
+  return { x, ammo };
+}
+
+function onField(x: unknown): x is number {
+  return isInRange(x, [STRUCTURE_MARGIN, CANVAS_WIDTH - STRUCTURE_MARGIN]);
+}
+
+/** Checks decoded scenario JSON and returns a clean copy; throws a ScenarioError naming the first problem. */
+export function validateScenario(data: unknown): Scenario {
+  if (!isRecord(data)) throw new ScenarioError('empty');
+
+  const name = typeof data.name === 'string' ? data.name.trim().slice(0, SCENARIO_LIMITS.nameLength) : '';
+  if (!name) throw new ScenarioError('noName');
+
+  const { terrain } = data;
+  if (!Array.isArray(terrain) || !isInRange(terrain.length, SCENARIO_LIMITS.terrainPoints)) {
+    throw new ScenarioError('terrainPoints', range(SCENARIO_LIMITS.terrainPoints));
+  }
+  if (!terrain.every(h => isInRange(h, SCENARIO_LIMITS.terrainHeight))) {
+    throw new ScenarioError('terrainHeight', range(SCENARIO_LIMITS.terrainHeight));
+  }
+
+  if (!Array.isArray(data.batteries) || !isInRange(data.batteries.length, SCENARIO_LIMITS.batteries)) {
+    throw new ScenarioError('batteryCount', range(SCENARIO_LIMITS.batteries));
+  }
+  const batteries = data.batteries.map((battery: unknown, i) => validateBattery(battery, i + 1));
+  if (batteries.some((b, i) => i > 0 && b.x <= batteries[i - 1].x)) throw new ScenarioError('batteryOrder');
+
+  const { cities } = data;
+  if (!Array.isArray(cities) || !isInRange(cities.length, SCENARIO_LIMITS.cities)) {
+    throw new ScenarioError('cityCount', range(SCENARIO_LIMITS.cities));
+  }
+  cities.forEach((x: unknown, i) => {
+    if (!onField(x)) throw new ScenarioError('cityPosition', { n: i + 1 });
+  });
+
+  const { waves } = data;
+  if (!Array.isArray(waves) || !isInRange(waves.length, SCENARIO_LIMITS.waves)) {
+    throw new ScenarioError('waveCount', range(SCENARIO_LIMITS.waves));
+  }
+
+  return {
+    name,
+    terrain: [...terrain],
+    batteries,
+    cities: [...cities],
+    waves: waves.map((wave: unknown, i) => validateWave(wave, i + 1)),
+    win: validateWin(data.win),
+  };
+}
+
+/** The first problem `validateScenario` finds, or null if there is none. */
+export function scenarioError(data: unknown): ScenarioError | null {
+  try {
+    validateScenario(data);
+    return null;
+  } catch (err) {
+    if (err instanceof ScenarioError) return err;
+    throw err;
+  }
+}
@@ -0,0 +1,196 @@
+import { DEFAULT_GAME_OPTIONS, playerCount } from './engine';
+import { GUIDANCE_MODES } from './guidance';
+import { hasShape, isArrayOf, isBoolean, isInteger, isNumber, isOneOf, isRecord, isString } from './json';
+import { validateOptions } from './replay';
+import { CLASSIC_CITY_X, ENEMY_KINDS } from './scenario';
+import type {
+  Battery,
+  Bomber,
+  City,
+  Enemy,
+  Explosion,
+  GameEvent,
+  GameOptions,
+  GameState,
+  GameStatus,
+  Mirv,
+  Missile,
+  Rocket,
+  Upgrades,
+  WaveBonus,
+} from './types';
+
+// --- Checks for decoded game states: saved games and the snapshots a LAN host sends ---
+
+export const GAME_STATUSES: GameStatus[] = ['playing', 'waveComplete', 'won', 'lost'];
+
+function isIndex(value: unknown): value is number {
+  return isInteger(value) && value >= 0;
+}
+
+function isIndexOrNull(value: unknown): value is number | null {
+  return value === null || isIndex(value);
+}
+
+const ENTITY = { id: isInteger, x: isNumber, y: isNumber };
+const WARHEAD = { ...ENTITY, color: isString, targetX: isNumber, targetY: isNumber, speed: isNumber };
+const STRUCTURE = { x: isNumber, y: isNumber, hp: isNumber, maxHp: isNumber, destroyed: isBoolean, shielded: isBoolean };
+
+function isEnemy(value: unknown): value is Enemy {
+  if (!isRecord(value)) return false;
+  const kind = (field: unknown) => field === value.kind;
+  switch (value.kind) {
+    case 'rocket':
+    case 'smartBomb':
+      return hasShape<Rocket>(value, { ...WARHEAD, kind });
+    case 'mirv':
+      return hasShape<Mirv>(value, { ...WARHEAD, kind, splitY: isNumber, warheads: isInteger });
+    case 'bomber':
+    case 'satellite':
+      return hasShape<Bomber>(value, { ...ENTITY, color: isString, kind, vx: isNumber, bombs: isInteger, dropTimer: isNumber });
+    default:
+      return false;
+  }
+}
+
+function isMissile(value: unknown): value is Missile {
+  return hasShape<Missile>(value, {
+    ...ENTITY,
+    destX: isNumber,
+    destY: isNumber,
+    aimX: isNumber,
+    aimY: isNumber,
+    startX: isNumber,
+    startY: isNumber,
+    speed: isNumber,
+    guidance: field => isOneOf(field, GUIDANCE_MODES),
+    targetId: field => field === null || isInteger(field),
+    battery: isIndex,
+  });
+}
+
+function isExplosion(value: unknown): value is Explosion {
+  return hasShape<Explosion>(value, {
+    ...ENTITY,
+    source: field => field === 'interceptor' || field === 'impact',
+    battery: isIndexOrNull,
+    radius: isNumber,
+    maxRadius: isNumber,
+    growing: isBoolean,
+  });
+}
+
+function isBattery(value: unknown): value is Battery {
+  return hasShape<Battery>(value, { ...STRUCTURE, ammo: isInteger, maxAmmo: isInteger });
+}
+
+function isCity(value: unknown): value is City {
+  return hasShape<City>(value, STRUCTURE);
+}
+
+function isUpgrades(value: unknown): value is Upgrades {
+  return hasShape<Upgrades>(value, { blastRadius: isIndex, missileSpeed: isIndex, ammoCapacity: isIndex });
+}
+
+function isWaveBonus(value: unknown): value is WaveBonus {
+  return hasShape<WaveBonus>(value, { wave: isInteger, cities: isInteger, ammo: isInteger, cityPoints: isNumber, ammoPoints: isNumber });
+}
+
+function isWaveBonusOrNull(value: unknown): value is WaveBonus | null {
+  return value === null || isWaveBonus(value);
+}
+
+/** Checks decoded state and returns a copy without events; throws if anything the simulation relies on is off. */
+export function validateState(data: unknown): GameState {
+  if (!isRecord(data)) throw new Error('Game state is corrupt');
+  let options: GameOptions;
+  try {
+    options = { ...DEFAULT_GAME_OPTIONS, ...validateOptions(data.options) };
+  } catch {
+    throw new Error('Game options are corrupt');
+  }
+
+  const {
+    status, time, score, credits, upgrades, wave, waveSpawned, spawnTimer, bonus, playerScores,
+    launchCooldown, invincible, rngState, nextId, enemies, missiles, explosions, batteries, cities,
+  } = data;
+  if (
+    !isOneOf(status, GAME_STATUSES) || !isNumber(time) || !isNumber(score) || !isNumber(credits) || !isUpgrades(upgrades)
+    || !isInteger(wave) || wave < 1 || !isIndex(waveSpawned) || !isNumber(spawnTimer) || !isWaveBonusOrNull(bonus)
+    || !isNumber(launchCooldown) || !isBoolean(invincible) || !isInteger(rngState) || !isInteger(nextId)
+    || !isArrayOf(enemies, isEnemy) || !isArrayOf(missiles, isMissile) || !isArrayOf(explosions, isExplosion)
+    || !isArrayOf(batteries, isBattery) || !isArrayOf(cities, isCity)
+    || !isArrayOf(playerScores, isNumber)
+  ) {
+    throw new Error('Game state is corrupt');
+  }
+
+  // Structures and scores are indexed alongside the options, so their counts have to agree.
+  const layoutCities = options.scenario?.cities.length ?? CLASSIC_CITY_X.length;
+  if (
+    batteries.length !== options.ammo.length || cities.length !== layoutCities
+    || playerScores.length !== playerCount(options)
+    || missiles.some(m => m.battery >= batteries.length)
+    || explosions.some(e => e.battery !== null && e.battery >= batteries.length)
+  ) {
+    throw new Error('Game state is corrupt');
+  }
+
+  return {
+    status,
+    options,
+    time,
+    score,
+    credits,
+    upgrades,
+    wave,
+    waveSpawned,
+    spawnTimer,
+    bonus,
+    playerScores,
+    launchCooldown,
+    invincible,
+    rngState,
+    nextId,
+    enemies,
+    missiles,
+    explosions,
+    batteries,
+    cities,
+    events: [],
+  };
+}
+
+// --- Events ---
+
+const POINT = { x: isNumber, y: isNumber };
+
+function eventShape(state: GameState, type: unknown): Record<string, (field: unknown) => boolean> | null {
+  const battery = (field: unknown) => isIndex(field) && field < state.batteries.length;
+  const city = (field: unknown) => isIndex(field) && field < state.cities.length;
+  const kind = (field: unknown) => isOneOf(field, ENEMY_KINDS);
+  switch (type) {
+    case 'launch': return { battery, ...POINT };
+    case 'incoming': return { kind, x: isNumber };
+    case 'intercept': return { kind, ...POINT, points: isNumber, explosion: isInteger, source: field => field === 'interceptor' || field === 'impact' };
+    case 'split': return { ...POINT, warheads: isInteger };
+    case 'impact':
+    case 'shieldHit': return POINT;
+    case 'batteryDamaged': return { battery, hp: isNumber };
+    case 'cityDamaged': return { city, hp: isNumber };
+    case 'batteryDestroyed': return { battery, ammoLost: isInteger };
+    case 'cityDestroyed': return { city };
+    case 'waveComplete': return { bonus: isWaveBonus };
+    case 'won':
+    case 'lost': return {};
+    default: return null;
+  }
+}
+
+/** Checks events that arrived alongside `state`; structure indices have to exist in it. */
+export function isGameEventList(data: unknown, state: GameState): data is GameEvent[] {
+  return Array.isArray(data) && data.every(event => {
+    const shape = isRecord(event) && eventShape(state, event.type);
+    return !!shape && hasShape(event, shape);
+  });
+}
@@ -0,0 +1,244 @@
+import type { WaveDefinition } from './waves';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Entity extends Point {
+  id: number;
+}
+
+interface EnemyBase extends Entity {
+  color: string;
+}
+
+/** Any enemy that travels in a straight line (or close to it) towards a ground target. */
+export interface Warhead extends EnemyBase {
+  targetX: number;
+  targetY: number;
+  speed: number;
+}
+
+export interface Rocket extends Warhead {
+  kind: 'rocket';
+}
+
+/** Splits into `warheads` rockets aimed at different targets once it descends past `splitY`. */
+export interface Mirv extends Warhead {
+  kind: 'mirv';
+  splitY: number;
+  warheads: number;
+}
+
+/** Steers sideways around nearby explosions on its way down. */
+export interface SmartBomb extends Warhead {
+  kind: 'smartBomb';
+}
+
+/** Crosses the sky horizontally, dropping rockets until it runs out or leaves the screen. */
+export interface Bomber extends EnemyBase {
+  kind: 'bomber' | 'satellite';
+  vx: number;
+  bombs: number;
+  dropTimer: number;
+}
+
+export type Enemy = Rocket | Mirv | SmartBomb | Bomber;
+export type EnemyKind = Enemy['kind'];
+
+/**
+ * How interceptors choose where to detonate: `ballistic` flies straight to the
+ * aim point, `lockOn` tracks the enemy nearest the aim point at launch, and
+ * `heatSeeking` keeps retargeting to whatever enemy is closest in flight.
+ */
+export type GuidanceMode = 'ballistic' | 'lockOn' | 'heatSeeking';
+
+export interface Missile extends Entity {
+  /** Where the missile is currently heading; differs from the aim point once it homes in. */
+  destX: number;
+  destY: number;
+  /** Where the player aimed. */
+  aimX: number;
+  aimY: number;
+  startX: number;
+  startY: number;
+  /** Pixels per second, fixed at launch. */
+  speed: number;
+  guidance: GuidanceMode;
+  /** Enemy being tracked, if any. */
+  targetId: number | null;
+  /** Index of the battery that launched it. */
+  battery: number;
+}
+
+/** What blew up: a player's interceptor, or an enemy warhead hitting the ground. */
+export type ExplosionSource = 'interceptor' | 'impact';
+
+export interface Explosion extends Entity {
+  source: ExplosionSource;
+  /** Battery whose interceptor set it off; null for impacts. */
+  battery: number | null;
+  radius: number;
+  maxRadius: number;
+  growing: boolean;
+}
+
+/** Ground installation that enemies target and impacts damage. */
+export interface Structure {
+  x: number;
+  y: number;
+  hp: number;
+  maxHp: number;
+  destroyed: boolean;
+  /** Absorbs the next hit; bought in the shop and lasts one wave. */
+  shielded: boolean;
+}
+
+export interface Battery extends Structure {
+  ammo: number;
+  maxAmmo: number;
+}
+
+export type City = Structure;
+
+export type UpgradeId = 'blastRadius' | 'missileSpeed' | 'ammoCapacity' | 'shields' | 'rebuildBattery' | 'rebuildCity';
+
+/** Levels of the permanent upgrades bought in the between-wave shop. */
+export interface Upgrades {
+  blastRadius: number;
+  missileSpeed: number;
+  ammoCapacity: number;
+}
+
+export type GameStatus = 'playing' | 'waveComplete' | 'won' | 'lost';
+
+/** End-of-wave tally of surviving cities and unused ammo. */
+export interface WaveBonus {
+  wave: number;
+  cities: number;
+  ammo: number;
+  cityPoints: number;
+  ammoPoints: number;
+}
+
+export type GameEvent =
+  | { type: 'launch'; battery: number; x: number; y: number }
+  /** A new enemy has entered the playfield at `x`. */
+  | { type: 'incoming'; kind: EnemyKind; x: number }
+  /** `explosion` is the id of the blast that destroyed the enemy. */
+  | { type: 'intercept'; kind: EnemyKind; x: number; y: number; points: number; explosion: number; source: ExplosionSource }
+  | { type: 'split'; x: number; y: number; warheads: number }
+  | { type: 'impact'; x: number; y: number }
+  | { type: 'shieldHit'; x: number; y: number }
+  | { type: 'batteryDamaged'; battery: number; hp: number }
+  | { type: 'cityDamaged'; city: number; hp: number }
+  /** `ammoLost` is the interceptors that were still in the battery. */
+  | { type: 'batteryDestroyed'; battery: number; ammoLost: number }
+  | { type: 'cityDestroyed'; city: number }
+  | { type: 'waveComplete'; bonus: WaveBonus }
+  | { type: 'won' }
+  | { type: 'lost' };
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'custom';
+
+export interface ScenarioBattery {
+  x: number;
+  ammo: number;
+}
+
+/** A scenario is won by clearing all of its waves, or by reaching a score while waves keep coming. */
+export type WinCondition = { type: 'waves' } | { type: 'score'; score: number };
+
+/** A hand-made level, loaded from JSON and checked by `validateScenario`. */
+export interface Scenario {
+  name: string;
+  /** Ground height in pixels above the bottom edge, at evenly spaced points from left to right. */
+  terrain: number[];
+  /** Left to right; structures stand on the terrain at their x. */
+  batteries: ScenarioBattery[];
+  cities: number[];
+  waves: WaveDefinition[];
+  win: WinCondition;
+}
+
+/** Rules fixed for the whole game, chosen before it starts. */
+export interface GameOptions {
+  guidance: GuidanceMode;
+  /** Preset the values below came from; `custom` means the player tuned them. */
+  difficulty: Difficulty;
+  /** Multiplier on every wave's enemy speed range. */
+  enemySpeed: number;
+  /** Multiplier on how often enemies launch; 2 launches twice as often. */
+  spawnRate: number;
+  /** Interceptors per battery, left to right; one entry for each battery in the layout. */
+  ammo: number[];
+  /** Waves to clear for victory; ignored in endless mode. */
+  waves: number;
+  /** No victory: waves keep coming and ramping up until the defences fall. */
+  endless: boolean;
+  /** Layout, waves and goal of a hand-made level, or null for the standard campaign. */
+  scenario: Scenario | null;
+  /** UTC date (`YYYY-MM-DD`) of the daily challenge this game is, or null. Doesn't affect the rules. */
+  daily: string | null;
+  /** A replay of a daily challenge's seed after the day's attempt; kept out of stats and rankings. */
+  practice: boolean;
+  /** Player index owning each battery in a co-op game; null when one player controls them all. */
+  batteryOwners: number[] | null;
+  /** A second player launches the wave's rockets; the spawner only fills in while they hold back. */
+  versus: boolean;
+}
+
+export interface GameState {
+  status: GameStatus;
+  options: GameOptions;
+  /** Simulated seconds since the game started. */
+  time: number;
+  score: number;
+  /** Spendable points earned alongside the score; spending them never lowers the score. */
+  credits: number;
+  upgrades: Upgrades;
+  /** Current 1-based wave number. */
+  wave: number;
+  /** Enemies launched so far in the current wave. */
+  waveSpawned: number;
+  /** Seconds until the next enemy of the wave is launched. */
+  spawnTimer: number;
+  /** Tally of the most recently completed wave. */
+  bonus: WaveBonus | null;
+  /** Interceptor kill points per player index; a single entry outside co-op. Wave bonuses go to the team score only. */
+  playerScores: number[];
+  /** Seconds until the versus attacker may launch another rocket. */
+  launchCooldown: number;
+  /** Debug console cheat: impacts leave structures untouched. */
+  invincible: boolean;
+  rngState: number;
+  nextId: number;
+  enemies: Enemy[];
+  missiles: Missile[];
+  explosions: Explosion[];
+  batteries: Battery[];
+  cities: City[];
+  /** Events produced by the most recent `step`, consumed by the UI layer. */
+  events: GameEvent[];
+}
+
+export interface FireCommand {
+  x: number;
+  y: number;
+  /** Battery to fire from; when omitted the nearest battery with ammo is used. */
+  battery?: number;
+  /** Co-op player giving the command; they can only fire from the batteries they own. */
+  player?: number;
+}
+
+/** A versus attacker's rocket: it enters on the top edge at `x` and dives on the standing structure nearest `targetX`. */
+export interface LaunchCommand {
+  x: number;
+  targetX: number;
+}
+
+export interface StepInputs {
+  fires: FireCommand[];
+  launches?: LaunchCommand[];
+}
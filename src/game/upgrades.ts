@@ -0,0 +1,77 @@
+import {
+  BLAST_RADIUS_STEP,
+  EXPLOSION_RADIUS_MAX,
+  MAX_UPGRADE_LEVEL,
+  MISSILE_SPEED,
+  MISSILE_SPEED_STEP,
+} from './constants';
+import type { GameState, UpgradeId, Upgrades } from './types';
+
+export interface ShopItem {
+  id: UpgradeId;
+  cost: number;
+  /** Current level for levelled upgrades, null for one-off purchases. */
+  level: number | null;
+  available: boolean;
+}
+
+const BASE_COSTS: Record<UpgradeId, number> = {
+  blastRadius: 500,
+  missileSpeed: 400,
+  ammoCapacity: 600,
+  shields: 800,
+  rebuildBattery: 1500,
+  rebuildCity: 1000,
+};
+
+export const UPGRADE_IDS = Object.keys(BASE_COSTS) as UpgradeId[];
+
+const LEVELLED: UpgradeId[] = ['blastRadius', 'missileSpeed', 'ammoCapacity'];
+
+export function createUpgrades(): Upgrades {
+  return { blastRadius: 0, missileSpeed: 0, ammoCapacity: 0 };
+}
+
+export function interceptorBlastRadius(upgrades: Upgrades) {
+  return EXPLOSION_RADIUS_MAX * (1 + upgrades.blastRadius * BLAST_RADIUS_STEP);
+}
+
+export function interceptorSpeed(upgrades: Upgrades) {
+  return MISSILE_SPEED * (1 + upgrades.missileSpeed * MISSILE_SPEED_STEP);
+}
+
+function levelOf(upgrades: Upgrades, id: UpgradeId): number | null {
+  return LEVELLED.includes(id) ? upgrades[id as keyof Upgrades] : null;
+}
+
+export function upgradeCost(upgrades: Upgrades, id: UpgradeId) {
+  return BASE_COSTS[id] * ((levelOf(upgrades, id) ?? 0) + 1);
+}
+
+function isApplicable(state: GameState, id: UpgradeId) {
+  switch (id) {
+    case 'shields':
+      return [...state.batteries, ...state.cities].some(s => !s.destroyed && !s.shielded);
+    case 'rebuildBattery':
+      return state.batteries.some(b => b.destroyed);
+    case 'rebuildCity':
+      return state.cities.some(c => c.destroyed);
+    default:
+      return (levelOf(state.upgrades, id) ?? 0) < MAX_UPGRADE_LEVEL;
+  }
+}
+
+export function canPurchase(state: GameState, id: UpgradeId) {
+  return state.status === 'waveComplete'
+    && isApplicable(state, id)
+    && state.credits >= upgradeCost(state.upgrades, id);
+}
+
+export function shopItems(state: GameState): ShopItem[] {
+  return UPGRADE_IDS.map(id => ({
+    id,
+    cost: upgradeCost(state.upgrades, id),
+    level: levelOf(state.upgrades, id),
+    available: canPurchase(state, id),
+  }));
+}
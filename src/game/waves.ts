@@ -0,0 +1,51 @@
+import type { EnemyKind } from './types';
+
+export interface WaveDefinition {
+  /** Total number of enemies launched during the wave. */
+  enemies: number;
+  /** Relative spawn weights; kinds left out never appear in the wave. */
+  mix: Partial<Record<EnemyKind, number>>;
+  /** Warhead speed range in pixels per second. */
+  speedMin: number;
+  speedMax: number;
+  /** Average seconds between launches; each gap is jittered by ±50%. */
+  spawnInterval: number;
+}
+
+export const CAMPAIGN: WaveDefinition[] = [
+  { enemies: 8, mix: { rocket: 1 }, speedMin: 15, speedMax: 30, spawnInterval: 1.8 },
+  { enemies: 10, mix: { rocket: 1 }, speedMin: 15, speedMax: 35, spawnInterval: 1.6 },
+  { enemies: 12, mix: { rocket: 4, mirv: 1 }, speedMin: 18, speedMax: 40, spawnInterval: 1.4 },
+  { enemies: 13, mix: { rocket: 4, mirv: 1, bomber: 1 }, speedMin: 20, speedMax: 45, spawnInterval: 1.4 },
+  { enemies: 14, mix: { rocket: 4, mirv: 1, smartBomb: 1 }, speedMin: 22, speedMax: 50, spawnInterval: 1.3 },
+  { enemies: 16, mix: { rocket: 4, mirv: 2, bomber: 1, smartBomb: 1 }, speedMin: 25, speedMax: 55, spawnInterval: 1.2 },
+  { enemies: 18, mix: { rocket: 4, mirv: 2, satellite: 1, smartBomb: 1 }, speedMin: 28, speedMax: 60, spawnInterval: 1.1 },
+  { enemies: 20, mix: { rocket: 3, mirv: 2, bomber: 1, smartBomb: 2 }, speedMin: 30, speedMax: 65, spawnInterval: 1.0 },
+  { enemies: 22, mix: { rocket: 3, mirv: 2, bomber: 1, satellite: 1, smartBomb: 2 }, speedMin: 32, speedMax: 70, spawnInterval: 0.9 },
+  { enemies: 25, mix: { rocket: 3, mirv: 3, bomber: 1, satellite: 1, smartBomb: 3 }, speedMin: 35, speedMax: 75, spawnInterval: 0.8 },
+];
+
+// Per-wave ramp applied beyond the last campaign wave, for endless play and long custom games.
+const EXTRA_ENEMIES_PER_WAVE = 3;
+const EXTRA_SPEED_PER_WAVE = 0.06;
+const SPAWN_INTERVAL_DECAY = 0.94;
+const MIN_SPAWN_INTERVAL = 0.3;
+
+/**
+ * Returns the definition for a 1-based wave number of `campaign` (a scenario's
+ * waves, or the standard campaign); waves past its end keep ramping up.
+ */
+export function getWave(wave: number, campaign: WaveDefinition[] = CAMPAIGN): WaveDefinition {
+  if (wave <= campaign.length) return campaign[wave - 1];
+
+  const last = campaign[campaign.length - 1];
+  const extra = wave - campaign.length;
+  const speedScale = 1 + extra * EXTRA_SPEED_PER_WAVE;
+  return {
+    enemies: last.enemies + extra * EXTRA_ENEMIES_PER_WAVE,
+    mix: last.mix,
+    speedMin: last.speedMin * speedScale,
+    speedMax: last.speedMax * speedScale,
+    spawnInterval: Math.max(MIN_SPAWN_INTERVAL, last.spawnInterval * SPAWN_INTERVAL_DECAY ** extra),
+  };
+}
@@ -0,0 +1,114 @@
+import type { EnemyKind } from './game/types';
+import en from './locales/en';
+
+// --- Locales ---
+
+export type Language = 'en' | 'zh' | 'ja' | 'es' | 'ar';
+
+export interface LanguageInfo {
+  code: Language;
+  /** Name in the language itself, as shown in the picker. */
+  name: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'zh', name: '中文', dir: 'ltr' },
+  { code: 'ja', name: '日本語', dir: 'ltr' },
+  { code: 'es', name: 'Español', dir: 'ltr' },
+  { code: 'ar', name: 'العربية', dir: 'rtl' },
+];
+
+/** Forms of a counted message, chosen with `Intl.PluralRules`; `other` is required as the fallback. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/** The key set every locale must provide, taken from the English source. */
+export type Messages = { [K in keyof typeof en]: (typeof en)[K] extends string ? string : PluralMessage };
+
+export type PluralKey = { [K in keyof Messages]: Messages[K] extends string ? never : K }[keyof Messages];
+
+export type Translation = Messages & { readonly locale: Language };
+
+// English ships with the main bundle as the fallback; the rest load on demand.
+const LOADERS: Record<Language, () => Promise<{ default: Messages }>> = {
+  en: async () => ({ default: en }),
+  zh: () => import('./locales/zh'),
+  ja: () => import('./locales/ja'),
+  es: () => import('./locales/es'),
+  ar: () => import('./locales/ar'),
+};
+
+const STORAGE_KEY = 'max-nova-defense:language';
+
+function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some(l => l.code === value);
+}
+
+export function languageInfo(lang: Language): LanguageInfo {
+  return LANGUAGES.find(l => l.code === lang)!;
+}
+
+/** Loads a locale, falling back to English if its chunk can't be fetched. */
+export async function loadTranslation(lang: Language): Promise<Translation> {
+  try {
+    const { default: messages } = await LOADERS[lang]();
+    return { ...messages, locale: lang };
+  } catch {
+    return { ...en, locale: 'en' };
+  }
+}
+
+/** The player's saved choice, else the first supported browser language, else English. */
+export function detectLanguage(): Language {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Fall through to the browser's preferences.
+  }
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+}
+
+export function saveLanguage(lang: Language) {
+  try {
+    localStorage.setItem(STORAGE_KEY, lang);
+  } catch {
+    // Storage may be unavailable; the choice then lasts for the session only.
+  }
+}
+
+// --- Formatting ---
+
+/** Replaces `{name}` placeholders; unknown placeholders are left as they are. */
+export function format(template: string, values: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
+
+/** Picks the plural form of `key` for `count` in the translation's language; `{count}` is filled in. */
+export function plural(t: Translation, key: PluralKey, count: number, values: Record<string, string | number> = {}) {
+  const message = t[key];
+  const form = new Intl.PluralRules(t.locale).select(count);
+  return format(message[form] ?? message.other, { count, ...values });
+}
+
+export function enemyLabel(t: Translation, kind: EnemyKind) {
+  return {
+    rocket: t.enemyRocket,
+    mirv: t.enemyMirv,
+    smartBomb: t.enemySmartBomb,
+    bomber: t.enemyBomber,
+    satellite: t.enemySatellite,
+  }[kind];
+}
+
+/** Names a battery by position: left/center/right in the classic three-battery layout, numbered otherwise. */
+export function batteryLabel(t: Translation, index: number, count: number) {
+  if (count === 3) return [t.left, t.center, t.right][index];
+  return format(t.batteryNumber, { n: index + 1 });
+}
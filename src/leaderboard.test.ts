@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchTopScores, type ScoreEntry } from './leaderboard';
+
+const entry: ScoreEntry = {
+  name: 'Ada', score: 4200, wave: 6, citiesSaved: 5, language: 'en', difficulty: 'normal', createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+function offline(stored: string | null) {
+  vi.stubGlobal('fetch', () => Promise.reject(new Error('offline')));
+  vi.stubGlobal('localStorage', { getItem: () => stored, setItem: () => {} });
+}
+
+describe('offline leaderboard', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shows the scores kept in the browser', async () => {
+    offline(JSON.stringify([entry, { ...entry, difficulty: 'hard' }]));
+    expect(await fetchTopScores('normal')).toEqual({ entries: [entry], source: 'local' });
+  });
+
+  it.each(['null', '{', '{"scores": []}', JSON.stringify([{ name: 'Ada' }])])('is empty when storage holds %s', async stored => {
+    offline(stored);
+    expect(await fetchTopScores('normal')).toEqual({ entries: [], source: 'local' });
+  });
+
+  it('is empty when storage cannot be read', async () => {
+    vi.stubGlobal('fetch', () => Promise.reject(new Error('offline')));
+    vi.stubGlobal('localStorage', { getItem: () => { throw new Error('denied'); } });
+    expect(await fetchTopScores('normal')).toEqual({ entries: [], source: 'local' });
+  });
+});
@@ -0,0 +1,121 @@
+import { hasShape, isNumber, isRecord, isString } from './game/json';
+
+export interface ScoreSubmission {
+  name: string;
+  score: number;
+  wave: number;
+  citiesSaved: number;
+  language: string;
+  difficulty: string;
+}
+
+export interface ScoreEntry extends ScoreSubmission {
+  createdAt: string;
+}
+
+export interface LeaderboardResult {
+  entries: ScoreEntry[];
+  /** `local` means the server couldn't be reached and the browser-only board is shown. */
+  source: 'server' | 'local';
+}
+
+const API_BASE = '/api/scores';
+const REQUEST_TIMEOUT = 3000;
+const LOCAL_KEY = 'max-nova-defense:leaderboard';
+const LOCAL_LIMIT = 50;
+
+// --- Local fallback ---
+
+function isScoreEntry(value: unknown): value is ScoreEntry {
+  return hasShape<ScoreEntry>(value, {
+    name: isString,
+    score: isNumber,
+    wave: isNumber,
+    citiesSaved: isNumber,
+    language: isString,
+    difficulty: isString,
+    createdAt: isString,
+  });
+}
+
+/** The stored board; entries that don't check out are dropped. */
+function readLocal(): ScoreEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(localStorage.getItem(LOCAL_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  return Array.isArray(data) ? data.filter(isScoreEntry) : [];
+}
+
+function saveLocal(entry: ScoreEntry) {
+  const entries = [...readLocal(), entry];
+  const kept = Object.values(
+    entries.reduce<Record<string, ScoreEntry[]>>((byDifficulty, e) => {
+      (byDifficulty[e.difficulty] ??= []).push(e);
+      return byDifficulty;
+    }, {}),
+  ).flatMap(list => rankEntries(list).slice(0, LOCAL_LIMIT));
+
+  try {
+    localStorage.setItem(LOCAL_KEY, JSON.stringify(kept));
+  } catch {
+    // Storage may be unavailable; the run is still reported by the server if reachable.
+  }
+}
+
+function rankEntries(entries: ScoreEntry[]) {
+  return [...entries].sort((a, b) => b.score - a.score || a.createdAt.localeCompare(b.createdAt));
+}
+
+function localTop(difficulty: string, limit: number): LeaderboardResult {
+  return {
+    entries: rankEntries(readLocal().filter(e => e.difficulty === difficulty)).slice(0, limit),
+    source: 'local',
+  };
+}
+
+// --- Server ---
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) throw new Error(`Leaderboard request failed with ${res.status}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function fetchTopScores(difficulty: string, limit = 10): Promise<LeaderboardResult> {
+  try {
+    const params = new URLSearchParams({ difficulty, limit: String(limit) });
+    const data = await request<unknown>(`${API_BASE}?${params}`);
+    if (!isRecord(data) || !Array.isArray(data.scores)) throw new Error('Leaderboard response is malformed');
+    return { entries: data.scores.filter(isScoreEntry), source: 'server' };
+  } catch {
+    return localTop(difficulty, limit);
+  }
+}
+
+/**
+ * Records a finished run. The score is always kept locally so the fallback
+ * board stays complete, then sent to the server when it is reachable.
+ */
+export async function submitScore(submission: ScoreSubmission, limit = 10): Promise<LeaderboardResult> {
+  saveLocal({ ...submission, createdAt: new Date().toISOString() });
+
+  try {
+    await request(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission),
+    });
+  } catch {
+    return localTop(submission.difficulty, limit);
+  }
+  return fetchTopScores(submission.difficulty, limit);
+}
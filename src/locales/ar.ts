@@ -0,0 +1,301 @@
+import type { Messages } from '../i18n';
+
+const ar: Messages = {
+  title: "ماكس نوفا للدفاع",
+  start: "ابدأ اللعبة",
+  gameOver: "انتهت اللعبة",
+  victory: "النصر!",
+  score: "النقاط",
+  ammo: "الذخيرة",
+  playAgain: "العب مرة أخرى",
+  instructions: "انقر في أي مكان لاعتراض الصواريخ. احمِ مدنك!",
+  winCondition: {
+    one: "اصمد في الموجة الوحيدة لتفوز.",
+    two: "اصمد في الموجتين لتفوز.",
+    few: "اصمد طوال {count} موجات لتفوز.",
+    other: "اصمد طوال {count} موجة لتفوز.",
+  },
+  lossCondition: "تدمير كل البطاريات أو كل المدن = انتهاء اللعبة.",
+  howToPlay: "طريقة اللعب",
+  winConditionTitle: "شرط الفوز",
+  lossConditionTitle: "شرط الخسارة",
+  left: "اليسار",
+  center: "الوسط",
+  right: "اليمين",
+  wave: "الموجة",
+  waveComplete: "تم صد الموجة",
+  citiesSaved: "المدن الناجية",
+  ammoLeft: "الذخيرة المتبقية",
+  bonus: "المكافأة",
+  nextWave: "الموجة التالية",
+  paused: "متوقفة مؤقتًا",
+  resume: "استئناف",
+  restart: "إعادة البدء",
+  quitToMenu: "العودة إلى القائمة",
+  pauseHint: "اضغط Esc أو P للإيقاف المؤقت",
+  settings: "الإعدادات",
+  close: "إغلاق",
+  language: "اللغة",
+  fireMode: "وضع الإطلاق",
+  fireModeNearest: "أقرب بطارية",
+  fireModeNearestHint: "النقر يطلق من أقرب بطارية لديها ذخيرة.",
+  fireModeExplicit: "بطارية محددة",
+  fireModeExplicitHint: "المفاتيح {keys} أو {numbers} تطلق من البطاريات من اليسار إلى اليمين نحو المؤشر؛ وفي ذراع التحكم {buttons}. النقر يستخدم آخر بطارية اخترتها.",
+  controlsHint: "تحرّك مفاتيح الأسهم أو عصا وحدة التحكم علامة التصويب؛ ويطلق مفتاح المسافة أو Enter أو الزر A.",
+  accessibility: "إمكانية الوصول",
+  palette: "لوحة الألوان",
+  paletteDefault: "قياسية",
+  paletteColorblind: "مناسبة لعمى الألوان",
+  highContrast: "تباين عالٍ",
+  reducedMotion: "تقليل الحركة",
+  leaderboard: "لوحة الصدارة",
+  leaderboardOffline: "غير متصل",
+  leaderboardOfflineHint: "تعذّر الوصول إلى خادم لوحة الصدارة؛ تُعرض النقاط المحفوظة في هذا المتصفح.",
+  leaderboardEmpty: "لا توجد نقاط بعد.",
+  playerName: "اسمك",
+  submitScore: "إرسال",
+  replay: "الإعادة",
+  watchReplay: "شاهد الإعادة",
+  exportReplay: "تصدير الإعادة",
+  loadReplay: "تحميل ملف إعادة",
+  exitReplay: "الخروج من الإعادة",
+  play: "تشغيل",
+  pause: "إيقاف مؤقت",
+  guidance: "توجيه الصواريخ",
+  guidanceHint: "يسري من اللعبة التالية.",
+  guidanceBallistic: "باليستي",
+  guidanceBallisticHint: "كلاسيكي: تنفجر الصواريخ الاعتراضية حيث تصوّب تمامًا.",
+  guidanceLockOn: "القفل على الهدف",
+  guidanceLockOnHint: "يقفل عند الإطلاق على أقرب عدو لنقطة التصويب ويتتبعه.",
+  guidanceHeatSeeking: "باحث حراري",
+  guidanceHeatSeekingHint: "يواصل الانعطاف نحو أقرب عدو أثناء الطيران.",
+  aimAssist: "مساعدة التصويب",
+  credits: "الرصيد",
+  armory: "مستودع الأسلحة",
+  maxed: "الحد الأقصى",
+  upgradeBlastRadius: "نطاق الانفجار",
+  upgradeBlastRadiusHint: "تكبر انفجارات الصواريخ الاعتراضية بنسبة {percent}%.",
+  upgradeMissileSpeed: "سرعة الصاروخ",
+  upgradeMissileSpeedHint: "تطير الصواريخ الاعتراضية أسرع بنسبة {percent}%.",
+  upgradeAmmoCapacity: "سعة الذخيرة",
+  upgradeAmmoCapacityHint: {
+    one: "تتسع كل بطارية لصاروخ اعتراضي إضافي واحد.",
+    two: "تتسع كل بطارية لصاروخين اعتراضيين إضافيين.",
+    few: "تتسع كل بطارية لـ{count} صواريخ اعتراضية إضافية.",
+    other: "تتسع كل بطارية لـ{count} صاروخًا اعتراضيًا إضافيًا.",
+  },
+  upgradeShields: "الدروع",
+  upgradeShieldsHint: "يصمد كل مبنى قائم أمام ضربة واحدة في الموجة التالية.",
+  upgradeRebuildBattery: "إعادة بناء بطارية",
+  upgradeRebuildBatteryHint: "يعيد بطارية مدمرة بذخيرة كاملة.",
+  upgradeRebuildCity: "إعادة بناء مدينة",
+  upgradeRebuildCityHint: "يعيد مدينة مدمرة واحدة.",
+  difficulty: "الصعوبة",
+  difficultyEasy: "سهل",
+  difficultyNormal: "عادي",
+  difficultyHard: "صعب",
+  difficultyCustom: "مخصص",
+  customEnemySpeed: "سرعة العدو",
+  customSpawnRate: "معدل الإطلاق",
+  customAmmo: "الذخيرة",
+  customWaves: "الموجات اللازمة للفوز",
+  endless: "بلا نهاية",
+  endlessHint: "لا نصر: تزداد الموجات صعوبة حتى تسقط.",
+  endlessCondition: "الوضع اللانهائي: اصمد أطول مدة ممكنة.",
+  audio: "الصوت",
+  masterVolume: "الرئيسي",
+  sfxVolume: "المؤثرات",
+  musicVolume: "الموسيقى",
+  mute: "كتم الصوت",
+  muteHint: "اضغط M لكتم الصوت أو إعادته في أي وقت.",
+  effects: "جودة المؤثرات",
+  effectsOff: "إيقاف",
+  effectsLow: "منخفضة",
+  effectsHigh: "عالية",
+  effectsHint: "الشرر والحطام وآثار الصواريخ واهتزاز الشاشة. خفّضها على الأجهزة البطيئة.",
+  fullscreen: "ملء الشاشة (F)",
+  exitFullscreen: "الخروج من ملء الشاشة (F)",
+  continueGame: "متابعة",
+  savedGameSummary: "الموجة {wave} · {score}",
+  newGame: "لعبة جديدة",
+  saveDiscarded: "تعذّرت استعادة اللعبة المحفوظة: إنها تالفة أو من إصدار غير متوافق.",
+  statistics: "الإحصاءات",
+  lifetime: "الإجمالي",
+  lastRun: "آخر لعبة",
+  noRunsYet: "العب مباراة لبدء جمع الإحصاءات.",
+  gamesPlayed: "الألعاب",
+  wins: "مرات الفوز",
+  shotsFired: "الطلقات",
+  accuracy: "الدقة",
+  enemiesDestroyed: "الأعداء المدمرون",
+  bestMultiKill: "أفضل إسقاط متعدد",
+  bestWave: "أفضل موجة",
+  bestScore: "أفضل نتيجة",
+  achievements: "الإنجازات",
+  achievementUnlocked: "تم فتح إنجاز",
+  achFirstBlood: "الضربة الأولى",
+  achFirstBloodHint: "دمّر أول عدو لك.",
+  achChainReaction: "تفاعل متسلسل",
+  achChainReactionHint: "دمّر 5 أعداء بانفجار واحد.",
+  achVeteran: "المحارب القديم",
+  achVeteranHint: "صل إلى الموجة 5.",
+  achSharpshooter: "القناص",
+  achSharpshooterHint: "أصب 75% من 40 طلقة على الأقل في لعبة واحدة.",
+  achVictory: "المدافع",
+  achVictoryHint: "اربح لعبة.",
+  achFlawless: "بلا أخطاء",
+  achFlawlessHint: "اربح دون أن تخسر أي مدينة.",
+  achSurvivor: "الناجي",
+  achSurvivorHint: "صل إلى الموجة 15 في الوضع اللانهائي.",
+  achCenturion: "قائد المئة",
+  achCenturionHint: "دمّر 500 عدو إجمالًا.",
+  levelEditor: "محرر المراحل",
+  editorHint: "اسحب البطاريات والمدن ونقاط الأرض في ساحة اللعب لتشكيل المرحلة.",
+  playtest: "تجربة اللعب",
+  backToEditor: "العودة إلى المحرر",
+  importScenario: "استيراد",
+  exportScenario: "تصدير",
+  newScenario: "جديد",
+  scenarioName: "الاسم",
+  winBy: "الفوز عند",
+  winByWaves: "اجتياز كل الموجات",
+  winByScore: "بلوغ نتيجة",
+  scoreCondition: "اجمع {score} نقطة للفوز.",
+  terrainPoints: "نقاط الأرض",
+  flattenTerrain: "تسوية",
+  cities: "المدن",
+  addCity: "إضافة مدينة",
+  removeCity: "إزالة مدينة",
+  editorWaves: "الموجات",
+  addWave: "إضافة موجة",
+  removeWave: "إزالة موجة",
+  campaignWaves: "استخدام موجات الحملة",
+  waveEnemies: "الأعداء",
+  waveSpeedMin: "أدنى سرعة",
+  waveSpeedMax: "أقصى سرعة",
+  waveInterval: "الفاصل (ث)",
+  enemyRocket: "صاروخ",
+  enemyMirv: "صاروخ متعدد الرؤوس",
+  enemySmartBomb: "قنبلة ذكية",
+  enemyBomber: "قاذفة",
+  enemySatellite: "قمر صناعي",
+  dailyChallenge: "التحدي اليومي",
+  dailyIntro: "يواجه الجميع اليوم الصواريخ نفسها بالقواعد نفسها. لديك محاولة واحدة فقط.",
+  dailyPlay: "العب تحدي اليوم",
+  dailyUnfinished: "بدأت محاولة اليوم لكنها لم تكتمل. عد غدًا!",
+  dailyPlayed: "تم اللعب · {score}",
+  copyResult: "نسخ النتيجة",
+  copied: "تم النسخ!",
+  verifyResult: "التحقق من نتيجة",
+  verifyPlaceholder: "الصق نتيجة مشارَكة هنا",
+  verifyValid: "نتيجة صالحة ليوم {date}",
+  practiceChallenge: "تدرّب على هذا التحدي",
+  practiceLocked: "يُتاح التدريب بعد أن تلعب تحدي ذلك اليوم.",
+  multiplayer: "متعدد اللاعبين",
+  localCoop: "تعاون محلي",
+  localCoopHint: "يصوّب اللاعب 1 بالفأرة أو اللمس، واللاعب 2 بمفاتيح الأسهم والمسافة أو بذراع التحكم. يطلق كل لاعب من بطارياته فقط.",
+  batteryOwners: "ملكية البطاريات",
+  playerShort: "ل{player}",
+  playerScore: "اللاعب {player}",
+  coopNeedsBoth: "يحتاج كل لاعب إلى بطارية واحدة على الأقل.",
+  startCoop: "ابدأ التعاون",
+  lanGame: "لعبة عبر الشبكة المحلية",
+  lanHint: "شغّل خادم اللعبة بالأمر npm run server، ثم اطلب من اللاعب الثاني فتح عنوان هذه الصفحة من جهازه.",
+  hostCoop: "استضف تعاونًا",
+  hostVersus: "استضف مواجهة",
+  roomCode: "رمز الغرفة",
+  joinRoom: "انضم",
+  waitingForPlayer: "بانتظار لاعب ثانٍ…",
+  playerJoined: "اتصل اللاعب الثاني",
+  startLanGame: "ابدأ اللعبة",
+  waitingForHost: "بانتظار المضيف…",
+  leaveRoom: "غادر",
+  lanModeCoop: "تعاون: تدافعان عن المدن معًا.",
+  lanModeVersus: "مواجهة: يطلق الضيف الصواريخ على المدافع.",
+  lanRoomNotFound: "لا توجد غرفة بهذا الرمز.",
+  lanRoomFull: "هذه الغرفة فيها لاعبان بالفعل.",
+  lanBadMessage: "لم يفهم الخادم رسائل اللعبة.",
+  lanDisconnected: "انقطع الاتصال بخادم اللعبة.",
+  partnerLeft: "غادر اللاعب 2 اللعبة.",
+  versusHint: "اضغط حيث يدخل الصاروخ السماء وأفلت فوق هدفه.",
+  defenseHeld: "صمد الدفاع",
+  defenseBroken: "دُمّرت الدفاعات — لقد فزت!",
+  narrator: "إحاطات المهمة",
+  briefingTitle: "إحاطة",
+  debriefTitle: "تقرير ما بعد المعركة",
+  debriefPending: "جارٍ استلام التقرير…",
+  sentenceSeparator: " ",
+  listSeparator: "، ",
+  briefingWave: "القيادة إلى جميع البطاريات: الموجة {wave} قادمة.",
+  briefingFinalWave: "القيادة إلى جميع البطاريات: هذه هي الموجة الأخيرة.",
+  briefingContacts: {
+    zero: "لا يرصد الرادار أي أهداف.",
+    one: "يرصد الرادار هدفًا واحدًا: {threats}.",
+    two: "يرصد الرادار هدفين: {threats}.",
+    few: "يرصد الرادار {count} أهداف: {threats}.",
+    other: "يرصد الرادار {count} هدفًا: {threats}.",
+  },
+  briefingCitiesIntact: "كل المدن ما زالت صامدة. حافظوا عليها.",
+  briefingCitiesLeft: {
+    one: "لم يبقَ إلا مدينة واحدة. اصمدوا!",
+    two: "لم يبقَ إلا مدينتان. اصمدوا!",
+    few: "بقيت {count} مدن. اصمدوا!",
+    other: "بقيت {count} مدينة. اصمدوا!",
+  },
+  debriefWon: "نصر. السماء صافية بعد الموجة {wave}، والنقاط {score}.",
+  debriefLost: "سقطت الدفاعات في الموجة {wave}. النتيجة النهائية: {score}.",
+  debriefNoCitiesLost: "لم تُفقد أي مدينة.",
+  debriefCitiesLost: {
+    one: "فُقدت مدينة واحدة.",
+    two: "فُقدت مدينتان.",
+    few: "فُقدت {count} مدن.",
+    other: "فُقدت {count} مدينة.",
+  },
+  debriefWasted: {
+    one: "صاروخ اعتراضي واحد لم يصب سوى السماء.",
+    two: "صاروخان اعتراضيان لم يصيبا سوى السماء.",
+    few: "{count} صواريخ اعتراضية لم تصب سوى السماء.",
+    other: "{count} صاروخًا اعتراضيًا لم يصب سوى السماء.",
+  },
+  debriefSharp: "تصويب دقيق: أصاب {accuracy}% من الصواريخ الاعتراضية أهدافها.",
+  debriefWild: "لم يصب سوى {accuracy}% من الصواريخ الاعتراضية أهدافها. دع الرؤوس الحربية تقترب قبل الإطلاق.",
+  replayNotJson: "ملف الإعادة هذا ليس JSON صالحًا.",
+  replayNotReplay: "هذا الملف ليس إعادة من ماكس نوفا للدفاع.",
+  replayUnsupportedVersion: "سُجّلت هذه الإعادة بإصدار مختلف من اللعبة.",
+  replayCorrupt: "ملف الإعادة هذا تالف.",
+  batteries: "البطاريات",
+  addBattery: "إضافة بطارية",
+  removeBattery: "إزالة بطارية",
+  batteryNumber: "البطارية {n}",
+  scenarioErrorNotJson: "ملف السيناريو هذا ليس JSON صالحًا.",
+  scenarioErrorNotScenario: "هذا الملف ليس سيناريو من ماكس نوفا للدفاع.",
+  scenarioErrorUnsupportedVersion: "صُمم هذا السيناريو لإصدار آخر من اللعبة.",
+  scenarioErrorEmpty: "السيناريو فارغ.",
+  scenarioErrorNoName: "يحتاج السيناريو إلى اسم.",
+  scenarioErrorTerrainPoints: "تحتاج التضاريس إلى {min} حتى {max} من نقاط الارتفاع.",
+  scenarioErrorTerrainHeight: "يجب أن تكون ارتفاعات التضاريس بين {min} و{max} بكسل.",
+  scenarioErrorBatteryCount: "يحتاج السيناريو إلى {min} حتى {max} من البطاريات.",
+  scenarioErrorBatteryPosition: "البطارية {n} خارج الميدان.",
+  scenarioErrorBatteryAmmo: "يجب أن تكون ذخيرة البطارية {n} عددًا صحيحًا من {min} إلى {max}.",
+  scenarioErrorBatteryOrder: "يجب ترتيب البطاريات من اليسار إلى اليمين.",
+  scenarioErrorCityCount: "يحتاج السيناريو إلى {min} حتى {max} من المدن.",
+  scenarioErrorCityPosition: "المدينة {n} خارج الميدان.",
+  scenarioErrorWaveCount: "يحتاج السيناريو إلى {min} حتى {max} من الموجات.",
+  scenarioErrorWaveEnemies: "الموجة {n}: يجب أن يكون عدد الأعداء عددًا صحيحًا من {min} إلى {max}.",
+  scenarioErrorWaveSpeed: "الموجة {n}: يجب أن تكون السرعات بين {min} و{max}، والدنيا أولًا.",
+  scenarioErrorWaveSpawnInterval: "الموجة {n}: يجب أن يكون فاصل الظهور بين {min} و{max} ثانية.",
+  scenarioErrorWaveMix: "الموجة {n}: مزيج الأعداء مفقود.",
+  scenarioErrorWaveKind: "الموجة {n}: نوع عدو غير معروف \"{kind}\".",
+  scenarioErrorWaveWeight: "الموجة {n}: يجب أن يكون وزن {kind} صفرًا أو أكثر.",
+  scenarioErrorWaveNoEnemies: "الموجة {n}: يجب أن يكون لنوع واحد من الأعداء على الأقل وزن أكبر من الصفر.",
+  scenarioErrorWinScore: "يجب أن تكون نقاط الفوز عددًا صحيحًا موجبًا.",
+  scenarioErrorWinType: "يجب أن يكون شرط الفوز \"waves\" أو \"score\".",
+  practiceRun: "تدريب",
+  resultCodeMissing: "لم يُعثر على رمز نتيجة. الصق النص المشترك كاملًا أو الرمز الذي يبدأ بـ MND1-.",
+  resultCodeAltered: "رمز النتيجة هذا معدَّل أو مكتوب بشكل خاطئ.",
+  resultCodeCorrupt: "رمز النتيجة هذا تالف.",
+  lanOwnRoom: "هذه هي الغرفة التي تستضيفها. شارك رمزها مع اللاعب الآخر بدلًا من ذلك.",
+  hostPaused: "أوقف المضيف اللعبة مؤقتًا.",
+};
+
+export default ar;
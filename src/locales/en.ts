@@ -0,0 +1,287 @@
+// Source locale: every other locale must provide the same keys.
+const en = {
+  title: "Max Nova Defense",
+  start: "Start Game",
+  gameOver: "Game Over",
+  victory: "Victory!",
+  score: "Score",
+  ammo: "Ammo",
+  playAgain: "Play Again",
+  instructions: "Click anywhere to intercept rockets. Protect your cities!",
+  winCondition: {
+    one: "Survive the wave to win.",
+    other: "Survive all {count} waves to win.",
+  },
+  lossCondition: "All batteries or all cities destroyed = Game Over.",
+  howToPlay: "How to Play",
+  winConditionTitle: "Win Condition",
+  lossConditionTitle: "Loss Condition",
+  left: "Left",
+  center: "Center",
+  right: "Right",
+  wave: "Wave",
+  waveComplete: "Wave Cleared",
+  citiesSaved: "Cities Saved",
+  ammoLeft: "Unused Ammo",
+  bonus: "Bonus",
+  nextWave: "Next Wave",
+  paused: "Paused",
+  resume: "Resume",
+  restart: "Restart",
+  quitToMenu: "Quit to Menu",
+  pauseHint: "Press Esc or P to pause",
+  settings: "Settings",
+  close: "Close",
+  language: "Language",
+  fireMode: "Firing Mode",
+  fireModeNearest: "Nearest Battery",
+  fireModeNearestHint: "Clicks fire from the closest battery with ammo.",
+  fireModeExplicit: "Explicit Battery",
+  fireModeExplicitHint: "{keys} or {numbers} fire from the batteries, left to right, at the cursor; on a gamepad, {buttons}. Clicks use the last battery chosen.",
+  controlsHint: "Arrow keys or a gamepad stick move the crosshair; Space, Enter or the A button fires.",
+  accessibility: "Accessibility",
+  palette: "Color Palette",
+  paletteDefault: "Standard",
+  paletteColorblind: "Colorblind Safe",
+  highContrast: "High Contrast",
+  reducedMotion: "Reduced Motion",
+  leaderboard: "Leaderboard",
+  leaderboardOffline: "Offline",
+  leaderboardOfflineHint: "Leaderboard server unreachable; showing scores saved in this browser.",
+  leaderboardEmpty: "No scores yet.",
+  playerName: "Your name",
+  submitScore: "Submit",
+  replay: "Replay",
+  watchReplay: "Watch Replay",
+  exportReplay: "Export Replay",
+  loadReplay: "Load Replay File",
+  exitReplay: "Exit Replay",
+  play: "Play",
+  pause: "Pause",
+  guidance: "Missile Guidance",
+  guidanceHint: "Takes effect from the next game.",
+  guidanceBallistic: "Ballistic",
+  guidanceBallisticHint: "Classic: interceptors detonate exactly where you aim.",
+  guidanceLockOn: "Lock-On",
+  guidanceLockOnHint: "Locks onto the enemy nearest your aim point at launch and tracks it.",
+  guidanceHeatSeeking: "Heat-Seeking",
+  guidanceHeatSeekingHint: "Keeps steering toward whichever enemy is closest in flight.",
+  aimAssist: "Aim Assist",
+  credits: "Credits",
+  armory: "Armory",
+  maxed: "Max",
+  upgradeBlastRadius: "Blast Radius",
+  upgradeBlastRadiusHint: "Interceptor explosions grow {percent}% larger.",
+  upgradeMissileSpeed: "Missile Speed",
+  upgradeMissileSpeedHint: "Interceptors fly {percent}% faster.",
+  upgradeAmmoCapacity: "Ammo Capacity",
+  upgradeAmmoCapacityHint: {
+    one: "Every battery holds {count} more interceptor.",
+    other: "Every battery holds {count} more interceptors.",
+  },
+  upgradeShields: "Shields",
+  upgradeShieldsHint: "Each standing structure survives one hit next wave.",
+  upgradeRebuildBattery: "Rebuild Battery",
+  upgradeRebuildBatteryHint: "Restores a destroyed battery with full ammo.",
+  upgradeRebuildCity: "Rebuild City",
+  upgradeRebuildCityHint: "Restores one destroyed city.",
+  difficulty: "Difficulty",
+  difficultyEasy: "Easy",
+  difficultyNormal: "Normal",
+  difficultyHard: "Hard",
+  difficultyCustom: "Custom",
+  customEnemySpeed: "Enemy speed",
+  customSpawnRate: "Launch rate",
+  customAmmo: "Ammo",
+  customWaves: "Waves to win",
+  endless: "Endless",
+  endlessHint: "No victory: waves keep getting harder until you fall.",
+  endlessCondition: "Endless mode: hold out as long as you can.",
+  audio: "Audio",
+  masterVolume: "Master",
+  sfxVolume: "Effects",
+  musicVolume: "Music",
+  mute: "Mute",
+  muteHint: "Press M to mute or unmute at any time.",
+  effects: "Effects Quality",
+  effectsOff: "Off",
+  effectsLow: "Low",
+  effectsHigh: "High",
+  effectsHint: "Sparks, debris, rocket trails and screen shake. Turn down on slower computers.",
+  fullscreen: "Fullscreen (F)",
+  exitFullscreen: "Exit fullscreen (F)",
+  continueGame: "Continue",
+  savedGameSummary: "Wave {wave} · {score}",
+  newGame: "New Game",
+  saveDiscarded: "Your saved game couldn't be restored: it is damaged or from an incompatible version.",
+  statistics: "Statistics",
+  lifetime: "Lifetime",
+  lastRun: "Last Run",
+  noRunsYet: "Play a game to start collecting statistics.",
+  gamesPlayed: "Games",
+  wins: "Wins",
+  shotsFired: "Shots fired",
+  accuracy: "Accuracy",
+  enemiesDestroyed: "Enemies destroyed",
+  bestMultiKill: "Best multi-kill",
+  bestWave: "Best wave",
+  bestScore: "Best score",
+  achievements: "Achievements",
+  achievementUnlocked: "Achievement unlocked",
+  achFirstBlood: "First Blood",
+  achFirstBloodHint: "Destroy your first enemy.",
+  achChainReaction: "Chain Reaction",
+  achChainReactionHint: "Destroy 5 enemies with one blast.",
+  achVeteran: "Veteran",
+  achVeteranHint: "Reach wave 5.",
+  achSharpshooter: "Sharpshooter",
+  achSharpshooterHint: "Hit with 75% of at least 40 shots in one game.",
+  achVictory: "Defender",
+  achVictoryHint: "Win a game.",
+  achFlawless: "Flawless",
+  achFlawlessHint: "Win without losing a city.",
+  achSurvivor: "Survivor",
+  achSurvivorHint: "Reach wave 15 in endless mode.",
+  achCenturion: "Centurion",
+  achCenturionHint: "Destroy 500 enemies in total.",
+  levelEditor: "Level Editor",
+  editorHint: "Drag batteries, cities and the ground's handles on the playfield to shape the level.",
+  playtest: "Playtest",
+  backToEditor: "Back to Editor",
+  importScenario: "Import",
+  exportScenario: "Export",
+  newScenario: "New",
+  scenarioName: "Name",
+  winBy: "Win by",
+  winByWaves: "Clearing every wave",
+  winByScore: "Reaching a score",
+  scoreCondition: "Reach {score} points to win.",
+  terrainPoints: "Ground points",
+  flattenTerrain: "Flatten",
+  cities: "Cities",
+  addCity: "Add city",
+  removeCity: "Remove city",
+  editorWaves: "Waves",
+  addWave: "Add wave",
+  removeWave: "Remove wave",
+  campaignWaves: "Use campaign waves",
+  waveEnemies: "Enemies",
+  waveSpeedMin: "Min speed",
+  waveSpeedMax: "Max speed",
+  waveInterval: "Interval (s)",
+  enemyRocket: "Rocket",
+  enemyMirv: "MIRV",
+  enemySmartBomb: "Smart bomb",
+  enemyBomber: "Bomber",
+  enemySatellite: "Satellite",
+  dailyChallenge: "Daily Challenge",
+  dailyIntro: "Everyone faces the same rockets today, with the same rules. You get one attempt.",
+  dailyPlay: "Play Today's Challenge",
+  dailyUnfinished: "Today's attempt was started but not finished. Come back tomorrow!",
+  dailyPlayed: "Played · {score}",
+  copyResult: "Copy result",
+  copied: "Copied!",
+  verifyResult: "Verify a result",
+  verifyPlaceholder: "Paste a shared result here",
+  verifyValid: "Valid result for {date}",
+  practiceChallenge: "Practice this challenge",
+  practiceLocked: "Practice opens once you've played this day's challenge.",
+  multiplayer: "Multiplayer",
+  localCoop: "Local co-op",
+  localCoopHint: "Player 1 aims with the mouse or touch; player 2 with the arrow keys and Space, or a gamepad. Each fires only from their own batteries.",
+  batteryOwners: "Battery owners",
+  playerShort: "P{player}",
+  playerScore: "Player {player}",
+  coopNeedsBoth: "Each player needs at least one battery.",
+  startCoop: "Start co-op",
+  lanGame: "LAN game",
+  lanHint: "Start the game server with npm run server, then have the second player open this page's address from their own device.",
+  hostCoop: "Host co-op",
+  hostVersus: "Host versus",
+  roomCode: "Room code",
+  joinRoom: "Join",
+  waitingForPlayer: "Waiting for a second player…",
+  playerJoined: "Second player connected",
+  startLanGame: "Start game",
+  waitingForHost: "Waiting for the host…",
+  leaveRoom: "Leave",
+  lanModeCoop: "Co-op: you defend the cities together.",
+  lanModeVersus: "Versus: the guest launches the rockets at the defender.",
+  lanRoomNotFound: "No room with that code.",
+  lanRoomFull: "That room already has two players.",
+  lanBadMessage: "The server did not understand the game.",
+  lanDisconnected: "Lost the connection to the game server.",
+  partnerLeft: "Player 2 has left the game.",
+  versusHint: "Press where a rocket should enter the sky and release over its target.",
+  defenseHeld: "The defense held",
+  defenseBroken: "Defenses destroyed — you win!",
+  narrator: "Mission briefings",
+  briefingTitle: "Briefing",
+  debriefTitle: "Debrief",
+  debriefPending: "Receiving debrief…",
+  sentenceSeparator: " ",
+  listSeparator: ", ",
+  briefingWave: "Command to all batteries: wave {wave} is inbound.",
+  briefingFinalWave: "Command to all batteries: this is the final wave.",
+  briefingContacts: {
+    one: "Radar shows {count} contact: {threats}.",
+    other: "Radar shows {count} contacts: {threats}.",
+  },
+  briefingCitiesIntact: "Every city is still standing. Keep it that way.",
+  briefingCitiesLeft: {
+    one: "Only {count} city is left. Hold the line!",
+    other: "{count} cities are left. Hold the line!",
+  },
+  debriefWon: "Victory. The skies are clear after wave {wave}, with {score} points on the board.",
+  debriefLost: "The defenses fell during wave {wave}. Final score: {score}.",
+  debriefNoCitiesLost: "Not a single city was lost.",
+  debriefCitiesLost: {
+    one: "{count} city was lost.",
+    other: "{count} cities were lost.",
+  },
+  debriefWasted: {
+    one: "{count} interceptor hit nothing but sky.",
+    other: "{count} interceptors hit nothing but sky.",
+  },
+  debriefSharp: "Sharp shooting: {accuracy}% of interceptors found a target.",
+  debriefWild: "Only {accuracy}% of interceptors found a target. Let the warheads come to you before firing.",
+  replayNotJson: "That replay file is not valid JSON.",
+  replayNotReplay: "That file is not a Max Nova Defense replay.",
+  replayUnsupportedVersion: "That replay was recorded by a different version of the game.",
+  replayCorrupt: "That replay file is damaged.",
+  batteries: "Batteries",
+  addBattery: "Add battery",
+  removeBattery: "Remove battery",
+  batteryNumber: "Battery {n}",
+  scenarioErrorNotJson: "That scenario file is not valid JSON.",
+  scenarioErrorNotScenario: "That file is not a Max Nova Defense scenario.",
+  scenarioErrorUnsupportedVersion: "That scenario was made for a different version of the game.",
+  scenarioErrorEmpty: "The scenario is empty.",
+  scenarioErrorNoName: "The scenario needs a name.",
+  scenarioErrorTerrainPoints: "The terrain needs {min} to {max} height points.",
+  scenarioErrorTerrainHeight: "Terrain heights must be from {min} to {max} pixels.",
+  scenarioErrorBatteryCount: "The scenario needs {min} to {max} batteries.",
+  scenarioErrorBatteryPosition: "Battery {n} is off the playfield.",
+  scenarioErrorBatteryAmmo: "Battery {n} ammo must be a whole number from {min} to {max}.",
+  scenarioErrorBatteryOrder: "Batteries must be listed left to right.",
+  scenarioErrorCityCount: "The scenario needs {min} to {max} cities.",
+  scenarioErrorCityPosition: "City {n} is off the playfield.",
+  scenarioErrorWaveCount: "The scenario needs {min} to {max} waves.",
+  scenarioErrorWaveEnemies: "Wave {n}: enemies must be a whole number from {min} to {max}.",
+  scenarioErrorWaveSpeed: "Wave {n}: speeds must be from {min} to {max}, minimum first.",
+  scenarioErrorWaveSpawnInterval: "Wave {n}: the spawn interval must be from {min} to {max} seconds.",
+  scenarioErrorWaveMix: "Wave {n}: the enemy mix is missing.",
+  scenarioErrorWaveKind: "Wave {n}: unknown enemy kind \"{kind}\".",
+  scenarioErrorWaveWeight: "Wave {n}: the weight for {kind} must be zero or more.",
+  scenarioErrorWaveNoEnemies: "Wave {n}: at least one enemy kind needs a weight above zero.",
+  scenarioErrorWinScore: "The win score must be a positive whole number.",
+  scenarioErrorWinType: "The win condition must be \"waves\" or \"score\".",
+  practiceRun: "Practice",
+  resultCodeMissing: "No result code found. Paste the whole shared text or the code starting with MND1-.",
+  resultCodeAltered: "That result code has been altered or mistyped.",
+  resultCodeCorrupt: "That result code is damaged.",
+  lanOwnRoom: "That's the room you're hosting. Share its code with the other player instead.",
+  hostPaused: "The host has paused the game.",
+};
+
+export default en;
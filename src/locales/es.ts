@@ -0,0 +1,288 @@
+import type { Messages } from '../i18n';
+
+const es: Messages = {
+  title: "Max Nova Defense",
+  start: "Empezar partida",
+  gameOver: "Fin de la partida",
+  victory: "¡Victoria!",
+  score: "Puntuación",
+  ammo: "Munición",
+  playAgain: "Jugar de nuevo",
+  instructions: "Haz clic en cualquier lugar para interceptar los cohetes. ¡Protege tus ciudades!",
+  winCondition: {
+    one: "Sobrevive a la oleada para ganar.",
+    other: "Sobrevive a las {count} oleadas para ganar.",
+  },
+  lossCondition: "Si caen todas las baterías o todas las ciudades, se acaba la partida.",
+  howToPlay: "Cómo jugar",
+  winConditionTitle: "Condición de victoria",
+  lossConditionTitle: "Condición de derrota",
+  left: "Izquierda",
+  center: "Centro",
+  right: "Derecha",
+  wave: "Oleada",
+  waveComplete: "Oleada superada",
+  citiesSaved: "Ciudades salvadas",
+  ammoLeft: "Munición sin usar",
+  bonus: "Bonificación",
+  nextWave: "Siguiente oleada",
+  paused: "En pausa",
+  resume: "Continuar",
+  restart: "Reiniciar",
+  quitToMenu: "Volver al menú",
+  pauseHint: "Pulsa Esc o P para pausar",
+  settings: "Ajustes",
+  close: "Cerrar",
+  language: "Idioma",
+  fireMode: "Modo de disparo",
+  fireModeNearest: "Batería más cercana",
+  fireModeNearestHint: "Los clics disparan desde la batería con munición más cercana.",
+  fireModeExplicit: "Batería elegida",
+  fireModeExplicitHint: "{keys} o {numbers} disparan desde las baterías, de izquierda a derecha, hacia el cursor; con mando, {buttons}. Los clics usan la última batería elegida.",
+  controlsHint: "Las flechas o el joystick del mando mueven la mira; Espacio, Intro o el botón A disparan.",
+  accessibility: "Accesibilidad",
+  palette: "Paleta de colores",
+  paletteDefault: "Estándar",
+  paletteColorblind: "Apta para daltonismo",
+  highContrast: "Alto contraste",
+  reducedMotion: "Reducir movimiento",
+  leaderboard: "Clasificación",
+  leaderboardOffline: "Sin conexión",
+  leaderboardOfflineHint: "No se puede contactar con el servidor de clasificación; se muestran las puntuaciones guardadas en este navegador.",
+  leaderboardEmpty: "Aún no hay puntuaciones.",
+  playerName: "Tu nombre",
+  submitScore: "Enviar",
+  replay: "Repetición",
+  watchReplay: "Ver repetición",
+  exportReplay: "Exportar repetición",
+  loadReplay: "Cargar archivo de repetición",
+  exitReplay: "Salir de la repetición",
+  play: "Reproducir",
+  pause: "Pausa",
+  guidance: "Guiado de misiles",
+  guidanceHint: "Se aplica a partir de la próxima partida.",
+  guidanceBallistic: "Balístico",
+  guidanceBallisticHint: "Clásico: los interceptores estallan justo donde apuntas.",
+  guidanceLockOn: "Fijación",
+  guidanceLockOnHint: "Al lanzarse, fija el enemigo más cercano al punto de mira y lo persigue.",
+  guidanceHeatSeeking: "Buscador de calor",
+  guidanceHeatSeekingHint: "En vuelo, gira siempre hacia el enemigo más cercano.",
+  aimAssist: "Asistencia de puntería",
+  credits: "Créditos",
+  armory: "Arsenal",
+  maxed: "Máx.",
+  upgradeBlastRadius: "Radio de explosión",
+  upgradeBlastRadiusHint: "Las explosiones de los interceptores son un {percent}% mayores.",
+  upgradeMissileSpeed: "Velocidad de misil",
+  upgradeMissileSpeedHint: "Los interceptores vuelan un {percent}% más rápido.",
+  upgradeAmmoCapacity: "Capacidad de munición",
+  upgradeAmmoCapacityHint: {
+    one: "Cada batería admite {count} interceptor más.",
+    other: "Cada batería admite {count} interceptores más.",
+  },
+  upgradeShields: "Escudos",
+  upgradeShieldsHint: "Cada estructura en pie resiste un impacto en la próxima oleada.",
+  upgradeRebuildBattery: "Reconstruir batería",
+  upgradeRebuildBatteryHint: "Restaura una batería destruida con la munición completa.",
+  upgradeRebuildCity: "Reconstruir ciudad",
+  upgradeRebuildCityHint: "Restaura una ciudad destruida.",
+  difficulty: "Dificultad",
+  difficultyEasy: "Fácil",
+  difficultyNormal: "Normal",
+  difficultyHard: "Difícil",
+  difficultyCustom: "Personalizada",
+  customEnemySpeed: "Velocidad enemiga",
+  customSpawnRate: "Ritmo de lanzamiento",
+  customAmmo: "Munición",
+  customWaves: "Oleadas para ganar",
+  endless: "Infinito",
+  endlessHint: "Sin victoria: las oleadas se endurecen hasta que caigas.",
+  endlessCondition: "Modo infinito: resiste todo lo que puedas.",
+  audio: "Sonido",
+  masterVolume: "General",
+  sfxVolume: "Efectos",
+  musicVolume: "Música",
+  mute: "Silenciar",
+  muteHint: "Pulsa M para silenciar o activar el sonido en cualquier momento.",
+  effects: "Calidad de efectos",
+  effectsOff: "No",
+  effectsLow: "Baja",
+  effectsHigh: "Alta",
+  effectsHint: "Chispas, escombros, estelas de cohetes y temblor de pantalla. Bájala en equipos lentos.",
+  fullscreen: "Pantalla completa (F)",
+  exitFullscreen: "Salir de pantalla completa (F)",
+  continueGame: "Continuar",
+  savedGameSummary: "Oleada {wave} · {score}",
+  newGame: "Nueva partida",
+  saveDiscarded: "No se pudo restaurar la partida guardada: está dañada o es de una versión incompatible.",
+  statistics: "Estadísticas",
+  lifetime: "Total",
+  lastRun: "Última partida",
+  noRunsYet: "Juega una partida para empezar a reunir estadísticas.",
+  gamesPlayed: "Partidas",
+  wins: "Victorias",
+  shotsFired: "Disparos",
+  accuracy: "Precisión",
+  enemiesDestroyed: "Enemigos destruidos",
+  bestMultiKill: "Mejor derribo múltiple",
+  bestWave: "Mejor oleada",
+  bestScore: "Mejor puntuación",
+  achievements: "Logros",
+  achievementUnlocked: "Logro desbloqueado",
+  achFirstBlood: "Primera sangre",
+  achFirstBloodHint: "Destruye tu primer enemigo.",
+  achChainReaction: "Reacción en cadena",
+  achChainReactionHint: "Destruye 5 enemigos con una sola explosión.",
+  achVeteran: "Veterano",
+  achVeteranHint: "Llega a la oleada 5.",
+  achSharpshooter: "Tirador de élite",
+  achSharpshooterHint: "Acierta el 75% de al menos 40 disparos en una partida.",
+  achVictory: "Defensor",
+  achVictoryHint: "Gana una partida.",
+  achFlawless: "Impecable",
+  achFlawlessHint: "Gana sin perder ninguna ciudad.",
+  achSurvivor: "Superviviente",
+  achSurvivorHint: "Llega a la oleada 15 en modo infinito.",
+  achCenturion: "Centurión",
+  achCenturionHint: "Destruye 500 enemigos en total.",
+  levelEditor: "Editor de niveles",
+  editorHint: "Arrastra las baterías, las ciudades y los puntos del terreno sobre el campo para dar forma al nivel.",
+  playtest: "Probar",
+  backToEditor: "Volver al editor",
+  importScenario: "Importar",
+  exportScenario: "Exportar",
+  newScenario: "Nuevo",
+  scenarioName: "Nombre",
+  winBy: "Victoria al",
+  winByWaves: "Superar todas las oleadas",
+  winByScore: "Alcanzar una puntuación",
+  scoreCondition: "Alcanza {score} puntos para ganar.",
+  terrainPoints: "Puntos del terreno",
+  flattenTerrain: "Aplanar",
+  cities: "Ciudades",
+  addCity: "Añadir ciudad",
+  removeCity: "Quitar ciudad",
+  editorWaves: "Oleadas",
+  addWave: "Añadir oleada",
+  removeWave: "Quitar oleada",
+  campaignWaves: "Usar oleadas de campaña",
+  waveEnemies: "Enemigos",
+  waveSpeedMin: "Vel. mínima",
+  waveSpeedMax: "Vel. máxima",
+  waveInterval: "Intervalo (s)",
+  enemyRocket: "Cohete",
+  enemyMirv: "MIRV",
+  enemySmartBomb: "Bomba inteligente",
+  enemyBomber: "Bombardero",
+  enemySatellite: "Satélite",
+  dailyChallenge: "Desafío diario",
+  dailyIntro: "Hoy todos se enfrentan a los mismos cohetes con las mismas reglas. Tienes un solo intento.",
+  dailyPlay: "Jugar el desafío de hoy",
+  dailyUnfinished: "El intento de hoy se empezó pero no se terminó. ¡Vuelve mañana!",
+  dailyPlayed: "Jugado · {score}",
+  copyResult: "Copiar resultado",
+  copied: "¡Copiado!",
+  verifyResult: "Verificar un resultado",
+  verifyPlaceholder: "Pega aquí un resultado compartido",
+  verifyValid: "Resultado válido del {date}",
+  practiceChallenge: "Practicar este desafío",
+  practiceLocked: "Podrás practicar cuando hayas jugado el desafío de ese día.",
+  multiplayer: "Multijugador",
+  localCoop: "Cooperativo local",
+  localCoopHint: "El jugador 1 apunta con el ratón o la pantalla táctil; el jugador 2, con las flechas y Espacio o con un mando. Cada uno solo dispara desde sus propias baterías.",
+  batteryOwners: "Dueños de las baterías",
+  playerShort: "J{player}",
+  playerScore: "Jugador {player}",
+  coopNeedsBoth: "Cada jugador necesita al menos una batería.",
+  startCoop: "Empezar cooperativo",
+  lanGame: "Partida en LAN",
+  lanHint: "Inicia el servidor del juego con npm run server y que el segundo jugador abra la dirección de esta página desde su dispositivo.",
+  hostCoop: "Crear cooperativo",
+  hostVersus: "Crear versus",
+  roomCode: "Código de sala",
+  joinRoom: "Unirse",
+  waitingForPlayer: "Esperando a un segundo jugador…",
+  playerJoined: "Segundo jugador conectado",
+  startLanGame: "Empezar partida",
+  waitingForHost: "Esperando al anfitrión…",
+  leaveRoom: "Salir",
+  lanModeCoop: "Cooperativo: defendéis las ciudades juntos.",
+  lanModeVersus: "Versus: el invitado lanza los cohetes contra el defensor.",
+  lanRoomNotFound: "No hay ninguna sala con ese código.",
+  lanRoomFull: "Esa sala ya tiene dos jugadores.",
+  lanBadMessage: "El servidor no ha entendido la partida.",
+  lanDisconnected: "Se perdió la conexión con el servidor del juego.",
+  partnerLeft: "El jugador 2 ha abandonado la partida.",
+  versusHint: "Pulsa donde debe entrar un cohete y suelta sobre su objetivo.",
+  defenseHeld: "La defensa ha resistido",
+  defenseBroken: "Defensas destruidas: ¡has ganado!",
+  narrator: "Informes de misión",
+  briefingTitle: "Informe",
+  debriefTitle: "Balance",
+  debriefPending: "Recibiendo balance…",
+  sentenceSeparator: " ",
+  listSeparator: ", ",
+  briefingWave: "Mando a todas las baterías: se acerca la oleada {wave}.",
+  briefingFinalWave: "Mando a todas las baterías: esta es la última oleada.",
+  briefingContacts: {
+    one: "El radar detecta {count} contacto: {threats}.",
+    other: "El radar detecta {count} contactos: {threats}.",
+  },
+  briefingCitiesIntact: "Todas las ciudades siguen en pie. Que siga así.",
+  briefingCitiesLeft: {
+    one: "Solo queda {count} ciudad. ¡Aguantad!",
+    other: "Quedan {count} ciudades. ¡Aguantad!",
+  },
+  debriefWon: "Victoria. El cielo está despejado tras la oleada {wave}, con {score} puntos.",
+  debriefLost: "Las defensas cayeron en la oleada {wave}. Puntuación final: {score}.",
+  debriefNoCitiesLost: "No se perdió ni una sola ciudad.",
+  debriefCitiesLost: {
+    one: "Se perdió {count} ciudad.",
+    other: "Se perdieron {count} ciudades.",
+  },
+  debriefWasted: {
+    one: "{count} interceptor solo alcanzó el cielo.",
+    other: "{count} interceptores solo alcanzaron el cielo.",
+  },
+  debriefSharp: "Buena puntería: el {accuracy}% de los interceptores dio en el blanco.",
+  debriefWild: "Solo el {accuracy}% de los interceptores dio en el blanco. Deja que las ojivas se acerquen antes de disparar.",
+  replayNotJson: "Ese archivo de repetición no es JSON válido.",
+  replayNotReplay: "Ese archivo no es una repetición de Max Nova Defense.",
+  replayUnsupportedVersion: "Esa repetición se grabó con otra versión del juego.",
+  replayCorrupt: "Ese archivo de repetición está dañado.",
+  batteries: "Baterías",
+  addBattery: "Añadir batería",
+  removeBattery: "Quitar batería",
+  batteryNumber: "Batería {n}",
+  scenarioErrorNotJson: "Ese archivo de escenario no es JSON válido.",
+  scenarioErrorNotScenario: "Ese archivo no es un escenario de Max Nova Defense.",
+  scenarioErrorUnsupportedVersion: "Ese escenario se creó para otra versión del juego.",
+  scenarioErrorEmpty: "El escenario está vacío.",
+  scenarioErrorNoName: "El escenario necesita un nombre.",
+  scenarioErrorTerrainPoints: "El terreno necesita de {min} a {max} puntos de altura.",
+  scenarioErrorTerrainHeight: "Las alturas del terreno deben estar entre {min} y {max} píxeles.",
+  scenarioErrorBatteryCount: "El escenario necesita de {min} a {max} baterías.",
+  scenarioErrorBatteryPosition: "La batería {n} está fuera del campo.",
+  scenarioErrorBatteryAmmo: "La munición de la batería {n} debe ser un número entero de {min} a {max}.",
+  scenarioErrorBatteryOrder: "Las baterías deben ir de izquierda a derecha.",
+  scenarioErrorCityCount: "El escenario necesita de {min} a {max} ciudades.",
+  scenarioErrorCityPosition: "La ciudad {n} está fuera del campo.",
+  scenarioErrorWaveCount: "El escenario necesita de {min} a {max} oleadas.",
+  scenarioErrorWaveEnemies: "Oleada {n}: los enemigos deben ser un número entero de {min} a {max}.",
+  scenarioErrorWaveSpeed: "Oleada {n}: las velocidades deben estar entre {min} y {max}, primero la mínima.",
+  scenarioErrorWaveSpawnInterval: "Oleada {n}: el intervalo de aparición debe estar entre {min} y {max} segundos.",
+  scenarioErrorWaveMix: "Oleada {n}: falta la mezcla de enemigos.",
+  scenarioErrorWaveKind: "Oleada {n}: tipo de enemigo desconocido «{kind}».",
+  scenarioErrorWaveWeight: "Oleada {n}: el peso de {kind} debe ser cero o más.",
+  scenarioErrorWaveNoEnemies: "Oleada {n}: al menos un tipo de enemigo necesita un peso mayor que cero.",
+  scenarioErrorWinScore: "La puntuación de victoria debe ser un número entero positivo.",
+  scenarioErrorWinType: "La condición de victoria debe ser «waves» o «score».",
+  practiceRun: "Práctica",
+  resultCodeMissing: "No se encontró ningún código de resultado. Pega el texto compartido completo o el código que empieza por MND1-.",
+  resultCodeAltered: "Ese código de resultado se ha modificado o está mal escrito.",
+  resultCodeCorrupt: "Ese código de resultado está dañado.",
+  lanOwnRoom: "Esa es la sala que estás alojando. Comparte su código con el otro jugador.",
+  hostPaused: "El anfitrión ha pausado la partida.",
+};
+
+export default es;
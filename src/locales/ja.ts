@@ -0,0 +1,282 @@
+import type { Messages } from '../i18n';
+
+const ja: Messages = {
+  title: "マックス・ノヴァ・ディフェンス",
+  start: "ゲーム開始",
+  gameOver: "ゲームオーバー",
+  victory: "勝利！",
+  score: "スコア",
+  ammo: "弾薬",
+  playAgain: "もう一度プレイ",
+  instructions: "画面をクリックしてロケットを迎撃し、都市を守ろう！",
+  winCondition: {
+    other: "全{count}ウェーブを耐え抜けば勝利。",
+  },
+  lossCondition: "すべての砲台、またはすべての都市が破壊されるとゲームオーバー。",
+  howToPlay: "遊び方",
+  winConditionTitle: "勝利条件",
+  lossConditionTitle: "敗北条件",
+  left: "左",
+  center: "中央",
+  right: "右",
+  wave: "ウェーブ",
+  waveComplete: "ウェーブクリア",
+  citiesSaved: "残った都市",
+  ammoLeft: "残り弾薬",
+  bonus: "ボーナス",
+  nextWave: "次のウェーブ",
+  paused: "一時停止中",
+  resume: "再開",
+  restart: "やり直す",
+  quitToMenu: "メニューに戻る",
+  pauseHint: "Esc か P キーで一時停止",
+  settings: "設定",
+  close: "閉じる",
+  language: "言語",
+  fireMode: "発射モード",
+  fireModeNearest: "最寄りの砲台",
+  fireModeNearestHint: "クリックすると弾薬が残っている最も近い砲台から発射します。",
+  fireModeExplicit: "砲台を指定",
+  fireModeExplicitHint: "{keys} または {numbers} で左から順に各砲台からカーソル位置へ発射（ゲームパッドは {buttons}）。クリックでは最後に選んだ砲台を使います。",
+  controlsHint: "矢印キーかゲームパッドのスティックで照準を動かし、スペース・Enter・A ボタンで発射します。",
+  accessibility: "アクセシビリティ",
+  palette: "カラーパレット",
+  paletteDefault: "標準",
+  paletteColorblind: "色覚サポート",
+  highContrast: "ハイコントラスト",
+  reducedMotion: "動きを減らす",
+  leaderboard: "ランキング",
+  leaderboardOffline: "オフライン",
+  leaderboardOfflineHint: "ランキングサーバーに接続できません。このブラウザに保存されたスコアを表示しています。",
+  leaderboardEmpty: "まだスコアがありません。",
+  playerName: "名前",
+  submitScore: "送信",
+  replay: "リプレイ",
+  watchReplay: "リプレイを見る",
+  exportReplay: "リプレイを書き出す",
+  loadReplay: "リプレイファイルを読み込む",
+  exitReplay: "リプレイを終了",
+  play: "再生",
+  pause: "一時停止",
+  guidance: "ミサイル誘導",
+  guidanceHint: "次のゲームから反映されます。",
+  guidanceBallistic: "弾道",
+  guidanceBallisticHint: "クラシック：迎撃弾は狙った地点で正確に爆発します。",
+  guidanceLockOn: "ロックオン",
+  guidanceLockOnHint: "発射時に照準に最も近い敵をロックオンして追尾します。",
+  guidanceHeatSeeking: "熱源追尾",
+  guidanceHeatSeekingHint: "飛行中、常に最も近い敵へ向きを変え続けます。",
+  aimAssist: "照準アシスト",
+  credits: "クレジット",
+  armory: "兵器庫",
+  maxed: "最大",
+  upgradeBlastRadius: "爆発範囲",
+  upgradeBlastRadiusHint: "迎撃弾の爆発が{percent}%大きくなります。",
+  upgradeMissileSpeed: "ミサイル速度",
+  upgradeMissileSpeedHint: "迎撃弾が{percent}%速く飛びます。",
+  upgradeAmmoCapacity: "弾薬容量",
+  upgradeAmmoCapacityHint: {
+    other: "各砲台に迎撃弾を{count}発多く積めます。",
+  },
+  upgradeShields: "シールド",
+  upgradeShieldsHint: "次のウェーブ中、無事な建物はそれぞれ一度だけ攻撃を防ぎます。",
+  upgradeRebuildBattery: "砲台を再建",
+  upgradeRebuildBatteryHint: "破壊された砲台を弾薬満タンで復旧します。",
+  upgradeRebuildCity: "都市を再建",
+  upgradeRebuildCityHint: "破壊された都市をひとつ復旧します。",
+  difficulty: "難易度",
+  difficultyEasy: "やさしい",
+  difficultyNormal: "ふつう",
+  difficultyHard: "むずかしい",
+  difficultyCustom: "カスタム",
+  customEnemySpeed: "敵の速度",
+  customSpawnRate: "発射頻度",
+  customAmmo: "弾薬",
+  customWaves: "勝利までのウェーブ数",
+  endless: "エンドレス",
+  endlessHint: "勝利なし：力尽きるまでウェーブは激しくなり続けます。",
+  endlessCondition: "エンドレスモード：できるだけ長く持ちこたえよう。",
+  audio: "オーディオ",
+  masterVolume: "全体",
+  sfxVolume: "効果音",
+  musicVolume: "音楽",
+  mute: "ミュート",
+  muteHint: "M キーでいつでもミュートを切り替えられます。",
+  effects: "エフェクト品質",
+  effectsOff: "オフ",
+  effectsLow: "低",
+  effectsHigh: "高",
+  effectsHint: "火花、破片、ロケットの軌跡、画面の揺れ。動作が重いときは下げてください。",
+  fullscreen: "全画面表示 (F)",
+  exitFullscreen: "全画面表示を終了 (F)",
+  continueGame: "続きから",
+  savedGameSummary: "ウェーブ {wave} · {score}",
+  newGame: "新しいゲーム",
+  saveDiscarded: "セーブデータが破損しているか、互換性のないバージョンのため復元できませんでした。",
+  statistics: "統計",
+  lifetime: "通算",
+  lastRun: "前回のゲーム",
+  noRunsYet: "ゲームをプレイすると統計の記録が始まります。",
+  gamesPlayed: "プレイ回数",
+  wins: "勝利数",
+  shotsFired: "発射数",
+  accuracy: "命中率",
+  enemiesDestroyed: "撃破した敵",
+  bestMultiKill: "最大同時撃破",
+  bestWave: "最高ウェーブ",
+  bestScore: "最高スコア",
+  achievements: "実績",
+  achievementUnlocked: "実績解除",
+  achFirstBlood: "初撃破",
+  achFirstBloodHint: "初めて敵を撃破する。",
+  achChainReaction: "連鎖反応",
+  achChainReactionHint: "1回の爆発で敵を5体撃破する。",
+  achVeteran: "ベテラン",
+  achVeteranHint: "ウェーブ5に到達する。",
+  achSharpshooter: "名射手",
+  achSharpshooterHint: "1ゲームで40発以上撃ち、命中率75%を達成する。",
+  achVictory: "守護者",
+  achVictoryHint: "ゲームに勝利する。",
+  achFlawless: "完全防衛",
+  achFlawlessHint: "都市をひとつも失わずに勝利する。",
+  achSurvivor: "生存者",
+  achSurvivorHint: "エンドレスモードでウェーブ15に到達する。",
+  achCenturion: "百戦錬磨",
+  achCenturionHint: "通算500体の敵を撃破する。",
+  levelEditor: "レベルエディター",
+  editorHint: "戦場の砲台・都市・地形のハンドルをドラッグしてレベルを作ります。",
+  playtest: "テストプレイ",
+  backToEditor: "エディターに戻る",
+  importScenario: "読み込む",
+  exportScenario: "書き出す",
+  newScenario: "新規",
+  scenarioName: "名前",
+  winBy: "勝利条件",
+  winByWaves: "全ウェーブをクリア",
+  winByScore: "スコアに到達",
+  scoreCondition: "{score} 点に到達すれば勝利。",
+  terrainPoints: "地形ポイント",
+  flattenTerrain: "平らにする",
+  cities: "都市",
+  addCity: "都市を追加",
+  removeCity: "都市を削除",
+  editorWaves: "ウェーブ",
+  addWave: "ウェーブを追加",
+  removeWave: "ウェーブを削除",
+  campaignWaves: "キャンペーンのウェーブを使う",
+  waveEnemies: "敵の数",
+  waveSpeedMin: "最低速度",
+  waveSpeedMax: "最高速度",
+  waveInterval: "間隔（秒）",
+  enemyRocket: "ロケット",
+  enemyMirv: "MIRV",
+  enemySmartBomb: "スマート爆弾",
+  enemyBomber: "爆撃機",
+  enemySatellite: "衛星",
+  dailyChallenge: "デイリーチャレンジ",
+  dailyIntro: "今日は全員が同じルールで同じロケットに挑みます。挑戦は1回だけ。",
+  dailyPlay: "今日のチャレンジに挑む",
+  dailyUnfinished: "今日の挑戦は開始済みですが未完了です。また明日！",
+  dailyPlayed: "プレイ済み · {score}",
+  copyResult: "結果をコピー",
+  copied: "コピーしました！",
+  verifyResult: "結果を検証",
+  verifyPlaceholder: "共有された結果をここに貼り付け",
+  verifyValid: "{date} の有効な結果",
+  practiceChallenge: "このチャレンジを練習",
+  practiceLocked: "その日のチャレンジをプレイすると練習できます。",
+  multiplayer: "マルチプレイ",
+  localCoop: "ローカル協力",
+  localCoopHint: "プレイヤー1はマウスかタッチ、プレイヤー2は矢印キーとスペース、またはゲームパッドで狙います。各自、自分の砲台からしか撃てません。",
+  batteryOwners: "砲台の担当",
+  playerShort: "P{player}",
+  playerScore: "プレイヤー {player}",
+  coopNeedsBoth: "各プレイヤーに砲台が1つ以上必要です。",
+  startCoop: "協力プレイ開始",
+  lanGame: "LAN ゲーム",
+  lanHint: "npm run server でゲームサーバーを起動し、2人目のプレイヤーは自分の端末でこのページのアドレスを開いてください。",
+  hostCoop: "協力でホスト",
+  hostVersus: "対戦でホスト",
+  roomCode: "ルームコード",
+  joinRoom: "参加",
+  waitingForPlayer: "2人目のプレイヤーを待っています…",
+  playerJoined: "2人目のプレイヤーが接続しました",
+  startLanGame: "ゲーム開始",
+  waitingForHost: "ホストを待っています…",
+  leaveRoom: "退出",
+  lanModeCoop: "協力：2人で都市を守ります。",
+  lanModeVersus: "対戦：ゲストが防衛側にロケットを発射します。",
+  lanRoomNotFound: "そのコードのルームはありません。",
+  lanRoomFull: "そのルームはすでに2人います。",
+  lanBadMessage: "サーバーがゲームの通信を理解できませんでした。",
+  lanDisconnected: "ゲームサーバーとの接続が切れました。",
+  partnerLeft: "プレイヤー2がゲームから抜けました。",
+  versusHint: "ロケットの突入地点で押し、目標の上で離してください。",
+  defenseHeld: "防衛成功",
+  defenseBroken: "防衛網を破壊 — あなたの勝ち！",
+  narrator: "作戦ブリーフィング",
+  briefingTitle: "ブリーフィング",
+  debriefTitle: "デブリーフィング",
+  debriefPending: "デブリーフィングを受信中…",
+  sentenceSeparator: "",
+  listSeparator: "、",
+  briefingWave: "司令部より全砲台へ：ウェーブ {wave} が接近中。",
+  briefingFinalWave: "司令部より全砲台へ：これが最終ウェーブだ。",
+  briefingContacts: {
+    other: "レーダーに {count} 個の反応：{threats}。",
+  },
+  briefingCitiesIntact: "都市はすべて無事だ。このまま守り抜け。",
+  briefingCitiesLeft: {
+    other: "残る都市は {count} つだけだ。持ちこたえろ！",
+  },
+  debriefWon: "勝利。ウェーブ {wave} を終えて空は晴れた。スコアは {score}。",
+  debriefLost: "ウェーブ {wave} で防衛線が崩壊した。最終スコア：{score}。",
+  debriefNoCitiesLost: "都市は一つも失われなかった。",
+  debriefCitiesLost: {
+    other: "{count} つの都市が失われた。",
+  },
+  debriefWasted: {
+    other: "{count} 発の迎撃ミサイルが空を切った。",
+  },
+  debriefSharp: "見事な射撃だ：迎撃ミサイルの {accuracy}% が命中した。",
+  debriefWild: "命中したのは迎撃ミサイルの {accuracy}% だけだ。弾頭を引きつけてから撃て。",
+  replayNotJson: "このリプレイファイルは正しい JSON ではありません。",
+  replayNotReplay: "このファイルはマックス・ノヴァ・ディフェンスのリプレイではありません。",
+  replayUnsupportedVersion: "このリプレイは別のバージョンのゲームで記録されています。",
+  replayCorrupt: "このリプレイファイルは壊れています。",
+  batteries: "砲台",
+  addBattery: "砲台を追加",
+  removeBattery: "砲台を削除",
+  batteryNumber: "砲台 {n}",
+  scenarioErrorNotJson: "このシナリオファイルは有効な JSON ではありません。",
+  scenarioErrorNotScenario: "このファイルはマックス・ノヴァ・ディフェンスのシナリオではありません。",
+  scenarioErrorUnsupportedVersion: "このシナリオは別のバージョンのゲーム用に作られています。",
+  scenarioErrorEmpty: "シナリオが空です。",
+  scenarioErrorNoName: "シナリオには名前が必要です。",
+  scenarioErrorTerrainPoints: "地形には {min}〜{max} 個の高さポイントが必要です。",
+  scenarioErrorTerrainHeight: "地形の高さは {min}〜{max} ピクセルにしてください。",
+  scenarioErrorBatteryCount: "シナリオには {min}〜{max} 基の砲台が必要です。",
+  scenarioErrorBatteryPosition: "砲台 {n} がフィールドの外にあります。",
+  scenarioErrorBatteryAmmo: "砲台 {n} の弾薬は {min}〜{max} の整数にしてください。",
+  scenarioErrorBatteryOrder: "砲台は左から右の順に並べてください。",
+  scenarioErrorCityCount: "シナリオには {min}〜{max} の都市が必要です。",
+  scenarioErrorCityPosition: "都市 {n} がフィールドの外にあります。",
+  scenarioErrorWaveCount: "シナリオには {min}〜{max} のウェーブが必要です。",
+  scenarioErrorWaveEnemies: "ウェーブ {n}：敵の数は {min}〜{max} の整数にしてください。",
+  scenarioErrorWaveSpeed: "ウェーブ {n}：速度は {min}〜{max} で、最小値を先にしてください。",
+  scenarioErrorWaveSpawnInterval: "ウェーブ {n}：出現間隔は {min}〜{max} 秒にしてください。",
+  scenarioErrorWaveMix: "ウェーブ {n}：敵の構成がありません。",
+  scenarioErrorWaveKind: "ウェーブ {n}：不明な敵の種類「{kind}」です。",
+  scenarioErrorWaveWeight: "ウェーブ {n}：{kind} の重みは 0 以上にしてください。",
+  scenarioErrorWaveNoEnemies: "ウェーブ {n}：少なくとも 1 種類の敵の重みを 0 より大きくしてください。",
+  scenarioErrorWinScore: "勝利スコアは正の整数にしてください。",
+  scenarioErrorWinType: "勝利条件は「waves」か「score」にしてください。",
+  practiceRun: "練習",
+  resultCodeMissing: "結果コードが見つかりません。共有テキスト全体か、MND1- で始まるコードを貼り付けてください。",
+  resultCodeAltered: "この結果コードは改変されているか、入力が間違っています。",
+  resultCodeCorrupt: "この結果コードは壊れています。",
+  lanOwnRoom: "それはあなたがホストしているルームです。コードをもう一人のプレイヤーに伝えてください。",
+  hostPaused: "ホストがゲームを一時停止しました。",
+};
+
+export default ja;
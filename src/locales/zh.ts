@@ -0,0 +1,282 @@
+import type { Messages } from '../i18n';
+
+const zh: Messages = {
+  title: "Max新星防御",
+  start: "开始游戏",
+  gameOver: "游戏结束",
+  victory: "胜利！",
+  score: "得分",
+  ammo: "弹药",
+  playAgain: "再玩一次",
+  instructions: "点击屏幕发射拦截导弹。保护你的城市！",
+  winCondition: {
+    other: "坚守全部 {count} 波攻击即可获胜。",
+  },
+  lossCondition: "所有炮台或所有城市被毁 = 游戏结束。",
+  howToPlay: "玩法说明",
+  winConditionTitle: "胜利条件",
+  lossConditionTitle: "失败条件",
+  left: "左侧",
+  center: "中间",
+  right: "右侧",
+  wave: "波次",
+  waveComplete: "波次完成",
+  citiesSaved: "幸存城市",
+  ammoLeft: "剩余弹药",
+  bonus: "奖励",
+  nextWave: "下一波",
+  paused: "已暂停",
+  resume: "继续",
+  restart: "重新开始",
+  quitToMenu: "返回主菜单",
+  pauseHint: "按 Esc 或 P 键暂停",
+  settings: "设置",
+  close: "关闭",
+  language: "语言",
+  fireMode: "射击模式",
+  fireModeNearest: "最近炮台",
+  fireModeNearestHint: "点击时由最近且有弹药的炮台发射。",
+  fireModeExplicit: "指定炮台",
+  fireModeExplicitHint: "按 {keys} 或 {numbers} 由左至右各炮台向光标处发射；手柄使用 {buttons}。点击时使用最后选择的炮台。",
+  controlsHint: "方向键或手柄摇杆移动准星；空格、回车或 A 键发射。",
+  accessibility: "无障碍",
+  palette: "配色方案",
+  paletteDefault: "标准",
+  paletteColorblind: "色盲友好",
+  highContrast: "高对比度",
+  reducedMotion: "减少动态效果",
+  leaderboard: "排行榜",
+  leaderboardOffline: "离线",
+  leaderboardOfflineHint: "无法连接排行榜服务器，显示本浏览器保存的成绩。",
+  leaderboardEmpty: "暂无成绩。",
+  playerName: "你的名字",
+  submitScore: "提交",
+  replay: "回放",
+  watchReplay: "观看回放",
+  exportReplay: "导出回放",
+  loadReplay: "载入回放文件",
+  exitReplay: "退出回放",
+  play: "播放",
+  pause: "暂停",
+  guidance: "导弹制导",
+  guidanceHint: "下一局开始生效。",
+  guidanceBallistic: "弹道",
+  guidanceBallisticHint: "经典模式：拦截弹在瞄准点准确引爆。",
+  guidanceLockOn: "锁定",
+  guidanceLockOnHint: "发射时锁定离瞄准点最近的敌人并持续追踪。",
+  guidanceHeatSeeking: "热追踪",
+  guidanceHeatSeekingHint: "飞行中持续转向最近的敌人。",
+  aimAssist: "瞄准辅助",
+  credits: "点数",
+  armory: "军械库",
+  maxed: "已满",
+  upgradeBlastRadius: "爆炸半径",
+  upgradeBlastRadiusHint: "拦截弹爆炸范围扩大{percent}%。",
+  upgradeMissileSpeed: "导弹速度",
+  upgradeMissileSpeedHint: "拦截弹飞行速度提高{percent}%。",
+  upgradeAmmoCapacity: "弹药容量",
+  upgradeAmmoCapacityHint: {
+    other: "每个炮台多装{count}枚拦截弹。",
+  },
+  upgradeShields: "护盾",
+  upgradeShieldsHint: "下一波中每座完好的建筑可抵挡一次攻击。",
+  upgradeRebuildBattery: "重建炮台",
+  upgradeRebuildBatteryHint: "修复一座被摧毁的炮台并装满弹药。",
+  upgradeRebuildCity: "重建城市",
+  upgradeRebuildCityHint: "修复一座被摧毁的城市。",
+  difficulty: "难度",
+  difficultyEasy: "简单",
+  difficultyNormal: "普通",
+  difficultyHard: "困难",
+  difficultyCustom: "自定义",
+  customEnemySpeed: "敌人速度",
+  customSpawnRate: "发射频率",
+  customAmmo: "弹药",
+  customWaves: "获胜波数",
+  endless: "无尽模式",
+  endlessHint: "没有胜利：攻击越来越猛烈，直到防线崩溃。",
+  endlessCondition: "无尽模式：尽可能坚持下去。",
+  audio: "音频",
+  masterVolume: "主音量",
+  sfxVolume: "音效",
+  musicVolume: "音乐",
+  mute: "静音",
+  muteHint: "随时按 M 键切换静音。",
+  effects: "特效质量",
+  effectsOff: "关闭",
+  effectsLow: "低",
+  effectsHigh: "高",
+  effectsHint: "火花、碎片、导弹尾迹和屏幕震动。电脑较慢时可调低。",
+  fullscreen: "全屏 (F)",
+  exitFullscreen: "退出全屏 (F)",
+  continueGame: "继续游戏",
+  savedGameSummary: "第 {wave} 波 · {score}",
+  newGame: "新游戏",
+  saveDiscarded: "存档已损坏或来自不兼容的版本，无法恢复。",
+  statistics: "统计",
+  lifetime: "累计",
+  lastRun: "上一局",
+  noRunsYet: "玩一局后即可开始记录统计。",
+  gamesPlayed: "局数",
+  wins: "胜利",
+  shotsFired: "发射数",
+  accuracy: "命中率",
+  enemiesDestroyed: "击毁敌人",
+  bestMultiKill: "最佳连杀",
+  bestWave: "最高波数",
+  bestScore: "最高分",
+  achievements: "成就",
+  achievementUnlocked: "成就解锁",
+  achFirstBlood: "首杀",
+  achFirstBloodHint: "击毁第一个敌人。",
+  achChainReaction: "连锁反应",
+  achChainReactionHint: "一次爆炸击毁 5 个敌人。",
+  achVeteran: "老兵",
+  achVeteranHint: "到达第 5 波。",
+  achSharpshooter: "神射手",
+  achSharpshooterHint: "单局至少发射 40 枚且命中率达到 75%。",
+  achVictory: "守护者",
+  achVictoryHint: "赢得一局游戏。",
+  achFlawless: "完美防守",
+  achFlawlessHint: "不失去任何城市赢得胜利。",
+  achSurvivor: "幸存者",
+  achSurvivorHint: "在无尽模式中到达第 15 波。",
+  achCenturion: "百战勇士",
+  achCenturionHint: "累计击毁 500 个敌人。",
+  levelEditor: "关卡编辑器",
+  editorHint: "在战场上拖动炮台、城市和地形控制点来设计关卡。",
+  playtest: "试玩",
+  backToEditor: "返回编辑器",
+  importScenario: "导入",
+  exportScenario: "导出",
+  newScenario: "新建",
+  scenarioName: "名称",
+  winBy: "胜利条件",
+  winByWaves: "清除所有波次",
+  winByScore: "达到目标分数",
+  scoreCondition: "达到 {score} 分即可获胜。",
+  terrainPoints: "地形控制点",
+  flattenTerrain: "铺平",
+  cities: "城市",
+  addCity: "添加城市",
+  removeCity: "移除城市",
+  editorWaves: "波次",
+  addWave: "添加波次",
+  removeWave: "移除波次",
+  campaignWaves: "使用战役波次",
+  waveEnemies: "敌人数",
+  waveSpeedMin: "最低速度",
+  waveSpeedMax: "最高速度",
+  waveInterval: "间隔（秒）",
+  enemyRocket: "火箭",
+  enemyMirv: "分导弹头",
+  enemySmartBomb: "智能炸弹",
+  enemyBomber: "轰炸机",
+  enemySatellite: "卫星",
+  dailyChallenge: "每日挑战",
+  dailyIntro: "今天所有人面对相同的火箭和相同的规则。你只有一次机会。",
+  dailyPlay: "开始今日挑战",
+  dailyUnfinished: "今天的挑战已开始但未完成。明天再来吧！",
+  dailyPlayed: "已完成 · {score}",
+  copyResult: "复制成绩",
+  copied: "已复制！",
+  verifyResult: "验证成绩",
+  verifyPlaceholder: "在此粘贴分享的成绩",
+  verifyValid: "{date} 的有效成绩",
+  practiceChallenge: "练习此挑战",
+  practiceLocked: "完成当天的挑战后才能练习。",
+  multiplayer: "多人游戏",
+  localCoop: "本地合作",
+  localCoopHint: "玩家 1 用鼠标或触屏瞄准；玩家 2 用方向键和空格键，或使用手柄。每人只能用自己的炮台开火。",
+  batteryOwners: "炮台归属",
+  playerShort: "P{player}",
+  playerScore: "玩家 {player}",
+  coopNeedsBoth: "每位玩家至少需要一座炮台。",
+  startCoop: "开始合作",
+  lanGame: "局域网游戏",
+  lanHint: "先用 npm run server 启动游戏服务器，再让另一位玩家在自己的设备上打开本页面的地址。",
+  hostCoop: "主持合作",
+  hostVersus: "主持对战",
+  roomCode: "房间码",
+  joinRoom: "加入",
+  waitingForPlayer: "等待第二位玩家…",
+  playerJoined: "第二位玩家已连接",
+  startLanGame: "开始游戏",
+  waitingForHost: "等待主机开始…",
+  leaveRoom: "离开",
+  lanModeCoop: "合作：共同保卫城市。",
+  lanModeVersus: "对战：访客向防守方发射火箭。",
+  lanRoomNotFound: "没有这个房间码。",
+  lanRoomFull: "该房间已有两位玩家。",
+  lanBadMessage: "服务器无法识别该游戏。",
+  lanDisconnected: "与游戏服务器的连接已断开。",
+  partnerLeft: "玩家 2 已离开游戏。",
+  versusHint: "按下选择火箭进入天空的位置，在目标上方松开。",
+  defenseHeld: "防线守住了",
+  defenseBroken: "防线已被摧毁——你赢了！",
+  narrator: "任务简报",
+  briefingTitle: "简报",
+  debriefTitle: "战后汇报",
+  debriefPending: "正在接收战后汇报…",
+  sentenceSeparator: "",
+  listSeparator: "、",
+  briefingWave: "指挥部呼叫所有炮台：第 {wave} 波来袭。",
+  briefingFinalWave: "指挥部呼叫所有炮台：这是最后一波。",
+  briefingContacts: {
+    other: "雷达发现 {count} 个目标：{threats}。",
+  },
+  briefingCitiesIntact: "所有城市仍然完好，务必守住。",
+  briefingCitiesLeft: {
+    other: "只剩 {count} 座城市了，坚守阵地！",
+  },
+  debriefWon: "胜利。第 {wave} 波过后天空已经肃清，得分 {score}。",
+  debriefLost: "防线在第 {wave} 波中失守。最终得分：{score}。",
+  debriefNoCitiesLost: "没有损失一座城市。",
+  debriefCitiesLost: {
+    other: "损失了 {count} 座城市。",
+  },
+  debriefWasted: {
+    other: "{count} 枚拦截弹什么也没击中。",
+  },
+  debriefSharp: "精准射击：{accuracy}% 的拦截弹命中目标。",
+  debriefWild: "只有 {accuracy}% 的拦截弹命中目标。等弹头靠近再开火。",
+  replayNotJson: "该回放文件不是有效的 JSON。",
+  replayNotReplay: "该文件不是Max新星防御的回放。",
+  replayUnsupportedVersion: "该回放由其他版本的游戏录制。",
+  replayCorrupt: "该回放文件已损坏。",
+  batteries: "炮台",
+  addBattery: "添加炮台",
+  removeBattery: "移除炮台",
+  batteryNumber: "炮台 {n}",
+  scenarioErrorNotJson: "该关卡文件不是有效的 JSON。",
+  scenarioErrorNotScenario: "该文件不是Max新星防御的关卡。",
+  scenarioErrorUnsupportedVersion: "该关卡是为其他版本的游戏制作的。",
+  scenarioErrorEmpty: "关卡是空的。",
+  scenarioErrorNoName: "关卡需要一个名称。",
+  scenarioErrorTerrainPoints: "地形需要 {min} 到 {max} 个高度点。",
+  scenarioErrorTerrainHeight: "地形高度必须在 {min} 到 {max} 像素之间。",
+  scenarioErrorBatteryCount: "关卡需要 {min} 到 {max} 座炮台。",
+  scenarioErrorBatteryPosition: "炮台 {n} 在场地之外。",
+  scenarioErrorBatteryAmmo: "炮台 {n} 的弹药必须是 {min} 到 {max} 之间的整数。",
+  scenarioErrorBatteryOrder: "炮台必须从左到右排列。",
+  scenarioErrorCityCount: "关卡需要 {min} 到 {max} 座城市。",
+  scenarioErrorCityPosition: "城市 {n} 在场地之外。",
+  scenarioErrorWaveCount: "关卡需要 {min} 到 {max} 波。",
+  scenarioErrorWaveEnemies: "第 {n} 波：敌人数量必须是 {min} 到 {max} 之间的整数。",
+  scenarioErrorWaveSpeed: "第 {n} 波：速度必须在 {min} 到 {max} 之间，且最小值在前。",
+  scenarioErrorWaveSpawnInterval: "第 {n} 波：出现间隔必须在 {min} 到 {max} 秒之间。",
+  scenarioErrorWaveMix: "第 {n} 波：缺少敌人组成。",
+  scenarioErrorWaveKind: "第 {n} 波：未知的敌人类型“{kind}”。",
+  scenarioErrorWaveWeight: "第 {n} 波：{kind} 的权重必须大于或等于零。",
+  scenarioErrorWaveNoEnemies: "第 {n} 波：至少要有一种敌人的权重大于零。",
+  scenarioErrorWinScore: "胜利分数必须是正整数。",
+  scenarioErrorWinType: "胜利条件必须是“waves”或“score”。",
+  practiceRun: "练习",
+  resultCodeMissing: "未找到成绩代码。请粘贴完整的分享文本或以 MND1- 开头的代码。",
+  resultCodeAltered: "该成绩代码已被修改或输入有误。",
+  resultCodeCorrupt: "该成绩代码已损坏。",
+  lanOwnRoom: "这是你正在主持的房间。请把房间代码分享给另一位玩家。",
+  hostPaused: "房主已暂停游戏。",
+};
+
+export default zh;
@@ -1,10 +1,13 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import { detectLanguage, loadTranslation } from './i18n';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-);
+loadTranslation(detectLanguage()).then(translation => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App initialTranslation={translation} />
+    </StrictMode>,
+  );
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createGame } from './game/engine';
+import { LANGUAGES, type Language } from './i18n';
+import {
+  briefingContext,
+  createNarrator,
+  createTemplateNarrator,
+  debriefContext,
+  withFallback,
+  type NarratorProvider,
+} from './narrator';
+import { createRunStats } from './stats';
+
+const LANGUAGE_CODES = LANGUAGES.map(l => l.code);
+
+function contexts(language: Language) {
+  const state = createGame(3);
+  state.cities[1].destroyed = true;
+  const run = { ...createRunStats(), shots: [10, 4, 6], hits: 5 };
+  return {
+    briefing: briefingContext(state, language),
+    debrief: debriefContext({ ...state, status: 'lost' }, language, run),
+  };
+}
+
+const failing: NarratorProvider = {
+  briefing: () => Promise.reject(new Error('offline')),
+  debrief: () => Promise.reject(new Error('offline')),
+};
+
+// --- Offline templates ---
+
+describe('template narrator', () => {
+  it.each(LANGUAGE_CODES)('gives the same lines for the same game in %s', async language => {
+    const { briefing, debrief } = contexts(language);
+    const first = createTemplateNarrator();
+    const second = createTemplateNarrator();
+    expect(await first.briefing(briefing)).toBe(await second.briefing(briefing));
+    expect(await first.debrief(debrief)).toBe(await second.debrief(debrief));
+    expect(await first.briefing(briefing)).not.toBe('');
+  });
+
+  it('writes in the requested language', async () => {
+    const narrator = createTemplateNarrator();
+    const lines = await Promise.all(LANGUAGE_CODES.map(language => narrator.debrief(contexts(language).debrief)));
+    expect(new Set(lines).size).toBe(LANGUAGE_CODES.length);
+  });
+});
+
+// --- Provider selection ---
+
+describe('createNarrator', () => {
+  it('uses the templates when no API key is set', async () => {
+    const { briefing, debrief } = contexts('en');
+    const templates = createTemplateNarrator();
+    const narrator = createNarrator('');
+    expect(await narrator.briefing(briefing)).toBe(await templates.briefing(briefing));
+    expect(await narrator.debrief(debrief)).toBe(await templates.debrief(debrief));
+  });
+});
+
+describe('withFallback', () => {
+  it('falls back to the templates when the primary provider rejects', async () => {
+    const { briefing, debrief } = contexts('es');
+    const templates = createTemplateNarrator();
+    const narrator = withFallback(failing, templates);
+    expect(await narrator.briefing(briefing)).toBe(await templates.briefing(briefing));
+    expect(await narrator.debrief(debrief)).toBe(await templates.debrief(debrief));
+  });
+
+  it('passes the primary provider\'s lines through when it succeeds', async () => {
+    const { briefing } = contexts('en');
+    const primary: NarratorProvider = { ...failing, briefing: async () => 'Incoming!' };
+    expect(await withFallback(primary, createTemplateNarrator()).briefing(briefing)).toBe('Incoming!');
+  });
+});
@@ -0,0 +1,184 @@
+import type { EnemyKind, GameState } from './game/types';
+import { getWave } from './game/waves';
+import { enemyLabel, format, languageInfo, loadTranslation, plural, type Language } from './i18n';
+import { accuracy, type RunStats } from './stats';
+
+// --- Narrator: a radio voice briefing each wave and debriefing the run ---
+
+const NARRATOR_MODEL = 'gemini-2.5-flash';
+/** Past this the template text is used instead; a briefing that turns up mid-wave is no use. */
+const REQUEST_TIMEOUT = 4000;
+const MAX_OUTPUT_TOKENS = 120;
+/** Accuracy at or above this earns praise in the template debrief, below `WILD_ACCURACY` a warning. */
+const SHARP_ACCURACY = 0.6;
+const WILD_ACCURACY = 0.3;
+
+export interface BriefingContext {
+  language: Language;
+  wave: number;
+  /** Waves to clear, or null in endless play and score-goal scenarios. */
+  waves: number | null;
+  enemies: number;
+  /** Enemy kinds the wave can launch. */
+  threats: EnemyKind[];
+  citiesStanding: number;
+  cities: number;
+  /** Name of the hand-made level being played, if any. */
+  scenario: string | null;
+}
+
+export interface DebriefContext {
+  language: Language;
+  won: boolean;
+  score: number;
+  wave: number;
+  citiesLost: number;
+  cities: number;
+  /** Interceptors whose blast destroyed nothing; null when the run wasn't tracked. */
+  ammoWasted: number | null;
+  /** Hits per shot fired, from 0 to 1; null when the run wasn't tracked. */
+  accuracy: number | null;
+}
+
+/** Writes the narrator's lines. Online providers can be slow or fail; pair them with `withFallback`. */
+export interface NarratorProvider {
+  briefing(context: BriefingContext): Promise<string>;
+  debrief(context: DebriefContext): Promise<string>;
+}
+
+export function briefingContext(state: GameState, language: Language): BriefingContext {
+  const { mix, enemies } = getWave(state.wave, state.options.scenario?.waves);
+  return {
+    language,
+    wave: state.wave,
+    waves: state.options.endless ? null : state.options.waves,
+    enemies,
+    threats: (Object.keys(mix) as EnemyKind[]).filter(kind => (mix[kind] ?? 0) > 0),
+    citiesStanding: state.cities.filter(c => !c.destroyed).length,
+    cities: state.cities.length,
+    scenario: state.options.scenario?.name ?? null,
+  };
+}
+
+export function debriefContext(state: GameState, language: Language, run: RunStats | null): DebriefContext {
+  const fired = run ? run.shots.reduce((sum, n) => sum + n, 0) : 0;
+  return {
+    language,
+    won: state.status === 'won',
+    score: state.score,
+    wave: state.wave,
+    citiesLost: state.cities.filter(c => c.destroyed).length,
+    cities: state.cities.length,
+    ammoWasted: run && fired - run.hits,
+    accuracy: run && accuracy(run),
+  };
+}
+
+// --- Offline templates ---
+
+/** Builds the lines from the locale files alone: the same context always gives the same text. */
+export function createTemplateNarrator(): NarratorProvider {
+  return {
+    async briefing(context) {
+      const t = await loadTranslation(context.language);
+      const lines = [
+        context.wave === context.waves ? t.briefingFinalWave : format(t.briefingWave, { wave: context.wave }),
+        plural(t, 'briefingContacts', context.enemies, {
+          threats: context.threats.map(kind => enemyLabel(t, kind)).join(t.listSeparator),
+        }),
+        context.citiesStanding === context.cities
+          ? t.briefingCitiesIntact
+          : plural(t, 'briefingCitiesLeft', context.citiesStanding),
+      ];
+      return lines.join(t.sentenceSeparator);
+    },
+    async debrief(context) {
+      const t = await loadTranslation(context.language);
+      const lines = [
+        format(context.won ? t.debriefWon : t.debriefLost, { wave: context.wave, score: context.score }),
+        context.citiesLost === 0 ? t.debriefNoCitiesLost : plural(t, 'debriefCitiesLost', context.citiesLost),
+      ];
+      if (context.ammoWasted !== null && context.ammoWasted > 0) lines.push(plural(t, 'debriefWasted', context.ammoWasted));
+      if (context.accuracy !== null) {
+        const percent = Math.round(context.accuracy * 100);
+        if (context.accuracy >= SHARP_ACCURACY) lines.push(format(t.debriefSharp, { accuracy: percent }));
+        else if (context.accuracy < WILD_ACCURACY) lines.push(format(t.debriefWild, { accuracy: percent }));
+      }
+      return lines.join(t.sentenceSeparator);
+    },
+  };
+}
+
+// --- Gemini ---
+
+const PERSONA = 'You are the radio voice of missile defense command in the arcade game Max Nova Defense, '
+  + 'speaking to the crews of the interceptor batteries protecting a row of cities.';
+
+function languageRule(language: Language) {
+  return `Reply only in ${languageInfo(language).name} (${language}), as plain text with no markdown, lists or quotation marks.`;
+}
+
+function briefingPrompt(context: BriefingContext) {
+  return [
+    PERSONA,
+    `Give a tense briefing of at most two short sentences before wave ${context.wave}${context.waves ? ` of ${context.waves}` : ''}.`,
+    context.scenario && `The mission is called "${context.scenario}".`,
+    `Expected: ${context.enemies} enemies, of these kinds: ${context.threats.join(', ')}.`,
+    `${context.citiesStanding} of ${context.cities} cities are still standing.`,
+    languageRule(context.language),
+  ].filter(Boolean).join('\n');
+}
+
+function debriefPrompt(context: DebriefContext) {
+  return [
+    PERSONA,
+    `The battle is over and the defenders ${context.won ? 'won' : 'lost'} on wave ${context.wave} with a score of ${context.score}.`,
+    `Cities lost: ${context.citiesLost} of ${context.cities}.`,
+    context.ammoWasted !== null && `Interceptors wasted on empty sky: ${context.ammoWasted}.`,
+    context.accuracy !== null && `Accuracy: ${Math.round(context.accuracy * 100)}%.`,
+    'Give a debrief of at most three short sentences that mentions these numbers and ends with one piece of advice.',
+    languageRule(context.language),
+  ].filter(Boolean).join('\n');
+}
+
+/** Asks Gemini for each line; throws on errors, timeouts and empty replies so a fallback can take over. */
+export function createGeminiNarrator(apiKey: string): NarratorProvider {
+  // The SDK is only fetched once a line is actually requested.
+  const client = import('@google/genai').then(({ GoogleGenAI }) => new GoogleGenAI({ apiKey }));
+
+  const generate = async (prompt: string) => {
+    const ai = await client;
+    const response = await ai.models.generateContent({
+      model: NARRATOR_MODEL,
+      contents: prompt,
+      config: {
+        maxOutputTokens: MAX_OUTPUT_TOKENS,
+        // Short flavor text gains nothing from thinking, and it would eat the token budget.
+        thinkingConfig: { thinkingBudget: 0 },
+        abortSignal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      },
+    });
+    const text = response.text?.trim();
+    if (!text) throw new Error('Narrator returned no text');
+    return text;
+  };
+
+  return {
+    briefing: context => generate(briefingPrompt(context)),
+    debrief: context => generate(debriefPrompt(context)),
+  };
+}
+
+/** Uses `primary` and quietly falls back to `fallback` whenever it fails. */
+export function withFallback(primary: NarratorProvider, fallback: NarratorProvider): NarratorProvider {
+  return {
+    briefing: context => primary.briefing(context).catch(() => fallback.briefing(context)),
+    debrief: context => primary.debrief(context).catch(() => fallback.debrief(context)),
+  };
+}
+
+/** Gemini when an API key was configured at build time, otherwise the offline templates. */
+export function createNarrator(apiKey = process.env.GEMINI_API_KEY): NarratorProvider {
+  const templates = createTemplateNarrator();
+  return apiKey ? withFallback(createGeminiNarrator(apiKey), templates) : templates;
+}
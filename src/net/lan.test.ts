@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_DT } from '../game/constants';
+import { createGame, step } from '../game/engine';
+import { readPeerMessage } from './lan';
+
+function snapshot() {
+  let state = createGame(3);
+  for (let tick = 0; tick < 600 && !state.events.length; tick++) state = step(state, { fires: [] }, FIXED_DT);
+  return JSON.parse(JSON.stringify({ type: 'snapshot', state: { ...state, events: [] }, events: state.events }));
+}
+
+describe('relayed peer messages', () => {
+  it('pass through when well formed', () => {
+    const message = snapshot();
+    expect(message.events.length).toBeGreaterThan(0);
+    expect(readPeerMessage(message)).toEqual(message);
+    expect(readPeerMessage({ type: 'paused', paused: true })).toEqual({ type: 'paused', paused: true });
+    expect(readPeerMessage({ type: 'fire', x: 10, y: 20 })).toEqual({ type: 'fire', x: 10, y: 20 });
+  });
+
+  it('are dropped when missing or of an unknown type', () => {
+    expect(readPeerMessage(undefined)).toBeNull();
+    expect(readPeerMessage(null)).toBeNull();
+    expect(readPeerMessage({ type: 'explode' })).toBeNull();
+  });
+
+  it('are dropped when their fields are malformed', () => {
+    expect(readPeerMessage({ type: 'paused', paused: 'yes' })).toBeNull();
+    expect(readPeerMessage({ type: 'fire', x: 10 })).toBeNull();
+    expect(readPeerMessage({ type: 'launch', x: 10, targetX: null })).toBeNull();
+  });
+
+  it('check start options like a replay does', () => {
+    expect(readPeerMessage({ type: 'start', options: { batteryOwners: [0, 1, 1] } })).toEqual({ type: 'start', options: { batteryOwners: [0, 1, 1] } });
+    expect(readPeerMessage({ type: 'start', options: { batteryOwners: [-3, -3, -3] } })).toBeNull();
+    expect(readPeerMessage({ type: 'start', options: null })).toBeNull();
+  });
+
+  it('check snapshot state and the events sent with it', () => {
+    const message = snapshot();
+    expect(readPeerMessage({ ...message, state: { ...message.state, batteries: null } })).toBeNull();
+    expect(readPeerMessage({ ...message, state: { ...message.state, cities: message.state.cities.slice(1) } })).toBeNull();
+    expect(readPeerMessage({ ...message, events: [{ type: 'cityDestroyed', city: 99 }] })).toBeNull();
+    expect(readPeerMessage({ ...message, events: [{ type: 'impact' }] })).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { isBoolean, isNumber, isOneOf, isRecord, isString } from '../game/json';
+import { validateOptions } from '../game/replay';
+import { isGameEventList, validateState } from '../game/state';
+import { LAN_MODES, LOBBY_ERRORS, type ClientMessage, type LanMode, type LobbyError, type PeerMessage, type ServerMessage } from './protocol';
+
+// --- Browser side of the lobby relay ---
+
+/** Where this browser stands in a LAN room. */
+export interface LanStatus {
+  role: 'host' | 'guest';
+  mode: LanMode;
+  /** Null until the server has assigned the host a room. */
+  room: string | null;
+  /** Whether the other player is in the room. */
+  peer: boolean;
+}
+
+/** What went wrong with the lobby, as shown to the player. */
+export type LanProblem = LobbyError | 'disconnected';
+
+export interface LanConnection {
+  host(mode: LanMode): void;
+  join(room: string): void;
+  /** Passes a message to the other player in the room. */
+  send(data: PeerMessage): void;
+  close(): void;
+}
+
+// --- Incoming messages ---
+
+/**
+ * Checks a message relayed from the other player. The server passes these on
+ * unread, so anything malformed or out of range is dropped here as null.
+ */
+export function readPeerMessage(data: unknown): PeerMessage | null {
+  if (!isRecord(data)) return null;
+  try {
+    switch (data.type) {
+      case 'start':
+        return { type: 'start', options: validateOptions(data.options) };
+      case 'snapshot': {
+        const state = validateState(data.state);
+        return isGameEventList(data.events, state) ? { type: 'snapshot', state, events: data.events } : null;
+      }
+      case 'paused':
+        return isBoolean(data.paused) ? { type: 'paused', paused: data.paused } : null;
+      case 'quit':
+        return { type: 'quit' };
+      case 'fire':
+        return isNumber(data.x) && isNumber(data.y) ? { type: 'fire', x: data.x, y: data.y } : null;
+      case 'launch':
+        return isNumber(data.x) && isNumber(data.targetX) ? { type: 'launch', x: data.x, targetX: data.targetX } : null;
+      default:
+        return null;
+    }
+  } catch {
+    // Options or state that fail their checks.
+    return null;
+  }
+}
+
+function readServerMessage(data: unknown): ServerMessage | null {
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case 'hosted':
+      return isString(data.room) ? { type: 'hosted', room: data.room } : null;
+    case 'joined':
+      return isString(data.room) && isOneOf(data.mode, LAN_MODES) ? { type: 'joined', room: data.room, mode: data.mode } : null;
+    case 'peerJoined':
+    case 'peerLeft':
+      return { type: data.type };
+    case 'error':
+      return isOneOf(data.reason, LOBBY_ERRORS) ? { type: 'error', reason: data.reason } : null;
+    case 'relay': {
+      const peer = readPeerMessage(data.data);
+      return peer && { type: 'relay', data: peer };
+    }
+    default:
+      return null;
+  }
+}
+
+function lobbyUrl() {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/ws`;
+}
+
+/**
+ * Opens a connection to the lobby on the page's own server. Messages sent
+ * before the socket is open are queued; `onClose` fires once, however it ends.
+ */
+export function connectLan(onMessage: (message: ServerMessage) => void, onClose: () => void): LanConnection {
+  const socket = new WebSocket(lobbyUrl());
+  let queue: string[] = [];
+  let closed = false;
+
+  const post = (message: ClientMessage) => {
+    const text = JSON.stringify(message);
+    if (socket.readyState === WebSocket.OPEN) socket.send(text);
+    else if (socket.readyState === WebSocket.CONNECTING) queue.push(text);
+  };
+
+  socket.addEventListener('open', () => {
+    queue.forEach(text => socket.send(text));
+    queue = [];
+  });
+  socket.addEventListener('message', e => {
+    let data: unknown;
+    try {
+      data = JSON.parse(e.data);
+    } catch {
+      // A garbled frame is dropped, like any message that fails its checks.
+      return;
+    }
+    const message = readServerMessage(data);
+    if (message) onMessage(message);
+  });
+  socket.addEventListener('close', () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  });
+
+  return {
+    host(mode) {
+      post({ type: 'host', mode });
+    },
+    join(room) {
+      post({ type: 'join', room: room.trim().toUpperCase() });
+    },
+    send(data) {
+      post({ type: 'relay', data });
+    },
+    close() {
+      closed = true;
+      socket.close();
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { GameEvent, GameOptions, GameState } from '../game/types';
+
+// --- LAN multiplayer protocol: browsers talk through the lobby relay on `/ws` ---
+
+export type LanMode = 'coop' | 'versus';
+export const LAN_MODES: LanMode[] = ['coop', 'versus'];
+
+/** Room codes are four letters without look-alikes, easy to read out across a room. */
+export const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+export const ROOM_CODE_LENGTH = 4;
+
+/** Traffic between the host and the guest; the server passes it on without looking inside. */
+export type PeerMessage =
+  /** Host: a game has started with these rules; the guest plays player 2 or the attacker. */
+  | { type: 'start'; options: Partial<GameOptions> }
+  /** Host: the authoritative state, with every event since the previous snapshot. */
+  | { type: 'snapshot'; state: GameState; events: GameEvent[] }
+  /** Host: the game was paused or resumed; snapshots stop while it is paused. */
+  | { type: 'paused'; paused: boolean }
+  /** Host: the game was abandoned and both players are back in the lobby. */
+  | { type: 'quit' }
+  /** Guest (co-op): fire from one of the guest's batteries. */
+  | { type: 'fire'; x: number; y: number }
+  /** Guest (versus): launch a rocket. */
+  | { type: 'launch'; x: number; targetX: number };
+
+export type ClientMessage =
+  | { type: 'host'; mode: LanMode }
+  | { type: 'join'; room: string }
+  | { type: 'relay'; data: PeerMessage };
+
+/** Why the server turned a message down; the client shows a translated explanation. */
+export type LobbyError = 'roomNotFound' | 'roomFull' | 'ownRoom' | 'badMessage';
+export const LOBBY_ERRORS: LobbyError[] = ['roomNotFound', 'roomFull', 'ownRoom', 'badMessage'];
+
+export type ServerMessage =
+  | { type: 'hosted'; room: string }
+  | { type: 'joined'; room: string; mode: LanMode }
+  | { type: 'peerJoined' }
+  | { type: 'peerLeft' }
+  | { type: 'error'; reason: LobbyError }
+  | { type: 'relay'; data: PeerMessage };
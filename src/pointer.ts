@@ -0,0 +1,22 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from './game/constants';
+import type { Point } from './game/types';
+
+/**
+ * Maps a client-space position to logical canvas coordinates. The canvas is
+ * drawn with `object-fit: contain`, so when its box doesn't match the 4:3
+ * playfield the picture is letterboxed and the bars must be excluded.
+ * Returns null for positions that fall on the bars.
+ */
+export function clientToCanvas(canvas: HTMLCanvasElement, clientX: number, clientY: number): Point | null {
+  const rect = canvas.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return null;
+
+  const scale = Math.min(rect.width / CANVAS_WIDTH, rect.height / CANVAS_HEIGHT);
+  const offsetX = (rect.width - CANVAS_WIDTH * scale) / 2;
+  const offsetY = (rect.height - CANVAS_HEIGHT * scale) / 2;
+  const x = (clientX - rect.left - offsetX) / scale;
+  const y = (clientY - rect.top - offsetY) / scale;
+
+  if (x < 0 || x > CANVAS_WIDTH || y < 0 || y > CANVAS_HEIGHT) return null;
+  return { x, y };
+}
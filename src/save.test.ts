@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_DT } from './game/constants';
+import { createGame, step } from './game/engine';
+import type { Enemy } from './game/types';
+import { createSave, parseSave, serializeSave, type SavedGame } from './save';
+import { createRunStats, type RunStats } from './stats';
+
+describe('saved games', () => {
+  it('restore the state they were written from', () => {
+    let state = createGame(5);
+    for (let tick = 0; tick < 300; tick++) state = step(state, { fires: [] }, FIXED_DT);
+    const restored = parseSave(serializeSave(createSave(state, null, null)));
+    expect(restored.state).toEqual({ ...state, events: [] });
+  });
+
+  it('migrate version 1 saves from before scenarios, daily challenges and co-op', () => {
+    const state = createGame(5);
+    const { scenario, daily, batteryOwners, versus, practice, ...oldOptions } = state.options;
+    const { playerScores, launchCooldown, ...oldState } = state;
+    const text = JSON.stringify({ format: 'max-nova-save', version: 1, savedAt: 1, state: { ...oldState, options: oldOptions }, replay: null, stats: null });
+
+    const restored = parseSave(text);
+    expect(restored.state.options).toEqual({ ...oldOptions, scenario, daily, batteryOwners, versus, practice });
+    expect(restored.state.playerScores).toEqual(playerScores);
+    expect(restored.state.launchCooldown).toBe(launchCooldown);
+  });
+
+  it('migrate version 2 saves from before practice runs were marked', () => {
+    const state = createGame(5);
+    const { practice, ...oldOptions } = state.options;
+    const text = JSON.stringify({ format: 'max-nova-save', version: 2, savedAt: 1, state: { ...state, options: oldOptions }, replay: null, stats: null });
+    expect(parseSave(text).state.options.practice).toBe(false);
+  });
+
+  it('keep the run statistics they were written with', () => {
+    const stats = { ...createRunStats(), shots: [3, 1, 0], hits: 2 };
+    expect(parseSave(serializeSave(createSave(createGame(5), null, stats))).stats).toEqual(stats);
+  });
+
+  it.each([
+    ['statistics without kills by kind', (save: SavedGame) => {
+      delete (save.stats as Partial<RunStats>).killsByKind;
+    }],
+    ['an enemy without a position', (save: SavedGame) => {
+      save.state.enemies = [{ kind: 'rocket', id: 1 } as Enemy];
+    }],
+    ['a missile from a battery that does not exist', (save: SavedGame) => {
+      save.state.missiles = [{ ...save.state.missiles[0], battery: 7 }];
+    }],
+    ['fewer batteries than the layout has', (save: SavedGame) => {
+      save.state.batteries.pop();
+    }],
+  ])('reject %s', (_, corrupt) => {
+    const state = step(createGame(5), { fires: [{ x: 400, y: 200 }] }, FIXED_DT);
+    const save: SavedGame = JSON.parse(serializeSave(createSave(state, null, createRunStats())));
+    corrupt(save);
+    expect(() => parseSave(JSON.stringify(save))).toThrow(/corrupt/);
+  });
+
+  it('reject versions they cannot migrate', () => {
+    const text = serializeSave({ ...createSave(createGame(5), null, null), version: 99 });
+    expect(() => parseSave(text)).toThrow(/version 99/);
+  });
+});
@@ -0,0 +1,131 @@
+import { isInteger, isNumber, isOneOf, isRecord } from './game/json';
+import { validateReplay, type Replay } from './game/replay';
+import { validateState } from './game/state';
+import type { GameState, GameStatus } from './game/types';
+import { isRunStats, type RunStats } from './stats';
+
+// --- Saved game: a snapshot of an unfinished run, persisted in localStorage ---
+
+const SAVE_FORMAT = 'max-nova-save';
+/**
+ * Bump whenever the saved shape changes, including `GameOptions`, and add a
+ * migration from the old version below; versions without one are discarded.
+ */
+const SAVE_VERSION = 3;
+const STORAGE_KEY = 'max-nova-defense:save';
+
+type SaveData = Record<string, unknown>;
+
+/** Applies `migrate` to the save's state and options, leaving saves too broken for it to validation. */
+function migrateState(save: SaveData, migrate: (state: SaveData, options: SaveData) => SaveData): SaveData {
+  const { state } = save;
+  if (!isRecord(state) || !isRecord(state.options)) return save;
+  return { ...save, state: migrate(state, state.options) };
+}
+
+/** Turns a save of the keyed version into the shape of the next one. */
+const MIGRATIONS: Record<number, (save: SaveData) => SaveData> = {
+  // Scenarios, daily challenges and co-op all added fields while saves were at version 1;
+  // whichever of them a version 1 save lacks, its run used none of those features.
+  1: save => migrateState(save, (state, options) => ({
+    playerScores: [0],
+    launchCooldown: 0,
+    ...state,
+    options: { scenario: null, daily: null, batteryOwners: null, versus: false, ...options },
+  })),
+  // Version 2 predates marking practice runs; one saved then was indistinguishable from a campaign game.
+  2: save => migrateState(save, (state, options) => ({ ...state, options: { practice: false, ...options } })),
+};
+
+const RESUMABLE: GameStatus[] = ['playing', 'waveComplete'];
+
+export interface SavedGame {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  /** Milliseconds since the epoch. */
+  savedAt: number;
+  /** Engine state, including its RNG state, so the run continues exactly where it stopped. */
+  state: GameState;
+  /** Recording so far, or null when it was abandoned (e.g. after a debug command). */
+  replay: Replay | null;
+  stats: RunStats | null;
+}
+
+export function createSave(state: GameState, replay: Replay | null, stats: RunStats | null): SavedGame {
+  return {
+    format: SAVE_FORMAT,
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    state: { ...state, events: [] },
+    replay,
+    stats,
+  };
+}
+
+export function serializeSave(save: SavedGame): string {
+  return JSON.stringify(save);
+}
+
+export function parseSave(text: string): SavedGame {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Saved game is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== SAVE_FORMAT) throw new Error('Not a Max Nova Defense saved game');
+  let save = data;
+  while (save.version !== SAVE_VERSION) {
+    const { version } = save;
+    if (!isInteger(version) || !MIGRATIONS[version]) throw new Error(`Unsupported saved game version ${version}`);
+    save = { ...MIGRATIONS[version](save), version: version + 1 };
+  }
+
+  const { state, replay, stats } = save;
+  if (!isRecord(state) || !isOneOf(state.status, RESUMABLE)) throw new Error('Saved game state is corrupt');
+  // Practice runs aren't tracked, so they are saved without statistics.
+  if (stats !== null && !isRunStats(stats)) throw new Error('Saved run statistics are corrupt');
+
+  return {
+    format: SAVE_FORMAT,
+    version: SAVE_VERSION,
+    savedAt: isNumber(save.savedAt) ? save.savedAt : 0,
+    state: validateState(state),
+    replay: replay ? validateReplay(replay) : null,
+    stats: isRunStats(stats) ? stats : null,
+  };
+}
+
+/** Reads the stored save; a save that can't be restored is removed and reported by throwing. */
+export function loadSave(): SavedGame | null {
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (!stored) return null;
+  try {
+    return parseSave(stored);
+  } catch (err) {
+    clearSave();
+    throw err;
+  }
+}
+
+export function storeSave(save: SavedGame) {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeSave(save));
+  } catch {
+    // Storage may be unavailable (private mode, quota); the game just can't be resumed.
+  }
+}
+
+export function clearSave() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored to clear.
+  }
+}
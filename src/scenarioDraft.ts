@@ -0,0 +1,26 @@
+import { createClassicScenario, validateScenario } from './game/scenario';
+import type { Scenario } from './game/types';
+
+// --- Level editor draft, kept in localStorage between visits ---
+
+const STORAGE_KEY = 'max-nova-defense:scenario-draft';
+
+/** The stored draft, or the classic layout when there is none or it no longer validates. */
+export function loadDraft(): Scenario {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return validateScenario(JSON.parse(stored));
+  } catch {
+    // Fall through to a fresh draft.
+  }
+  return createClassicScenario();
+}
+
+/** Call with drafts that pass validation only, so a half-finished edit can't wipe the stored one. */
+export function storeDraft(draft: Scenario) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+  } catch {
+    // Storage may be unavailable; the draft then lasts for the session only.
+  }
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, loadSettings } from './settings';
+
+describe('stored settings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stored = (value: object) => vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(value), setItem: () => {} });
+  const custom = { enemySpeed: 1.5, spawnRate: 0.8, ammo: [10, 50, 10], waves: 20 };
+
+  it('come back as they were saved', () => {
+    stored({ customDifficulty: custom, coopOwners: [0, 1, 1] });
+    expect(loadSettings()).toMatchObject({ customDifficulty: custom, coopOwners: [0, 1, 1] });
+  });
+
+  it('clamp custom values to the panel limits', () => {
+    stored({ customDifficulty: { ...custom, ammo: [1, 50, 99] } });
+    expect(loadSettings().customDifficulty.ammo).toEqual([5, 50, 60]);
+  });
+
+  it.each([[[20, 40]], [[20, 40, 20, 40]], ['lots']])('fall back to the default custom ammo for %j', ammo => {
+    stored({ customDifficulty: { ...custom, ammo } });
+    expect(loadSettings().customDifficulty).toEqual(DEFAULT_SETTINGS.customDifficulty);
+  });
+
+  it.each([[[0, 1]], [[-3, -3, -3]], [[0, 2, 1]], [null], ['01']])('fall back to the default co-op owners for %j', coopOwners => {
+    stored({ coopOwners });
+    expect(loadSettings().coopOwners).toEqual(DEFAULT_SETTINGS.coopOwners);
+  });
+});
@@ -0,0 +1,88 @@
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings } from './audio';
+import { DIFFICULTY_PRESETS, sanitizeCustom, type DifficultyParams } from './game/difficulty';
+import type { PaletteName } from './game/palettes';
+import type { EffectsQuality } from './game/particles';
+import { validateOptions } from './game/replay';
+import type { Difficulty, GameOptions, GuidanceMode } from './game/types';
+
+export type FireMode = 'nearest' | 'explicit';
+
+export interface Settings {
+  /** `nearest` fires from the closest battery with ammo; `explicit` lets the player pick the battery. */
+  fireMode: FireMode;
+  guidance: GuidanceMode;
+  difficulty: Difficulty;
+  /** Values used when `difficulty` is `custom`; kept when switching presets. */
+  customDifficulty: DifficultyParams;
+  endless: boolean;
+  /** Marks where an interceptor would meet the enemy nearest the cursor. */
+  aimAssist: boolean;
+  palette: PaletteName;
+  highContrast: boolean;
+  /** Tones down explosions, overlay animations and the victory confetti. */
+  reducedMotion: boolean;
+  /** Particles, trails and screen shake; `off` suits low-end machines. */
+  effects: EffectsQuality;
+  audio: AudioSettings;
+  /** Player index owning each battery, left to right, in co-op games. */
+  coopOwners: number[];
+  /** Wave briefings and the end-of-game debrief. */
+  narrator: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  fireMode: 'nearest',
+  guidance: 'heatSeeking',
+  difficulty: 'normal',
+  customDifficulty: DIFFICULTY_PRESETS.normal,
+  endless: false,
+  aimAssist: false,
+  palette: 'default',
+  highContrast: false,
+  reducedMotion: typeof matchMedia !== 'undefined' && matchMedia('(prefers-reduced-motion: reduce)').matches,
+  effects: 'high',
+  audio: DEFAULT_AUDIO_SETTINGS,
+  coopOwners: [0, 0, 1],
+  narrator: true,
+};
+
+const STORAGE_KEY = 'max-nova-defense:settings';
+
+/** Whether stored values pass the same checks as a replay's options, for the campaign's battery layout. */
+function isPlayable(options: Partial<GameOptions>) {
+  try {
+    validateOptions(options);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function loadSettings(): Settings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const settings: Settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    const custom = { ...DEFAULT_SETTINGS.customDifficulty, ...settings.customDifficulty };
+    // Out-of-range values are clamped, but an ammo list for another layout can't be repaired.
+    const customDifficulty = Array.isArray(custom.ammo) ? sanitizeCustom(custom) : null;
+    return {
+      ...settings,
+      customDifficulty: customDifficulty && isPlayable(customDifficulty) ? customDifficulty : DEFAULT_SETTINGS.customDifficulty,
+      audio: { ...DEFAULT_AUDIO_SETTINGS, ...settings.audio },
+      coopOwners: Array.isArray(settings.coopOwners) && isPlayable({ batteryOwners: settings.coopOwners })
+        ? settings.coopOwners
+        : DEFAULT_SETTINGS.coopOwners,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be unavailable (private mode, quota); settings then last for the session only.
+  }
+}
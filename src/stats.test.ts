@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createGame } from './game/engine';
+import type { GameEvent } from './game/types';
+import { createRunTracker } from './stats';
+
+const intercept = (explosion: number, source: 'interceptor' | 'impact'): GameEvent => ({
+  type: 'intercept', kind: 'rocket', x: 0, y: 0, points: 20, explosion, source,
+});
+
+describe('run tracker', () => {
+  it('counts only enemies shot down by interceptors', () => {
+    const tracker = createRunTracker();
+    const state = createGame(1);
+    state.explosions = [
+      { id: 1, source: 'interceptor', battery: 0, x: 0, y: 0, radius: 10, maxRadius: 40, growing: true },
+      { id: 2, source: 'impact', battery: null, x: 0, y: 0, radius: 10, maxRadius: 40, growing: true },
+    ];
+    tracker.record([
+      { type: 'launch', battery: 0, x: 0, y: 0 },
+      intercept(1, 'interceptor'),
+      ...Array.from({ length: 5 }, () => intercept(2, 'impact')),
+    ], state);
+
+    expect(tracker.stats.kills).toBe(1);
+    expect(tracker.stats.killsByKind.rocket).toBe(1);
+    expect(tracker.stats.hits).toBe(1);
+    expect(tracker.stats.bestMultiKill).toBe(1);
+  });
+});
@@ -0,0 +1,201 @@
+import { hasShape, isArrayOf, isBoolean, isInteger, isNumber, isRecord } from './game/json';
+import { ENEMY_KINDS } from './game/scenario';
+import type { EnemyKind, GameEvent, GameState } from './game/types';
+
+// --- Per-run and lifetime statistics, persisted in localStorage ---
+
+export interface RunStats {
+  /** Interceptors launched per battery, left to right. */
+  shots: number[];
+  /** Interceptor blasts that destroyed at least one enemy. */
+  hits: number;
+  kills: number;
+  killsByKind: Record<EnemyKind, number>;
+  /** Most enemies destroyed by a single interceptor blast. */
+  bestMultiKill: number;
+  citiesLost: number;
+  citiesSaved: number;
+  wave: number;
+  score: number;
+  won: boolean;
+}
+
+export interface LifetimeStats {
+  games: number;
+  wins: number;
+  /** Summed by position, so layouts with fewer batteries leave the rightmost entries alone. */
+  shots: number[];
+  hits: number;
+  kills: number;
+  killsByKind: Record<EnemyKind, number>;
+  bestMultiKill: number;
+  citiesSaved: number;
+  bestWave: number;
+  bestScore: number;
+}
+
+export interface StatsRecord {
+  lifetime: LifetimeStats;
+  /** Unlock time (ms since epoch) per achievement id. */
+  achievements: Record<string, number>;
+  lastRun: RunStats | null;
+}
+
+const STORAGE_KEY = 'max-nova-defense:stats';
+
+function emptyKills(): Record<EnemyKind, number> {
+  return { rocket: 0, mirv: 0, smartBomb: 0, bomber: 0, satellite: 0 };
+}
+
+export function createRunStats(): RunStats {
+  return {
+    shots: [],
+    hits: 0,
+    kills: 0,
+    killsByKind: emptyKills(),
+    bestMultiKill: 0,
+    citiesLost: 0,
+    citiesSaved: 0,
+    wave: 1,
+    score: 0,
+    won: false,
+  };
+}
+
+function emptyLifetime(): LifetimeStats {
+  return {
+    games: 0,
+    wins: 0,
+    shots: [],
+    hits: 0,
+    kills: 0,
+    killsByKind: emptyKills(),
+    bestMultiKill: 0,
+    citiesSaved: 0,
+    bestWave: 0,
+    bestScore: 0,
+  };
+}
+
+function isCount(value: unknown): value is number {
+  return isInteger(value) && value >= 0;
+}
+
+/** Checks a run's tally restored from storage, e.g. alongside a saved game. */
+export function isRunStats(value: unknown): value is RunStats {
+  return hasShape<RunStats>(value, {
+    shots: shots => isArrayOf(shots, isCount),
+    hits: isCount,
+    kills: isCount,
+    killsByKind: kills => isRecord(kills) && ENEMY_KINDS.every(kind => isCount(kills[kind])),
+    bestMultiKill: isCount,
+    citiesLost: isCount,
+    citiesSaved: isCount,
+    wave: isCount,
+    score: isNumber,
+    won: isBoolean,
+  });
+}
+
+export function accuracy(stats: Pick<RunStats, 'shots' | 'hits'>) {
+  const fired = stats.shots.reduce((sum, n) => sum + n, 0);
+  return fired === 0 ? 0 : stats.hits / fired;
+}
+
+export function loadStats(): StatsRecord {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const data = JSON.parse(stored);
+      return {
+        lifetime: { ...emptyLifetime(), ...data.lifetime, killsByKind: { ...emptyKills(), ...data.lifetime?.killsByKind } },
+        achievements: data.achievements ?? {},
+        lastRun: data.lastRun ?? null,
+      };
+    }
+  } catch {
+    // Fall through to a fresh record.
+  }
+  return { lifetime: emptyLifetime(), achievements: {}, lastRun: null };
+}
+
+export function saveStats(record: StatsRecord) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Storage may be unavailable (private mode, quota); stats then last for the session only.
+  }
+}
+
+/** Folds a finished run into the lifetime totals. */
+export function addRun(lifetime: LifetimeStats, run: RunStats): LifetimeStats {
+  const killsByKind = { ...lifetime.killsByKind };
+  (Object.keys(killsByKind) as EnemyKind[]).forEach(kind => {
+    killsByKind[kind] += run.killsByKind[kind];
+  });
+  return {
+    games: lifetime.games + 1,
+    wins: lifetime.wins + (run.won ? 1 : 0),
+    shots: Array.from({ length: Math.max(lifetime.shots.length, run.shots.length) }, (_, i) =>
+      (lifetime.shots[i] ?? 0) + (run.shots[i] ?? 0)),
+    hits: lifetime.hits + run.hits,
+    kills: lifetime.kills + run.kills,
+    killsByKind,
+    bestMultiKill: Math.max(lifetime.bestMultiKill, run.bestMultiKill),
+    citiesSaved: lifetime.citiesSaved + run.citiesSaved,
+    bestWave: Math.max(lifetime.bestWave, run.wave),
+    bestScore: Math.max(lifetime.bestScore, run.score),
+  };
+}
+
+export interface RunTracker {
+  readonly stats: RunStats;
+  /** Tallies the events of one simulation step and the state it produced. */
+  record(events: GameEvent[], state: GameState): void;
+}
+
+/** `resume` carries on the tally of a run restored from a saved game. */
+export function createRunTracker(resume?: RunStats): RunTracker {
+  const stats = resume ? structuredClone(resume) : createRunStats();
+  // Kills per interceptor blast, by explosion id, while the blast is alive.
+  const blastKills = new Map<number, number>();
+
+  return {
+    stats,
+    record(events, state) {
+      // The layout decides how many batteries there are.
+      while (stats.shots.length < state.batteries.length) stats.shots.push(0);
+      events.forEach(event => {
+        switch (event.type) {
+          case 'launch':
+            stats.shots[event.battery] += 1;
+            break;
+          case 'intercept': {
+            // Warheads caught in the blast of another one's impact weren't shot down.
+            if (event.source !== 'interceptor') break;
+            stats.kills += 1;
+            stats.killsByKind[event.kind] += 1;
+            const count = (blastKills.get(event.explosion) ?? 0) + 1;
+            blastKills.set(event.explosion, count);
+            if (count === 1) stats.hits += 1;
+            stats.bestMultiKill = Math.max(stats.bestMultiKill, count);
+            break;
+          }
+          case 'cityDestroyed':
+            stats.citiesLost += 1;
+            break;
+          case 'won':
+            stats.won = true;
+            break;
+        }
+      });
+
+      blastKills.forEach((_, id) => {
+        if (!state.explosions.some(e => e.id === id)) blastKills.delete(id);
+      });
+      stats.wave = state.wave;
+      stats.score = state.score;
+      stats.citiesSaved = state.cities.filter(c => !c.destroyed).length;
+    },
+  };
+}